@@ -20,6 +20,29 @@ const config = {
   ),
   extraMigrations: [
     path.join(__dirname, '../../supabase/migrations/20250102000000_auth_schema.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250103000000_booking_occurrences.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250104000000_slot_exceptions.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250105000000_booking_waitlist.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250106000000_booking_events.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250107000000_cancellation_policy.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250108000000_attendance.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250109000000_booking_reschedule.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250110000000_credit_packages.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250111000000_memberships.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250112000000_payments.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250113000000_pricing.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250114000000_booking_currency.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250115000000_receipts.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250116000000_payment_references.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250117000000_payment_links.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250118000000_idempotency_keys.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250119000000_instructor_role.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250120000000_staff_invitations.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250121000000_user_sessions.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250122000000_session_devices.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250123000000_idempotency_scope.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250124000000_user_email_verified.sql'),
+    path.join(__dirname, '../../supabase/migrations/20250125000000_late_cancellation_charged.sql'),
   ],
   isCI: process.env.CI === 'true',
 };
@@ -3,6 +3,7 @@ import * as Jose from 'jose';
 export interface AccessClaims {
   userId: string;
   isAdmin: boolean;
+  sessionId?: string; // The sign-in (user_sessions.family_id) the token was issued for
 }
 
 function getSecret(): Uint8Array {
@@ -31,5 +32,6 @@ export async function verifyAccessToken(token: string): Promise<AccessClaims> {
   return {
     userId: String(payload.userId),
     isAdmin: Boolean(payload.isAdmin),
+    ...(payload.sessionId ? { sessionId: String(payload.sessionId) } : {}),
   };
 }
@@ -0,0 +1,64 @@
+import type { StudioRole } from '../types';
+
+export type Permission =
+  | 'settings.view' // Business details and cancellation policy
+  | 'settings.manage'
+  | 'staff.manage'
+  | 'slots.view'
+  | 'slots.manage' // Classes and single-occurrence changes
+  | 'rosters.view'
+  | 'attendance.record'
+  | 'customers.view' // Customers, children and their packages, memberships and prices
+  | 'customers.manage' // Create and update customers and children, send invites
+  | 'customers.delete'
+  | 'bookings.view'
+  | 'bookings.manage' // Book, change status, reschedule and cancel
+  | 'payments.view' // Ledger, balances and statements
+  | 'payments.record' // Payments, reconciliation, credit packages and memberships
+  | 'payments.refund'
+  | 'reports.view' // Attendance reports
+  | 'pricing.view'
+  | 'pricing.manage'; // Studio pricing, coupons, membership plans and customer prices
+
+const managerPermissions: Permission[] = [
+  'settings.view',
+  'slots.view',
+  'slots.manage',
+  'rosters.view',
+  'attendance.record',
+  'customers.view',
+  'customers.manage',
+  'bookings.view',
+  'bookings.manage',
+  'payments.view',
+  'payments.record',
+  'reports.view',
+  'pricing.view',
+];
+
+// What each role may do. Owners can do everything; managers run the studio day to day but
+// cannot delete customers, refund, change prices or settings, or manage staff; instructors
+// only see the schedule and its rosters.
+const rolePermissions: Record<StudioRole, readonly Permission[]> = {
+  owner: [
+    ...managerPermissions,
+    'settings.manage',
+    'staff.manage',
+    'customers.delete',
+    'payments.refund',
+    'pricing.manage',
+  ],
+  manager: managerPermissions,
+  instructor: ['slots.view', 'rosters.view'],
+};
+
+export function hasPermission(role: StudioRole, permission: Permission): boolean {
+  return rolePermissions[role]?.includes(permission) ?? false;
+}
+
+// Roles granted the permission, e.g. to filter studio_owners rows in SQL
+export function rolesWith(permission: Permission): StudioRole[] {
+  return (Object.keys(rolePermissions) as StudioRole[]).filter((role) =>
+    hasPermission(role, permission),
+  );
+}
@@ -12,19 +12,27 @@ export interface User {
 }
 
 /**
- * Upsert a user by Google subject and return the user record.
+ * Upsert a user by Google subject and return the user record. Whether Google verified the
+ * email is kept with it, as only verified emails can accept staff invitations.
  */
 export async function upsertUserFromGoogle(profile: GoogleProfile): Promise<User> {
   const result = await db.query(
-    `insert into users (google_sub, email, name, avatar_url)
-     values ($1, $2, $3, $4)
+    `insert into users (google_sub, email, email_verified, name, avatar_url)
+     values ($1, $2, $3, $4, $5)
      on conflict (google_sub)
      do update set
        email = excluded.email,
+       email_verified = excluded.email_verified,
        name = excluded.name,
        avatar_url = excluded.avatar_url
      returning id, google_sub, email, name, avatar_url, is_admin, created_at`,
-    [profile.sub, profile.email ?? null, profile.name ?? null, profile.picture ?? null],
+    [
+      profile.sub,
+      profile.email ?? null,
+      profile.email_verified === true,
+      profile.name ?? null,
+      profile.picture ?? null,
+    ],
   );
 
   return result.rows[0] as User;
@@ -0,0 +1,206 @@
+import { createHash, randomBytes } from 'crypto';
+import { getDbClient, withTransaction } from '../db';
+import type { User } from './service';
+
+export const REFRESH_TOKEN_DAYS = 30;
+// How long a rotated token is taken for a concurrent refresh of the same client, not a reuse
+export const ROTATION_GRACE_SECONDS = 30;
+
+export interface UserSession {
+  id: string;
+  user_id: string;
+  family_id: string; // Shared by the tokens of one sign-in
+  refresh_token_hash: string;
+  expires_at: Date;
+  created_at: Date;
+  revoked_at: Date | null;
+  replaced_by: string | null; // The token this one was rotated into
+  user_agent: string | null;
+  ip: string | null;
+}
+
+// The device a session is created or refreshed from
+export interface SessionDevice {
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+// A sign-in as listed to its user; id is the family id
+export interface SessionSummary {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: Date; // Signed in
+  last_used_at: Date; // Last refreshed
+  expires_at: Date;
+}
+
+export interface IssuedSession {
+  refreshToken: string;
+  sessionId: string;
+}
+
+export type RotateResult =
+  | ({ user: User } & IssuedSession)
+  | { error: 'invalid refresh token' | 'refresh token reused'; status: 401 }
+  | { error: 'refresh token already rotated'; status: 409 };
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function newToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Start a session for a user who just signed in and return its refresh token.
+ * Only the token's hash is stored.
+ */
+export async function createSession(userId: string, device: SessionDevice): Promise<IssuedSession> {
+  const refreshToken = newToken();
+  const { rows } = await getDbClient().query(
+    `insert into user_sessions (user_id, family_id, refresh_token_hash, expires_at, user_agent, ip)
+     values ($1, gen_random_uuid(), $2, now() + make_interval(days => $3), $4, $5)
+     returning family_id`,
+    [
+      userId,
+      hashToken(refreshToken),
+      REFRESH_TOKEN_DAYS,
+      device.userAgent ?? null,
+      device.ip ?? null,
+    ],
+  );
+  return { refreshToken, sessionId: rows[0].family_id };
+}
+
+/**
+ * Exchange a refresh token for a new one in the same family, which expires
+ * REFRESH_TOKEN_DAYS from now. A token that was already rotated or revoked is treated as
+ * stolen: the whole family is revoked so neither the thief nor the user can refresh again.
+ * A token rotated within the last ROTATION_GRACE_SECONDS of a family still signed in is the
+ * loser of two concurrent refreshes (e.g. two tabs) and is only turned away.
+ */
+export async function rotateSession(
+  refreshToken: string,
+  device: SessionDevice,
+): Promise<RotateResult> {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query(
+      `select s.*, s.expires_at <= now() as expired,
+              s.replaced_by is not null
+                and s.revoked_at > now() - make_interval(secs => $2)
+                and exists (select 1 from user_sessions f
+                            where f.family_id = s.family_id and f.revoked_at is null)
+                as just_rotated
+       from user_sessions s
+       where s.refresh_token_hash = $1 for update of s`,
+      [hashToken(refreshToken), ROTATION_GRACE_SECONDS],
+    );
+    const session: (UserSession & { expired: boolean; just_rotated: boolean }) | undefined =
+      rows[0];
+    if (!session) return { error: 'invalid refresh token', status: 401 };
+    if (session.just_rotated) return { error: 'refresh token already rotated', status: 409 };
+    if (session.revoked_at) {
+      await client.query(
+        'update user_sessions set revoked_at = now() where family_id = $1 and revoked_at is null',
+        [session.family_id],
+      );
+      return { error: 'refresh token reused', status: 401 };
+    }
+    if (session.expired) return { error: 'invalid refresh token', status: 401 };
+
+    const { rows: users } = await client.query(
+      'select id, google_sub, email, name, avatar_url, is_admin, created_at from users where id = $1',
+      [session.user_id],
+    );
+
+    const next = newToken();
+    const { rows: inserted } = await client.query(
+      `insert into user_sessions (user_id, family_id, refresh_token_hash, expires_at, user_agent, ip)
+       values ($1, $2, $3, now() + make_interval(days => $4), $5, $6)
+       returning id`,
+      [
+        session.user_id,
+        session.family_id,
+        hashToken(next),
+        REFRESH_TOKEN_DAYS,
+        device.userAgent ?? session.user_agent,
+        device.ip ?? session.ip,
+      ],
+    );
+    await client.query(
+      'update user_sessions set revoked_at = now(), replaced_by = $2 where id = $1',
+      [session.id, inserted[0].id],
+    );
+    return { user: users[0], refreshToken: next, sessionId: session.family_id };
+  });
+}
+
+/**
+ * Sign out the session a refresh token belongs to. Unknown tokens are ignored.
+ */
+export async function revokeSession(refreshToken: string): Promise<void> {
+  await getDbClient().query(
+    `update user_sessions set revoked_at = now()
+     where revoked_at is null
+       and family_id = (select family_id from user_sessions where refresh_token_hash = $1)`,
+    [hashToken(refreshToken)],
+  );
+}
+
+/**
+ * The user's sessions that can still be refreshed, most recently used first.
+ */
+export async function listSessions(userId: string): Promise<SessionSummary[]> {
+  const { rows } = await getDbClient().query(
+    `select s.family_id as id, s.user_agent, s.ip,
+            (select min(created_at) from user_sessions where family_id = s.family_id) as created_at,
+            s.created_at as last_used_at, s.expires_at
+     from user_sessions s
+     where s.user_id = $1 and s.revoked_at is null and s.expires_at > now()
+     order by s.created_at desc`,
+    [userId],
+  );
+  return rows;
+}
+
+/**
+ * Sign out one of the user's sessions by id. Returns false when there is no such session
+ * still active.
+ */
+export async function revokeSessionById(userId: string, sessionId: string): Promise<boolean> {
+  const { rowCount } = await getDbClient().query(
+    `update user_sessions set revoked_at = now()
+     where user_id = $1 and family_id = $2 and revoked_at is null`,
+    [userId, sessionId],
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Sign out every session of the user and return how many were active.
+ */
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const { rows } = await getDbClient().query(
+    `update user_sessions set revoked_at = now()
+     where user_id = $1 and revoked_at is null
+     returning expires_at > now() as active`,
+    [userId],
+  );
+  return rows.filter((row) => row.active).length;
+}
+
+/**
+ * Whether the session can still be refreshed; access tokens of revoked or expired sessions
+ * are rejected.
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const { rows } = await getDbClient().query(
+    `select 1 from user_sessions
+     where family_id = $1 and revoked_at is null and expires_at > now()
+     limit 1`,
+    [sessionId],
+  );
+  return rows.length > 0;
+}
@@ -0,0 +1,190 @@
+import { withTransaction } from '../db';
+import type { DbClient } from '../db';
+import type { StaffInvitation, StudioRole } from '../types';
+
+const INVITATION_DAYS = 14;
+
+export interface TeamMember {
+  user_id: string;
+  email: string | null;
+  name: string | null;
+  avatar_url: string | null;
+  role: StudioRole;
+  created_at: Date;
+}
+
+export type InvitationResult =
+  | { invitation: StaffInvitation }
+  | { error: string; status: 404 | 409 };
+
+export type MemberResult = { member: TeamMember } | { error: string; status: 404 | 409 };
+
+const memberQuery = `SELECT o.user_id, u.email, u.name, u.avatar_url, o.role, o.created_at
+  FROM studio_owners o JOIN users u ON o.user_id = u.id`;
+
+/**
+ * Members of a studio, owners first, and its invitations still waiting to be accepted.
+ */
+export async function listTeam(client: DbClient, studioId: string) {
+  const { rows: members } = await client.query(
+    `${memberQuery}
+     WHERE o.studio_id = $1
+     ORDER BY array_position(ARRAY['owner','manager','instructor'], o.role), o.created_at`,
+    [studioId],
+  );
+  const { rows: invitations } = await client.query(
+    `SELECT * FROM staff_invitations
+     WHERE studio_id = $1 AND accepted_at IS NULL AND expires_at > NOW()
+     ORDER BY created_at`,
+    [studioId],
+  );
+  return { members: members as TeamMember[], invitations: invitations as StaffInvitation[] };
+}
+
+/**
+ * Invite a person by email. Inviting an email that already has a pending invitation
+ * replaces its role and restarts its expiry; current members cannot be invited.
+ */
+export async function inviteStaff(
+  client: DbClient,
+  studioId: string,
+  email: string,
+  role: StudioRole,
+  invitedBy: string | null,
+): Promise<InvitationResult> {
+  const { rows: members } = await client.query(
+    `SELECT 1 FROM studio_owners o JOIN users u ON o.user_id = u.id
+     WHERE o.studio_id = $1 AND lower(u.email) = lower($2)`,
+    [studioId, email],
+  );
+  if (members.length > 0) return { error: 'Already a member of this studio', status: 409 };
+
+  const { rows } = await client.query(
+    `INSERT INTO staff_invitations (studio_id, email, role, invited_by, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + make_interval(days => $5))
+     ON CONFLICT (studio_id, lower(email)) WHERE accepted_at IS NULL
+     DO UPDATE SET role = excluded.role, invited_by = excluded.invited_by,
+       created_at = NOW(), expires_at = excluded.expires_at
+     RETURNING *`,
+    [studioId, email, role, invitedBy, INVITATION_DAYS],
+  );
+  return { invitation: rows[0] };
+}
+
+/**
+ * Pending invitations sent to the user's email, with the studio they are for. Only an email
+ * Google verified counts, so nobody can claim an invitation by signing in with an address
+ * they do not own.
+ */
+export async function invitationsFor(client: DbClient, userId: string | null) {
+  const { rows } = await client.query(
+    `SELECT i.*, s.name as studio_name, s.slug as studio_slug
+     FROM staff_invitations i
+     JOIN studios s ON i.studio_id = s.id
+     JOIN users u ON lower(u.email) = lower(i.email)
+     WHERE u.id = $1 AND u.email_verified AND i.accepted_at IS NULL AND i.expires_at > NOW()
+     ORDER BY i.created_at`,
+    [userId],
+  );
+  return rows;
+}
+
+/**
+ * Join the studio of an invitation sent to the user's verified email, with the invited role.
+ */
+export async function acceptInvitation(
+  invitationId: string,
+  userId: string | null,
+): Promise<MemberResult> {
+  return withTransaction(async (client) => {
+    const { rows: invitations } = await client.query(
+      `SELECT i.*, u.id as user_id FROM staff_invitations i
+       JOIN users u ON lower(u.email) = lower(i.email)
+       WHERE i.id = $1 AND u.id = $2 AND u.email_verified
+         AND i.accepted_at IS NULL AND i.expires_at > NOW()
+       FOR UPDATE OF i`,
+      [invitationId, userId],
+    );
+    const invitation = invitations[0];
+    if (!invitation) return { error: 'Invitation not found', status: 404 };
+
+    const joined = await client.query(
+      `INSERT INTO studio_owners (studio_id, user_id, role) VALUES ($1, $2, $3)
+       ON CONFLICT (studio_id, user_id) DO NOTHING`,
+      [invitation.studio_id, invitation.user_id, invitation.role],
+    );
+    if (joined.rowCount === 0) return { error: 'Already a member of this studio', status: 409 };
+    await client.query(
+      'UPDATE staff_invitations SET accepted_at = NOW(), accepted_by = $2 WHERE id = $1',
+      [invitationId, invitation.user_id],
+    );
+    return { member: await findMember(client, invitation.studio_id, invitation.user_id) };
+  });
+}
+
+/**
+ * Change a member's role. The studio row is locked so that concurrent changes cannot
+ * leave it without an owner.
+ */
+export async function changeMemberRole(
+  studioId: string,
+  userId: string,
+  role: StudioRole,
+): Promise<MemberResult> {
+  return withTransaction(async (client) => {
+    const blocked = await checkLastOwner(client, studioId, userId, role);
+    if (blocked) return blocked;
+    await client.query('UPDATE studio_owners SET role = $3 WHERE studio_id = $1 AND user_id = $2', [
+      studioId,
+      userId,
+      role,
+    ]);
+    return { member: await findMember(client, studioId, userId) };
+  });
+}
+
+/**
+ * Remove a member from the studio; the last owner cannot be removed.
+ */
+export async function removeMember(studioId: string, userId: string): Promise<MemberResult> {
+  return withTransaction(async (client) => {
+    const blocked = await checkLastOwner(client, studioId, userId, null);
+    if (blocked) return blocked;
+    const member = await findMember(client, studioId, userId);
+    await client.query('DELETE FROM studio_owners WHERE studio_id = $1 AND user_id = $2', [
+      studioId,
+      userId,
+    ]);
+    return { member };
+  });
+}
+
+async function findMember(client: DbClient, studioId: string, userId: string) {
+  const { rows } = await client.query(`${memberQuery} WHERE o.studio_id = $1 AND o.user_id = $2`, [
+    studioId,
+    userId,
+  ]);
+  return rows[0] as TeamMember;
+}
+
+// Refuse to take the owner role from the studio's only owner; role null means removal
+async function checkLastOwner(
+  client: DbClient,
+  studioId: string,
+  userId: string,
+  role: StudioRole | null,
+): Promise<{ error: string; status: 404 | 409 } | null> {
+  await client.query('SELECT id FROM studios WHERE id = $1 FOR UPDATE', [studioId]);
+  const { rows } = await client.query(
+    `SELECT role, (SELECT count(*)::int FROM studio_owners
+                   WHERE studio_id = $1 AND role = 'owner') as owners
+     FROM studio_owners WHERE studio_id = $1 AND user_id = $2`,
+    [studioId, userId],
+  );
+  const member = rows[0];
+  if (!member) return { error: 'Team member not found', status: 404 };
+  if (member.role === 'owner' && role !== 'owner' && member.owners === 1) {
+    return { error: 'A studio needs at least one owner', status: 409 };
+  }
+  return null;
+}
@@ -0,0 +1,160 @@
+import { withTransaction } from '../db';
+import type { DbClient } from '../db';
+import { lockSlot } from './capacity';
+import { applyStatusChange } from './lifecycle';
+import { SEATLESS_STATUSES } from './status';
+import type { AttendanceStatus, Booking, BookingActor } from '../types';
+
+export interface AttendanceEntry {
+  bookingId: string;
+  status: AttendanceStatus;
+}
+
+export type AttendanceResult =
+  | { bookings: Booking[] }
+  | { error: string; status: 404 | 409; bookingId: string };
+
+export interface RosterEntry {
+  booking_id: string;
+  status: Booking['status'];
+  customer_id: string | null;
+  child_id: string | null;
+  name: string;
+  avatar_key: string | null;
+  parent_name: string | null; // Parent's first name for child bookings
+  paid: boolean;
+  attendance_recorded_at: Date | null;
+}
+
+export interface AttendanceSummary {
+  attended: number;
+  no_show: number;
+  unmarked: number; // Still CONFIRMED
+}
+
+export interface SlotAttendanceStats extends AttendanceSummary {
+  slot_id: string;
+  title: string;
+  occurrences: number;
+}
+
+// Aborts the surrounding transaction so a check-in is applied entirely or not at all
+class AttendanceRejected extends Error {
+  constructor(readonly result: Extract<AttendanceResult, { error: string }>) {
+    super(result.error);
+  }
+}
+
+/**
+ * Participants holding a seat in an occurrence, by name.
+ */
+export async function listRoster(
+  client: DbClient,
+  slotId: string,
+  occurrenceDate: string,
+): Promise<RosterEntry[]> {
+  const { rows } = await client.query(
+    `SELECT b.id as booking_id, b.status, b.customer_id, b.child_id,
+            COALESCE(ch.first_name, c.first_name) as name,
+            COALESCE(ch.avatar_key, c.avatar_key) as avatar_key,
+            parent.first_name as parent_name,
+            b.paid, b.attendance_recorded_at
+     FROM bookings b
+     LEFT JOIN customers c ON b.customer_id = c.id
+     LEFT JOIN children ch ON b.child_id = ch.id
+     LEFT JOIN customers parent ON ch.customer_id = parent.id
+     WHERE b.slot_id = $1 AND b.occurrence_date = $2 AND NOT (b.status = ANY($3::text[]))
+     ORDER BY name, b.id`,
+    [slotId, occurrenceDate, SEATLESS_STATUSES],
+  );
+  return rows;
+}
+
+export function summarizeAttendance(roster: Pick<RosterEntry, 'status'>[]): AttendanceSummary {
+  return {
+    attended: roster.filter((entry) => entry.status === 'ATTENDED').length,
+    no_show: roster.filter((entry) => entry.status === 'NO_SHOW').length,
+    unmarked: roster.filter((entry) => entry.status === 'CONFIRMED').length,
+  };
+}
+
+/**
+ * Attendance per slot of a studio over occurrence dates from..to (inclusive), for occurrences
+ * up to today in the studio timezone; future classes have nothing to check in yet.
+ */
+export async function attendanceStats(
+  client: DbClient,
+  studioId: string,
+  from: string,
+  to: string,
+): Promise<SlotAttendanceStats[]> {
+  const { rows } = await client.query(
+    `SELECT s.id as slot_id, s.title,
+            COUNT(DISTINCT b.occurrence_date)::int as occurrences,
+            COUNT(*) FILTER (WHERE b.status = 'ATTENDED')::int as attended,
+            COUNT(*) FILTER (WHERE b.status = 'NO_SHOW')::int as no_show,
+            COUNT(*) FILTER (WHERE b.status = 'CONFIRMED')::int as unmarked
+     FROM bookings b
+     JOIN slots s ON b.slot_id = s.id
+     JOIN studios st ON s.studio_id = st.id
+     WHERE s.studio_id = $1
+       AND b.occurrence_date BETWEEN $2 AND $3
+       AND b.occurrence_date <= (now() AT TIME ZONE st.timezone)::date
+       AND NOT (b.status = ANY($4::text[]))
+     GROUP BY s.id, s.title
+     ORDER BY s.title, s.id`,
+    [studioId, from, to, SEATLESS_STATUSES],
+  );
+  return rows;
+}
+
+/**
+ * Check in bookings of one occurrence as ATTENDED or NO_SHOW. All entries are applied in one
+ * transaction; if any booking cannot be marked, nothing is. Bookings already in the requested
+ * status are left as they are.
+ */
+export async function recordAttendance(
+  slotId: string,
+  occurrenceDate: string,
+  entries: AttendanceEntry[],
+  actor: BookingActor,
+): Promise<AttendanceResult> {
+  try {
+    return await withTransaction(async (client) => {
+      await lockSlot(client, slotId);
+      const { rows: current } = await client.query(
+        `SELECT * FROM bookings
+         WHERE slot_id = $1 AND occurrence_date = $2 AND id = ANY($3::uuid[])`,
+        [slotId, occurrenceDate, entries.map((entry) => entry.bookingId)],
+      );
+      const byId = new Map<string, Booking>(
+        current.map((booking: Booking) => [booking.id, booking]),
+      );
+
+      const bookings: Booking[] = [];
+      for (const entry of entries) {
+        const booking = byId.get(entry.bookingId);
+        if (!booking) {
+          throw new AttendanceRejected({
+            error: 'Booking not found in this occurrence',
+            status: 404,
+            bookingId: entry.bookingId,
+          });
+        }
+        if (booking.status === entry.status) {
+          bookings.push(booking);
+          continue;
+        }
+        const result = await applyStatusChange(client, entry.bookingId, entry.status, actor);
+        if ('error' in result) {
+          throw new AttendanceRejected({ ...result, bookingId: entry.bookingId });
+        }
+        bookings.push(result.booking);
+      }
+      return { bookings };
+    });
+  } catch (error) {
+    if (error instanceof AttendanceRejected) return error.result;
+    throw error;
+  }
+}
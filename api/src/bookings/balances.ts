@@ -0,0 +1,231 @@
+import type { DbClient } from '../db';
+
+export interface AgingBuckets {
+  days_0_30: number;
+  days_31_60: number;
+  days_over_60: number;
+}
+
+export interface CustomerBalance {
+  customer_id: string;
+  first_name: string;
+  contact_email: string | null;
+  contact_phone: string | null;
+  balance: number; // Charges minus payments; negative when the customer is in credit
+  unpaid_bookings: number;
+  aging: AgingBuckets;
+}
+
+export interface StatementLine {
+  date: string; // YYYY-MM-DD in the studio timezone
+  type: 'charge' | 'payment' | 'refund';
+  booking_id: string | null;
+  payment_id: string | null;
+  description: string;
+  amount: number; // Charges are positive, payments negative
+  balance: number; // Running balance after the line
+}
+
+export interface Statement {
+  lines: StatementLine[];
+  balance: number;
+  aging: AgingBuckets;
+}
+
+// A booking the customer owes its price for, in cents
+interface Charge {
+  booking_id: string;
+  customer_id: string;
+  occurrence_date: string;
+  slot_title: string;
+  child_name: string | null;
+  late_cancellation: boolean;
+  age_days: number;
+  amount: number;
+  paid: number;
+}
+
+function cents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Bookings charged to the studio's customers (bookings of children to their parent) in one
+ * currency, oldest first: occurrences up to today that hold a seat, were attended or missed,
+ * or were cancelled late while the studio charged for that, unless a membership or credit
+ * covers them.
+ */
+async function listCharges(
+  client: DbClient,
+  studioId: string,
+  currency: string,
+  customerId?: string,
+): Promise<Charge[]> {
+  const { rows } = await client.query(
+    `SELECT b.id as booking_id, COALESCE(b.customer_id, ch.customer_id) as customer_id,
+            b.occurrence_date, s.title as slot_title, ch.first_name as child_name,
+            b.late_cancellation, today.date - b.occurrence_date as age_days,
+            b.price as amount, b.amount_paid as paid
+     FROM bookings b
+     JOIN slots s ON b.slot_id = s.id
+     JOIN studios st ON s.studio_id = st.id
+     CROSS JOIN LATERAL (SELECT (now() AT TIME ZONE st.timezone)::date as date) today
+     LEFT JOIN children ch ON b.child_id = ch.id
+     WHERE s.studio_id = $1
+       AND ($2::uuid IS NULL OR COALESCE(b.customer_id, ch.customer_id) = $2)
+       AND b.occurrence_date <= today.date
+       AND NOT b.covered
+       AND (b.status IN ('CONFIRMED', 'ATTENDED', 'NO_SHOW')
+            OR (b.status = 'CANCELLED' AND b.late_cancellation_charged))
+       AND b.price > 0
+       AND b.currency = $3
+     ORDER BY b.occurrence_date, b.created_at, b.id`,
+    [studioId, customerId ?? null, currency],
+  );
+  return rows.map((row) => ({ ...row, amount: cents(row.amount), paid: cents(row.paid) }));
+}
+
+/**
+ * Age what a customer owes. Payments for a charged booking settle that booking first; the
+ * rest of the customer's payments (prepaid classes, payments on account, overpayments) pays
+ * off the oldest debts. Amounts are in cents.
+ */
+function ageCharges(charges: Charge[], paid: number): { unpaid: number; aging: AgingBuckets } {
+  const owed = charges.map((charge) => charge.amount - Math.min(charge.paid, charge.amount));
+  let credit = paid - charges.reduce((sum, charge, i) => sum + charge.amount - owed[i], 0);
+  const aging: AgingBuckets = { days_0_30: 0, days_31_60: 0, days_over_60: 0 };
+  let unpaid = 0;
+  charges.forEach((charge, i) => {
+    const settled = Math.max(0, Math.min(credit, owed[i]));
+    credit -= settled;
+    const left = owed[i] - settled;
+    if (left <= 0) return;
+    unpaid++;
+    if (charge.age_days <= 30) aging.days_0_30 += left;
+    else if (charge.age_days <= 60) aging.days_31_60 += left;
+    else aging.days_over_60 += left;
+  });
+  return {
+    unpaid,
+    aging: {
+      days_0_30: aging.days_0_30 / 100,
+      days_31_60: aging.days_31_60 / 100,
+      days_over_60: aging.days_over_60 / 100,
+    },
+  };
+}
+
+/**
+ * Balances in one currency of the studio's customers that owe money or are in credit, largest
+ * debt first. Payments for credit packages are left out: packages are paid for separately
+ * from classes.
+ */
+export async function listBalances(
+  client: DbClient,
+  studioId: string,
+  currency: string,
+): Promise<CustomerBalance[]> {
+  const charges = await listCharges(client, studioId, currency);
+  const { rows: payments } = await client.query(
+    `SELECT customer_id, SUM(amount) as total
+     FROM payments
+     WHERE studio_id = $1 AND customer_id IS NOT NULL AND credit_package_id IS NULL
+       AND currency = $2
+     GROUP BY customer_id`,
+    [studioId, currency],
+  );
+  const paid = new Map<string, number>(payments.map((row) => [row.customer_id, cents(row.total)]));
+  const chargesByCustomer = new Map<string, Charge[]>();
+  for (const charge of charges) {
+    chargesByCustomer.set(charge.customer_id, [
+      ...(chargesByCustomer.get(charge.customer_id) ?? []),
+      charge,
+    ]);
+  }
+
+  const customerIds = [...new Set([...chargesByCustomer.keys(), ...paid.keys()])];
+  const { rows: customers } = await client.query(
+    `SELECT id, first_name, contact_email, contact_phone FROM customers WHERE id = ANY($1::uuid[])`,
+    [customerIds],
+  );
+
+  const balances: CustomerBalance[] = [];
+  for (const customer of customers) {
+    const customerCharges = chargesByCustomer.get(customer.id) ?? [];
+    const customerPaid = paid.get(customer.id) ?? 0;
+    const balance = customerCharges.reduce((sum, charge) => sum + charge.amount, 0) - customerPaid;
+    if (balance === 0) continue;
+    const { unpaid, aging } = ageCharges(customerCharges, customerPaid);
+    balances.push({
+      customer_id: customer.id,
+      first_name: customer.first_name,
+      contact_email: customer.contact_email,
+      contact_phone: customer.contact_phone,
+      balance: balance / 100,
+      unpaid_bookings: unpaid,
+      aging,
+    });
+  }
+  return balances.sort((a, b) => b.balance - a.balance || a.first_name.localeCompare(b.first_name));
+}
+
+/**
+ * A customer's charges and payments in one currency, in date order with a running balance.
+ * Charges fall due on the occurrence date; credit package payments are left out as in the
+ * balances report.
+ */
+export async function customerStatement(
+  client: DbClient,
+  studioId: string,
+  customerId: string,
+  currency: string,
+): Promise<Statement> {
+  const charges = await listCharges(client, studioId, currency, customerId);
+  const { rows: payments } = await client.query(
+    `SELECT p.id, p.booking_id, p.amount, p.method, p.note, p.refund_of,
+            to_char(p.received_at AT TIME ZONE st.timezone, 'YYYY-MM-DD') as date
+     FROM payments p
+     JOIN studios st ON p.studio_id = st.id
+     WHERE p.studio_id = $1 AND p.customer_id = $2 AND p.credit_package_id IS NULL
+       AND p.currency = $3
+     ORDER BY p.received_at, p.created_at, p.id`,
+    [studioId, customerId, currency],
+  );
+
+  const entries = [
+    ...charges.map((charge) => ({
+      date: charge.occurrence_date,
+      type: 'charge' as const,
+      booking_id: charge.booking_id,
+      payment_id: null,
+      description: [
+        charge.slot_title,
+        charge.child_name && `(${charge.child_name})`,
+        charge.late_cancellation && '- late cancellation',
+      ]
+        .filter(Boolean)
+        .join(' '),
+      cents: charge.amount,
+    })),
+    ...payments.map((payment) => ({
+      date: payment.date as string,
+      type: payment.refund_of ? ('refund' as const) : ('payment' as const),
+      booking_id: payment.booking_id as string | null,
+      payment_id: payment.id as string,
+      description: [`${payment.refund_of ? 'Refund' : 'Payment'} (${payment.method})`, payment.note]
+        .filter(Boolean)
+        .join(' - '),
+      cents: -cents(payment.amount),
+    })),
+  ];
+  // Stable sort: on the same day charges come before payments
+  entries.sort((a, b) => a.date.localeCompare(b.date));
+
+  let running = 0;
+  const lines: StatementLine[] = entries.map(({ cents: amount, ...entry }) => {
+    running += amount;
+    return { ...entry, amount: amount / 100, balance: running / 100 };
+  });
+  const paid = payments.reduce((sum, payment) => sum + cents(payment.amount), 0);
+  return { lines, balance: running / 100, aging: ageCharges(charges, paid).aging };
+}
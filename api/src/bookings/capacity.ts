@@ -0,0 +1,215 @@
+import { withTransaction } from '../db';
+import type { DbClient } from '../db';
+import { findEffectiveOccurrence, resolveOccurrence } from '../scheduling/occurrences';
+import { coverBooking, coverageDetails, isCovered } from './coverage';
+import { recordBookingEvent } from './events';
+import { priceBooking } from './pricing';
+import { SEATLESS_STATUSES } from './status';
+import type { Booking, BookingActor, Slot } from '../types';
+
+const SYSTEM: BookingActor = { source: 'system' };
+
+export interface NewBooking {
+  slotId: string;
+  occurrenceDate?: string; // Local date; one-time slots default to their only occurrence
+  customerId: string | null;
+  childId: string | null;
+  familyId?: string; // The customer the child must belong to, e.g. the invited one
+  couponCode?: string;
+  waitlist?: boolean; // Join the waitlist instead of failing when the occurrence is full
+  actor: BookingActor;
+}
+
+export async function lockSlot(client: DbClient, slotId: string) {
+  await client.query('SELECT id FROM slots WHERE id = $1 FOR UPDATE', [slotId]);
+}
+
+// Lock an active slot and return it with its studio's timezone; null when inactive or gone
+async function lockActiveSlot(
+  client: DbClient,
+  slotId: string,
+): Promise<(Slot & { timezone: string }) | null> {
+  const { rows } = await client.query(
+    `SELECT s.*, st.timezone
+     FROM slots s
+     JOIN studios st ON s.studio_id = st.id
+     WHERE s.id = $1 AND s.active = true
+     FOR UPDATE OF s`,
+    [slotId],
+  );
+  return rows[0] ?? null;
+}
+
+export async function countSeatsTaken(
+  client: DbClient,
+  slotId: string,
+  occurrenceDate: string,
+): Promise<number> {
+  const { rows } = await client.query(
+    `SELECT COUNT(*)::int as count
+     FROM bookings
+     WHERE slot_id = $1 AND occurrence_date = $2 AND NOT (status = ANY($3::text[]))`,
+    [slotId, occurrenceDate, SEATLESS_STATUSES],
+  );
+  return rows[0].count;
+}
+
+// Confirm waitlisted bookings, first come first served, while seats are free, covering them
+// with a membership or credit where available. Callers must hold the slot lock.
+async function fillFreeSeats(
+  client: DbClient,
+  slotId: string,
+  occurrenceDate: string,
+  maxParticipants: number,
+  startsAt: Date,
+): Promise<Booking[]> {
+  const free = maxParticipants - (await countSeatsTaken(client, slotId, occurrenceDate));
+  if (free <= 0) return [];
+
+  const { rows } = await client.query(
+    `UPDATE bookings SET status = 'CONFIRMED'
+     WHERE id IN (
+       SELECT id FROM bookings
+       WHERE slot_id = $1 AND occurrence_date = $2 AND status = 'WAITLISTED'
+       ORDER BY waitlisted_at, id
+       LIMIT $3
+     )
+     RETURNING *`,
+    [slotId, occurrenceDate, free],
+  );
+  const promoted: Booking[] = [];
+  for (const row of rows) {
+    const coverage = await coverBooking(client, row.id, startsAt);
+    await recordBookingEvent(client, {
+      bookingId: row.id,
+      type: 'STATUS_CHANGED',
+      fromStatus: 'WAITLISTED',
+      toStatus: 'CONFIRMED',
+      actor: SYSTEM,
+      details: { reason: 'waitlist_promotion', ...coverageDetails(coverage) },
+    });
+    promoted.push({ ...row, ...coverage, covered: isCovered(coverage) });
+  }
+  return promoted;
+}
+
+/**
+ * Insert a CONFIRMED booking if the occurrence still has a free seat, otherwise a WAITLISTED
+ * one when requested. The slot row is locked for the duration of the count and insert, so
+ * concurrent bookings of the same slot are serialized and cannot overbook. The occurrence's
+ * capacity, start and price are read under that lock, so overrides made meanwhile apply.
+ * Cancelled and waitlisted bookings do not take a seat, and the waitlist is served before new
+ * bookings. A confirmed booking is covered by a membership or one of the family's credits when
+ * available. The price is fixed on the booking by the studio's pricing rules. Returns null
+ * when the occurrence is full and no waitlist entry was requested, or an error for an inactive
+ * slot, an occurrence that cannot be booked, an invalid coupon or a child outside the family.
+ */
+export async function createBookingWithinCapacity(
+  booking: NewBooking,
+): Promise<Booking | null | { error: string; status: 400 | 404 }> {
+  return withTransaction(async (client) => {
+    const slot = await lockActiveSlot(client, booking.slotId);
+    if (!slot) return { error: 'Slot not found or not active', status: 404 };
+    const resolved = await resolveOccurrence(client, slot, slot.timezone, booking.occurrenceDate);
+    if ('error' in resolved) return { error: resolved.error, status: 400 };
+    const occurrence = resolved.occurrence;
+
+    if (booking.childId && booking.familyId) {
+      const { rows } = await client.query(
+        'SELECT id FROM children WHERE id = $1 AND customer_id = $2',
+        [booking.childId, booking.familyId],
+      );
+      if (rows.length === 0) return { error: 'Child not found', status: 404 };
+    }
+    await fillFreeSeats(
+      client,
+      booking.slotId,
+      occurrence.date,
+      occurrence.maxParticipants,
+      occurrence.startsAt,
+    );
+
+    const taken = await countSeatsTaken(client, booking.slotId, occurrence.date);
+    const full = taken >= occurrence.maxParticipants;
+    if (full && !booking.waitlist) return null;
+
+    const price = await priceBooking(client, {
+      ...booking,
+      occurrenceDate: occurrence.date,
+      listPrice: occurrence.price,
+    });
+    if ('error' in price) return price;
+
+    const { rows } = await client.query(
+      `INSERT INTO bookings (slot_id, occurrence_date, customer_id, child_id, status, paid,
+                            waitlisted_at, list_price, price, price_rule, coupon_id, currency)
+       VALUES ($1, $2, $3, $4, $5, false, CASE WHEN $6 THEN clock_timestamp() END,
+               $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        booking.slotId,
+        occurrence.date,
+        booking.customerId,
+        booking.childId,
+        full ? 'WAITLISTED' : 'CONFIRMED',
+        full,
+        price.list_price,
+        price.price,
+        price.price_rule,
+        price.coupon_id,
+        price.currency,
+      ],
+    );
+    const coverage = full ? null : await coverBooking(client, rows[0].id, occurrence.startsAt);
+    await recordBookingEvent(client, {
+      bookingId: rows[0].id,
+      type: 'CREATED',
+      toStatus: rows[0].status,
+      actor: booking.actor,
+      details: coverage && isCovered(coverage) ? coverageDetails(coverage) : null,
+    });
+    if (coverage) return { ...rows[0], ...coverage, covered: isCovered(coverage) };
+    return { ...rows[0], waitlist_position: await waitlistPosition(client, rows[0].id) };
+  });
+}
+
+/**
+ * Promote waitlisted bookings of an occurrence into any free seats, e.g. after a cancellation.
+ * Runs on the given (transaction) client; nothing is promoted for inactive slots or
+ * cancelled occurrences. Promotions are recorded in the booking history as system changes.
+ */
+export async function promoteWaitlist(
+  client: DbClient,
+  slotId: string,
+  occurrenceDate: string,
+): Promise<Booking[]> {
+  const slot = await lockActiveSlot(client, slotId);
+  if (!slot) return [];
+
+  const occurrence = await findEffectiveOccurrence(client, slot, slot.timezone, occurrenceDate);
+  if (!occurrence || occurrence.cancelled) return [];
+  return fillFreeSeats(
+    client,
+    slotId,
+    occurrenceDate,
+    occurrence.maxParticipants,
+    occurrence.startsAt,
+  );
+}
+
+/**
+ * 1-based position of a waitlisted booking in its occurrence's queue.
+ */
+export async function waitlistPosition(client: DbClient, bookingId: string): Promise<number> {
+  // Compared in SQL: waitlisted_at has microsecond precision that a JS Date would lose
+  const { rows } = await client.query(
+    `SELECT COUNT(*)::int as position
+     FROM bookings w
+     JOIN bookings me ON me.id = $1
+     WHERE w.slot_id = me.slot_id AND w.occurrence_date = me.occurrence_date
+       AND w.status = 'WAITLISTED'
+       AND (w.waitlisted_at, w.id) <= (me.waitlisted_at, me.id)`,
+    [bookingId],
+  );
+  return rows[0].position;
+}
@@ -0,0 +1,66 @@
+import type { DbClient } from '../db';
+import { consumeCredit } from './credits';
+import { useMembership } from './memberships';
+
+// What pays for a booking instead of a payment; at most one is set
+export interface Coverage {
+  membership_id: string | null;
+  credit_package_id: string | null;
+}
+
+const NOT_COVERED: Coverage = { membership_id: null, credit_package_id: null };
+
+export function isCovered(coverage: Coverage): boolean {
+  return coverage.membership_id !== null || coverage.credit_package_id !== null;
+}
+
+/**
+ * Cover a booking that just took a seat: by a membership of the booked customer or child when
+ * one applies, otherwise by a family credit. Returns what newly covers the booking; bookings
+ * that are already covered keep their coverage.
+ */
+export async function coverBooking(
+  client: DbClient,
+  bookingId: string,
+  startsAt: Date,
+): Promise<Coverage> {
+  const { rows } = await client.query('SELECT covered FROM bookings WHERE id = $1', [bookingId]);
+  if (!rows[0] || rows[0].covered) return NOT_COVERED;
+
+  const membershipId = await useMembership(client, bookingId);
+  if (membershipId) return { membership_id: membershipId, credit_package_id: null };
+  return {
+    membership_id: null,
+    credit_package_id: await consumeCredit(client, bookingId, startsAt),
+  };
+}
+
+/**
+ * Give back what covered a booking: the credit returns to its package, the membership's
+ * weekly allowance is freed. Returns what was released.
+ */
+export async function releaseCoverage(client: DbClient, bookingId: string): Promise<Coverage> {
+  const { rows } = await client.query(
+    `UPDATE bookings b SET membership_id = NULL, credit_package_id = NULL
+     FROM bookings prev
+     WHERE prev.id = b.id AND b.id = $1 AND prev.covered
+     RETURNING prev.membership_id, prev.credit_package_id`,
+    [bookingId],
+  );
+  return rows[0] ?? NOT_COVERED;
+}
+
+// Booking history details for a booking being covered or released
+export function coverageDetails(coverage: Coverage, released = false): Record<string, unknown> {
+  if (coverage.membership_id) {
+    return released
+      ? { membership_released: coverage.membership_id }
+      : { membership_id: coverage.membership_id };
+  }
+  if (coverage.credit_package_id) {
+    return released
+      ? { credit_refunded: coverage.credit_package_id }
+      : { credit_package_id: coverage.credit_package_id };
+  }
+  return {};
+}
@@ -0,0 +1,86 @@
+import type { DbClient } from '../db';
+import type { CreditPackage } from '../types';
+
+export interface CreditPackageBalance extends CreditPackage {
+  used: number;
+  remaining: number;
+}
+
+export interface CreditSummary {
+  available: number; // Remaining credits of packages that have not expired
+  packages: CreditPackageBalance[];
+}
+
+/**
+ * A customer's credit packages, oldest first, with credits used by their bookings.
+ */
+export async function listCreditPackages(
+  client: DbClient,
+  customerId: string,
+): Promise<CreditPackageBalance[]> {
+  const { rows } = await client.query(
+    `SELECT p.*, COUNT(b.id)::int as used, p.credits - COUNT(b.id)::int as remaining
+     FROM credit_packages p
+     LEFT JOIN bookings b ON b.credit_package_id = p.id
+     WHERE p.customer_id = $1
+     GROUP BY p.id
+     ORDER BY p.created_at, p.id`,
+    [customerId],
+  );
+  return rows;
+}
+
+export async function creditSummary(client: DbClient, customerId: string): Promise<CreditSummary> {
+  const packages = await listCreditPackages(client, customerId);
+  const now = new Date();
+  const available = packages
+    .filter((pkg) => !pkg.expires_at || new Date(pkg.expires_at) > now)
+    .reduce((sum, pkg) => sum + pkg.remaining, 0);
+  return { available, packages };
+}
+
+/**
+ * Pay for a booking that just took a seat with a credit of its family's packages (the booked
+ * customer's, or the booked child's parent's). Uses the package expiring first among those
+ * still valid when the class starts. Returns the package used, or null when none has credits.
+ * Callers hold the slot and booking locks; packages are locked last.
+ */
+export async function consumeCredit(
+  client: DbClient,
+  bookingId: string,
+  startsAt: Date,
+): Promise<string | null> {
+  const { rows: packages } = await client.query(
+    `SELECT p.id, p.credits
+     FROM credit_packages p
+     JOIN bookings b ON b.id = $1
+     JOIN slots s ON b.slot_id = s.id
+     LEFT JOIN children ch ON b.child_id = ch.id
+     WHERE p.customer_id = COALESCE(b.customer_id, ch.customer_id)
+       AND p.studio_id = s.studio_id
+       AND b.credit_package_id IS NULL
+       AND (p.expires_at IS NULL OR p.expires_at > $2)
+     ORDER BY p.expires_at NULLS LAST, p.created_at, p.id
+     FOR UPDATE OF p`,
+    [bookingId, startsAt],
+  );
+  if (packages.length === 0) return null;
+
+  // Counted after locking, so concurrent bookings cannot spend the same credit
+  const { rows: usage } = await client.query(
+    `SELECT credit_package_id, COUNT(*)::int as used
+     FROM bookings
+     WHERE credit_package_id = ANY($1::uuid[])
+     GROUP BY credit_package_id`,
+    [packages.map((pkg) => pkg.id)],
+  );
+  const used = new Map<string, number>(usage.map((row) => [row.credit_package_id, row.used]));
+  const pkg = packages.find((candidate) => (used.get(candidate.id) ?? 0) < candidate.credits);
+  if (!pkg) return null;
+
+  await client.query('UPDATE bookings SET credit_package_id = $1 WHERE id = $2', [
+    pkg.id,
+    bookingId,
+  ]);
+  return pkg.id;
+}
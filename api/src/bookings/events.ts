@@ -0,0 +1,69 @@
+import type { DbClient } from '../db';
+import type { AuthenticatedRequest, BookingActor, BookingEvent, BookingEventType } from '../types';
+
+export interface BookingEventInput {
+  bookingId: string;
+  type: BookingEventType;
+  fromStatus?: string | null;
+  toStatus?: string | null;
+  actor: BookingActor;
+  details?: Record<string, unknown> | null;
+}
+
+// Changes made through the studio (API key) routes, attributed to the signed-in user if any
+export function adminActor(req: AuthenticatedRequest): BookingActor {
+  return { source: 'admin', userId: req.user?.userId ?? null };
+}
+
+export async function recordBookingEvent(client: DbClient, event: BookingEventInput) {
+  await client.query(
+    `INSERT INTO booking_events (booking_id, event_type, from_status, to_status, source, actor_user_id, details)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      event.bookingId,
+      event.type,
+      event.fromStatus ?? null,
+      event.toStatus ?? null,
+      event.actor.source,
+      event.actor.userId ?? null,
+      event.details ?? null,
+    ],
+  );
+}
+
+/**
+ * Record the same status change for many bookings, e.g. when a whole occurrence is cancelled.
+ */
+export async function recordStatusChanges(
+  client: DbClient,
+  changes: { id: string; previous_status: string }[],
+  toStatus: string,
+  actor: BookingActor,
+  details?: Record<string, unknown>,
+) {
+  for (const change of changes) {
+    await recordBookingEvent(client, {
+      bookingId: change.id,
+      type: 'STATUS_CHANGED',
+      fromStatus: change.previous_status,
+      toStatus,
+      actor,
+      details,
+    });
+  }
+}
+
+export async function listBookingEvents(
+  client: DbClient,
+  bookingId: string,
+): Promise<BookingEvent[]> {
+  const { rows } = await client.query(
+    `SELECT e.*, u.email as actor_email
+     FROM booking_events e
+     LEFT JOIN users u ON e.actor_user_id = u.id
+     WHERE e.booking_id = $1
+     ORDER BY e.created_at, e.id`,
+    [bookingId],
+  );
+  return rows;
+}
@@ -0,0 +1,178 @@
+import { withTransaction } from '../db';
+import type { DbClient } from '../db';
+import { findEffectiveOccurrence, resolveOccurrence } from '../scheduling/occurrences';
+import { countSeatsTaken, lockSlot, promoteWaitlist } from './capacity';
+import { coverBooking, coverageDetails, isCovered, releaseCoverage } from './coverage';
+import { recordBookingEvent } from './events';
+import { isLateCancellation } from './policy';
+import { ATTENDANCE_STATUSES, canTransition, holdsSeat } from './status';
+import type { Booking, BookingActor, BookingStatus } from '../types';
+
+export type StatusChangeResult =
+  | { booking: Booking; promoted: Booking[] }
+  | { error: string; status: 404 | 409 };
+
+export interface StatusChangeOptions {
+  // Refuse late cancellations instead of recording them (customer self-service)
+  rejectLateCancellation?: boolean;
+}
+
+/**
+ * Move a booking to a new status, enforcing the allowed transitions:
+ * - ATTENDED and NO_SHOW only once the occurrence has started
+ * - CONFIRMED from CANCELLED or WAITLISTED only while the occurrence is bookable and has a free seat
+ * Cancelling a confirmed booking inside the studio's cancellation window marks it as a late
+ * cancellation, which keeps its membership or credit used; cancelling in time releases it.
+ * Confirming a booking without a seat covers it by a membership or credit when available.
+ * Cancelling a seat-holding booking promotes the waitlist.
+ * Every change is recorded in booking_events.
+ */
+export async function changeBookingStatus(
+  bookingId: string,
+  to: BookingStatus,
+  actor: BookingActor,
+  options: StatusChangeOptions = {},
+): Promise<StatusChangeResult> {
+  return withTransaction((client) => applyStatusChange(client, bookingId, to, actor, options));
+}
+
+/**
+ * changeBookingStatus inside a caller's transaction, for changing several bookings at once.
+ */
+export async function applyStatusChange(
+  client: DbClient,
+  bookingId: string,
+  to: BookingStatus,
+  actor: BookingActor,
+  options: StatusChangeOptions = {},
+): Promise<StatusChangeResult> {
+  const { rows: found } = await client.query('SELECT slot_id FROM bookings WHERE id = $1', [
+    bookingId,
+  ]);
+  if (found.length === 0) return { error: 'Booking not found', status: 404 };
+
+  // Slot before booking: the same lock order as booking creation and waitlist promotion
+  await lockSlot(client, found[0].slot_id);
+  const { rows: locked } = await client.query(
+    `SELECT b.*, s.price, s.max_participants, s.starts_at, s.recurrence_rule, s.active,
+            st.timezone, st.free_cancellation_hours, st.late_cancellation_action
+     FROM bookings b
+     JOIN slots s ON b.slot_id = s.id
+     JOIN studios st ON s.studio_id = st.id
+     WHERE b.id = $1
+     FOR UPDATE OF b`,
+    [bookingId],
+  );
+  const current = locked[0];
+  if (!current) return { error: 'Booking not found', status: 404 };
+  if (current.slot_id !== found[0].slot_id) {
+    return { error: 'Booking was changed concurrently, please retry', status: 409 };
+  }
+
+  const from: BookingStatus = current.status;
+  if (from === to) return { error: `Booking is already ${to}`, status: 409 };
+  if (!canTransition(from, to)) {
+    return { error: `Cannot change booking status from ${from} to ${to}`, status: 409 };
+  }
+
+  const slot = { ...current, id: current.slot_id };
+  if (ATTENDANCE_STATUSES.includes(to)) {
+    const occurrence = await findEffectiveOccurrence(
+      client,
+      slot,
+      current.timezone,
+      current.occurrence_date,
+    );
+    if (!occurrence || occurrence.startsAt > new Date()) {
+      return { error: `Cannot mark ${to} before the class starts`, status: 409 };
+    }
+  }
+
+  // Start of the occurrence a seatless booking is confirmed into, for covering it
+  let confirmedStartsAt: Date | null = null;
+  if (to === 'CONFIRMED' && !holdsSeat(from)) {
+    if (!current.active) return { error: 'Slot is not active', status: 409 };
+    const resolved = await resolveOccurrence(
+      client,
+      slot,
+      current.timezone,
+      current.occurrence_date,
+    );
+    if ('error' in resolved) return { error: resolved.error, status: 409 };
+    const taken = await countSeatsTaken(client, current.slot_id, current.occurrence_date);
+    if (taken >= resolved.occurrence.maxParticipants) {
+      return { error: 'Slot capacity reached. Cannot confirm booking.', status: 409 };
+    }
+    confirmedStartsAt = resolved.occurrence.startsAt;
+  }
+
+  let lateCancellation = false;
+  if (to === 'CANCELLED' && from === 'CONFIRMED') {
+    const occurrence = await findEffectiveOccurrence(
+      client,
+      slot,
+      current.timezone,
+      current.occurrence_date,
+    );
+    lateCancellation = !!occurrence && isLateCancellation(current, occurrence.startsAt);
+    if (lateCancellation && options.rejectLateCancellation) {
+      return {
+        error: 'The free cancellation window has passed. Please contact the studio.',
+        status: 409,
+      };
+    }
+  }
+
+  // Un-cancelling clears the cancellation record, un-marking attendance the check-in time
+  const { rows } = await client.query(
+    `UPDATE bookings
+     SET status = $1,
+         cancelled_at = CASE WHEN $1 = 'CANCELLED' THEN now() END,
+         late_cancellation = $2,
+         late_cancellation_charged = $3,
+         attendance_recorded_at = CASE WHEN $1 IN ('ATTENDED', 'NO_SHOW') THEN now() END
+     WHERE id = $4
+     RETURNING *`,
+    [
+      to,
+      lateCancellation,
+      lateCancellation && current.late_cancellation_action === 'charge',
+      bookingId,
+    ],
+  );
+  const booking: Booking = rows[0];
+
+  // Cancelling in time releases the membership or credit; a late cancellation keeps it used
+  let details: Record<string, unknown> = {};
+  if (lateCancellation) {
+    details = { late_cancellation: true, action: current.late_cancellation_action };
+  } else if (to === 'CANCELLED' && holdsSeat(from)) {
+    const released = await releaseCoverage(client, bookingId);
+    if (isCovered(released)) {
+      details = coverageDetails(released, true);
+      Object.assign(booking, { membership_id: null, credit_package_id: null, covered: false });
+    }
+  }
+  if (confirmedStartsAt) {
+    const coverage = await coverBooking(client, bookingId, confirmedStartsAt);
+    if (isCovered(coverage)) {
+      details = coverageDetails(coverage);
+      Object.assign(booking, coverage, { covered: true });
+    }
+  }
+
+  await recordBookingEvent(client, {
+    bookingId,
+    type: 'STATUS_CHANGED',
+    fromStatus: from,
+    toStatus: to,
+    actor,
+    details: Object.keys(details).length > 0 ? details : null,
+  });
+
+  const promoted =
+    to === 'CANCELLED' && holdsSeat(from)
+      ? await promoteWaitlist(client, current.slot_id, current.occurrence_date)
+      : [];
+  return { booking, promoted };
+}
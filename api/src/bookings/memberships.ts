@@ -0,0 +1,71 @@
+import type { DbClient } from '../db';
+import type { Membership, MembershipPlan } from '../types';
+
+export type MembershipWithPlan = Membership &
+  Pick<MembershipPlan, 'name' | 'weekly_limit' | 'for_children'>;
+
+/**
+ * Memberships of a customer and of their children, latest first.
+ */
+export async function listMemberships(
+  client: DbClient,
+  customerId: string,
+): Promise<MembershipWithPlan[]> {
+  const { rows } = await client.query(
+    `SELECT m.*, p.name, p.weekly_limit, p.for_children
+     FROM memberships m
+     JOIN membership_plans p ON m.plan_id = p.id
+     LEFT JOIN children ch ON m.child_id = ch.id
+     WHERE m.customer_id = $1 OR ch.customer_id = $1
+     ORDER BY m.starts_on DESC, m.id`,
+    [customerId],
+  );
+  return rows;
+}
+
+/**
+ * Cover a booking that just took a seat with a membership of the booked customer or child:
+ * one of the studio's plans that applies to the class, running on the occurrence date and
+ * with room left in its weekly limit (weeks start on Monday). Unlimited memberships are
+ * preferred. Returns the membership used, or null when none applies.
+ * Callers hold the slot and booking locks; memberships are locked last.
+ */
+export async function useMembership(client: DbClient, bookingId: string): Promise<string | null> {
+  const { rows: memberships } = await client.query(
+    `SELECT m.id, p.weekly_limit, date_trunc('week', b.occurrence_date)::date as week_start
+     FROM memberships m
+     JOIN membership_plans p ON m.plan_id = p.id
+     JOIN bookings b ON b.id = $1
+     JOIN slots s ON b.slot_id = s.id
+     WHERE p.studio_id = s.studio_id
+       AND (m.customer_id = b.customer_id OR m.child_id = b.child_id)
+       AND b.occurrence_date BETWEEN m.starts_on AND m.ends_on
+       AND (p.for_children IS NULL OR p.for_children = s.for_children)
+     ORDER BY p.weekly_limit NULLS FIRST, m.ends_on, m.id
+     FOR UPDATE OF m`,
+    [bookingId],
+  );
+  if (memberships.length === 0) return null;
+
+  // Counted after locking, so concurrent bookings cannot exceed the weekly limit
+  const { rows: usage } = await client.query(
+    `SELECT membership_id, COUNT(*)::int as used
+     FROM bookings
+     WHERE membership_id = ANY($1::uuid[])
+       AND occurrence_date >= $2::date AND occurrence_date < $2::date + 7
+     GROUP BY membership_id`,
+    [memberships.map((membership) => membership.id), memberships[0].week_start],
+  );
+  const used = new Map<string, number>(usage.map((row) => [row.membership_id, row.used]));
+  const membership = memberships.find(
+    (candidate) =>
+      candidate.weekly_limit === null || (used.get(candidate.id) ?? 0) < candidate.weekly_limit,
+  );
+  if (!membership) return null;
+
+  await client.query('UPDATE bookings SET membership_id = $1 WHERE id = $2', [
+    membership.id,
+    bookingId,
+  ]);
+  return membership.id;
+}
@@ -0,0 +1,146 @@
+import { randomUUID } from 'crypto';
+import { getDbClient, withTransaction } from '../db';
+import { applyPayment } from './payments';
+import type { PaymentProvider, PaymentWebhookEvent } from '../payments/provider';
+import type { Booking, PaymentLink } from '../types';
+
+/**
+ * A pay-now link for what a booking still owes. A pending link for the same amount is
+ * reused, so asking again does not start a second payment with the provider.
+ */
+export async function createBookingPaymentLink(
+  bookingId: string,
+  provider: PaymentProvider,
+): Promise<{ link: PaymentLink } | { error: string; status: 400 | 404 }> {
+  const client = getDbClient();
+  const { rows } = await client.query(
+    `SELECT b.id, b.status, b.covered, b.currency, b.occurrence_date,
+            b.price - b.amount_paid as outstanding, s.studio_id, s.title as slot_title,
+            c.first_name as customer_name, c.contact_email as customer_email,
+            b.status = 'CANCELLED' AND b.late_cancellation_charged as charged_late
+     FROM bookings b
+     JOIN slots s ON b.slot_id = s.id
+     LEFT JOIN children ch ON b.child_id = ch.id
+     LEFT JOIN customers c ON c.id = COALESCE(b.customer_id, ch.customer_id)
+     WHERE b.id = $1`,
+    [bookingId],
+  );
+  if (rows.length === 0) return { error: 'Booking not found', status: 404 };
+  const booking = rows[0];
+  if (!['CONFIRMED', 'ATTENDED', 'NO_SHOW'].includes(booking.status) && !booking.charged_late) {
+    return { error: 'Only confirmed bookings can be paid online', status: 400 };
+  }
+  if (booking.covered || Number(booking.outstanding) <= 0) {
+    return { error: 'Booking has nothing to pay', status: 400 };
+  }
+
+  const { rows: pending } = await client.query(
+    `SELECT * FROM payment_links
+     WHERE booking_id = $1 AND provider = $2 AND status = 'pending' AND amount = $3
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [bookingId, provider.name, booking.outstanding],
+  );
+  if (pending.length > 0) return { link: pending[0] };
+
+  const id = randomUUID();
+  const created = await provider.createPaymentLink({
+    reference: id,
+    amount: Number(booking.outstanding),
+    currency: booking.currency,
+    description: `${booking.slot_title} ${booking.occurrence_date}`,
+    customerName: booking.customer_name,
+    customerEmail: booking.customer_email,
+  });
+  const { rows: links } = await client.query(
+    `INSERT INTO payment_links (id, studio_id, booking_id, provider, provider_ref, amount,
+                                currency, url)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [
+      id,
+      booking.studio_id,
+      bookingId,
+      provider.name,
+      created.providerRef,
+      booking.outstanding,
+      booking.currency,
+      created.url,
+    ],
+  );
+  return { link: links[0] };
+}
+
+/**
+ * Apply a payment outcome reported by a provider. A successful payment is recorded in the
+ * ledger with the provider's id as its reference (which also marks the booking paid once
+ * covered); repeated deliveries of an event change nothing. The link is locked and settled in
+ * the same transaction as the payment, and events whose amount or currency differ from the
+ * link are rejected.
+ */
+export async function handlePaymentWebhook(
+  provider: PaymentProvider,
+  event: PaymentWebhookEvent,
+): Promise<{ link: PaymentLink; booking: Booking | null } | { error: string; status: 400 | 404 }> {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query(
+      'SELECT * FROM payment_links WHERE provider = $1 AND provider_ref = $2 FOR UPDATE',
+      [provider.name, event.providerRef],
+    );
+    if (rows.length === 0) return { error: 'Payment link not found', status: 404 };
+    const link: PaymentLink = rows[0];
+    if (link.status !== 'pending') return { link, booking: null };
+    if (event.currency !== link.currency) {
+      return { error: 'Currency does not match the payment link', status: 400 };
+    }
+
+    if (event.status === 'failed') {
+      const { rows: failed } = await client.query(
+        `UPDATE payment_links SET status = 'failed', completed_at = now()
+         WHERE id = $1
+         RETURNING *`,
+        [link.id],
+      );
+      return { link: failed[0], booking: null };
+    }
+    // Amounts are numeric(10,2); compare them in cents
+    if (Math.round(event.amount * 100) !== Math.round(Number(link.amount) * 100)) {
+      return { error: 'Amount does not match the payment link', status: 400 };
+    }
+
+    const result = await applyPayment(
+      client,
+      link.studio_id,
+      {
+        amount: event.amount,
+        method: 'online',
+        bookingId: link.booking_id,
+        receivedAt: event.paidAt,
+        reference: event.providerRef,
+      },
+      null,
+    );
+    if ('error' in result && result.status !== 409) {
+      return { error: result.error, status: result.status === 404 ? 404 : 400 };
+    }
+    let paymentId: string;
+    if ('error' in result) {
+      // The studio already recorded this transfer by hand
+      const { rows: recorded } = await client.query(
+        `SELECT id FROM payments WHERE studio_id = $1 AND method = 'online' AND reference = $2`,
+        [link.studio_id, event.providerRef],
+      );
+      paymentId = recorded[0].id;
+    } else {
+      paymentId = result.payment.id;
+    }
+
+    const { rows: paid } = await client.query(
+      `UPDATE payment_links SET status = 'paid', payment_id = $1, completed_at = $2
+       WHERE id = $3
+       RETURNING *`,
+      [paymentId, event.paidAt, link.id],
+    );
+    return { link: paid[0], booking: 'error' in result ? null : result.booking };
+  });
+}
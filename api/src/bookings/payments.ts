@@ -0,0 +1,323 @@
+import { withTransaction } from '../db';
+import type { DbClient } from '../db';
+import { issueReceipt } from './receipts';
+import type { Booking, Payment, PaymentMethod, Receipt } from '../types';
+
+export interface PaymentInput {
+  amount: number;
+  method: PaymentMethod;
+  receivedAt?: Date;
+  bookingId?: string;
+  creditPackageId?: string;
+  customerId?: string; // Taken from the booking or credit package when one is linked
+  note?: string;
+  reference?: string; // Transaction reference; unique per studio and method
+}
+
+export interface RefundInput {
+  amount?: number; // Defaults to what is left to refund
+  method?: PaymentMethod; // Defaults to the refunded payment's method
+  receivedAt?: Date;
+  note?: string;
+}
+
+export type PaymentResult =
+  | { payment: Payment; booking: Booking | null; receipt: Receipt | null }
+  | { error: string; status: 400 | 404 | 409 };
+
+export interface PaymentFilters {
+  from?: string; // YYYY-MM-DD in the studio timezone, inclusive
+  to?: string;
+  customerId?: string;
+  bookingId?: string;
+}
+
+// Amounts are numeric(10,2); compare them in cents
+function cents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+// Refunds are in the currency of the refunded payment and booking payments in the booking's;
+// other payments are in the studio's current currency. Payments get a receipt, refunds do not.
+async function insertPayment(
+  client: DbClient,
+  studioId: string,
+  fields: Omit<PaymentInput, 'customerId'> & { customerId: string | null; refundOf?: string },
+  recordedBy: string | null,
+): Promise<{ payment: Payment; receipt: Receipt | null }> {
+  const { rows } = await client.query(
+    `INSERT INTO payments (studio_id, customer_id, booking_id, credit_package_id, refund_of,
+                           amount, currency, method, received_at, recorded_by, note, reference)
+     SELECT $1, $2, $3, $4, $5, $6,
+            COALESCE((SELECT currency FROM payments WHERE id = $5),
+                     (SELECT currency FROM bookings WHERE id = $3),
+                     st.currency),
+            $7, COALESCE($8, now()), $9, $10, $11
+     FROM studios st WHERE st.id = $1
+     RETURNING *`,
+    [
+      studioId,
+      fields.customerId,
+      fields.bookingId ?? null,
+      fields.creditPackageId ?? null,
+      fields.refundOf ?? null,
+      fields.amount,
+      fields.method,
+      fields.receivedAt ?? null,
+      recordedBy,
+      fields.note ?? null,
+      fields.reference ?? null,
+    ],
+  );
+  const receipt = fields.refundOf ? null : await issueReceipt(client, rows[0]);
+  return { payment: rows[0], receipt };
+}
+
+/**
+ * Derive a booking's payment state from the ledger: amount_paid is the net of its payments,
+ * and it is paid once that covers the booking's price. paid_at and paid_method come from
+ * the latest payment. Returns the updated booking.
+ */
+export async function settleBooking(client: DbClient, bookingId: string): Promise<Booking> {
+  const { rows } = await client.query(
+    `WITH totals AS (
+       SELECT COALESCE(SUM(p.amount), 0) as total, b.price as due
+       FROM bookings b
+       LEFT JOIN payments p ON p.booking_id = b.id
+       WHERE b.id = $1
+       GROUP BY b.id
+     ), latest AS (
+       SELECT received_at, method FROM payments
+       WHERE booking_id = $1 AND amount > 0
+       ORDER BY received_at DESC, created_at DESC
+       LIMIT 1
+     )
+     UPDATE bookings b
+     SET amount_paid = t.total,
+         paid = t.settled,
+         paid_at = CASE WHEN t.settled THEN l.received_at END,
+         paid_method = CASE WHEN t.settled THEN l.method END
+     FROM (SELECT total, total > 0 AND total >= due as settled FROM totals) t
+     LEFT JOIN latest l ON true
+     WHERE b.id = $1
+     RETURNING b.*`,
+    [bookingId],
+  );
+  return rows[0];
+}
+
+/**
+ * Record a payment received by a studio, optionally for one of its bookings or credit
+ * packages. The payer is the booked customer (or the booked child's parent) or the package
+ * owner; a booking's payment state is derived again. A transaction reference can only be
+ * recorded once per payment method.
+ */
+export async function recordPayment(
+  studioId: string,
+  input: PaymentInput,
+  recordedBy: string | null,
+): Promise<PaymentResult> {
+  return withTransaction((client) => applyPayment(client, studioId, input, recordedBy));
+}
+
+/**
+ * recordPayment inside a caller's transaction, e.g. together with the payment link it settles.
+ */
+export async function applyPayment(
+  client: DbClient,
+  studioId: string,
+  input: PaymentInput,
+  recordedBy: string | null,
+): Promise<PaymentResult> {
+  let customerId = input.customerId ?? null;
+
+  if (input.bookingId || input.creditPackageId) {
+    const { rows: linked } = input.bookingId
+      ? await client.query(
+          `SELECT COALESCE(b.customer_id, ch.customer_id) as customer_id
+           FROM bookings b
+           JOIN slots s ON b.slot_id = s.id
+           LEFT JOIN children ch ON b.child_id = ch.id
+           WHERE b.id = $1 AND s.studio_id = $2
+           FOR UPDATE OF b`,
+          [input.bookingId, studioId],
+        )
+      : await client.query(
+          'SELECT customer_id FROM credit_packages WHERE id = $1 AND studio_id = $2',
+          [input.creditPackageId, studioId],
+        );
+    const [label, link] = input.bookingId
+      ? ['Booking', 'booking']
+      : ['Credit package', 'credit package'];
+    if (linked.length === 0) return { error: `${label} not found`, status: 404 };
+    if (customerId && customerId !== linked[0].customer_id) {
+      return { error: `Customer does not match the ${link}`, status: 400 };
+    }
+    customerId = linked[0].customer_id;
+  } else if (customerId) {
+    const { rows } = await client.query(
+      'SELECT id FROM customers WHERE id = $1 AND studio_id = $2',
+      [customerId, studioId],
+    );
+    if (rows.length === 0) return { error: 'Customer not found', status: 404 };
+  }
+
+  if (input.reference) {
+    const { rows: recorded } = await client.query(
+      'SELECT id FROM payments WHERE studio_id = $1 AND method = $2 AND reference = $3',
+      [studioId, input.method, input.reference],
+    );
+    if (recorded.length > 0) {
+      return { error: 'Payment with this reference is already recorded', status: 409 };
+    }
+  }
+
+  const { payment, receipt } = await insertPayment(
+    client,
+    studioId,
+    { ...input, customerId },
+    recordedBy,
+  );
+  const booking = input.bookingId ? await settleBooking(client, input.bookingId) : null;
+  return { payment, booking, receipt };
+}
+
+/**
+ * Record a payment for a booking: the given amount, or whatever is still outstanding.
+ * Only bookings that owe their price can be paid for: not cancelled or waitlisted ones, nor
+ * those covered by a membership or credit or free of charge. A booking with nothing
+ * outstanding cannot be paid for again without an explicit amount.
+ */
+export async function payBooking(
+  bookingId: string,
+  input: { amount?: number; method: PaymentMethod; receivedAt?: Date },
+  recordedBy: string | null,
+): Promise<PaymentResult> {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query(
+      `SELECT s.studio_id, COALESCE(b.customer_id, ch.customer_id) as customer_id,
+              b.status, b.covered, b.price, b.price - b.amount_paid as outstanding,
+              b.late_cancellation_charged
+       FROM bookings b
+       JOIN slots s ON b.slot_id = s.id
+       LEFT JOIN children ch ON b.child_id = ch.id
+       WHERE b.id = $1
+       FOR UPDATE OF b`,
+      [bookingId],
+    );
+    if (rows.length === 0) return { error: 'Booking not found', status: 404 };
+    const booking = rows[0];
+    // Late cancellations charged under the studio's policy are owed like the class itself
+    const cancelledOwed = booking.status === 'CANCELLED' && booking.late_cancellation_charged;
+    if ((booking.status === 'CANCELLED' && !cancelledOwed) || booking.status === 'WAITLISTED') {
+      return { error: `Cannot record a payment for a ${booking.status} booking`, status: 409 };
+    }
+    if (booking.covered) {
+      return { error: 'Booking is covered by a membership or credit', status: 409 };
+    }
+    if (cents(booking.price) <= 0) {
+      return { error: 'Booking is free of charge', status: 400 };
+    }
+
+    const amount = input.amount ?? Number(booking.outstanding);
+    if (cents(amount) <= 0) {
+      return { error: 'Booking is already marked as paid', status: 400 };
+    }
+
+    const { payment, receipt } = await insertPayment(
+      client,
+      booking.studio_id,
+      { ...input, amount, bookingId, customerId: booking.customer_id },
+      recordedBy,
+    );
+    return { payment, booking: await settleBooking(client, bookingId), receipt };
+  });
+}
+
+/**
+ * Refund (part of) a payment as a negative entry carrying the payment's links. Payments
+ * cannot be refunded beyond their amount; refunds themselves cannot be refunded.
+ */
+export async function refundPayment(
+  studioId: string,
+  paymentId: string,
+  input: RefundInput,
+  recordedBy: string | null,
+): Promise<PaymentResult> {
+  return withTransaction(async (client) => {
+    // Locked so concurrent refunds cannot exceed the payment
+    const { rows } = await client.query(
+      'SELECT * FROM payments WHERE id = $1 AND studio_id = $2 FOR UPDATE',
+      [paymentId, studioId],
+    );
+    if (rows.length === 0) return { error: 'Payment not found', status: 404 };
+    const original: Payment = rows[0];
+    if (original.refund_of) return { error: 'Refunds cannot be refunded', status: 400 };
+
+    const { rows: refunded } = await client.query(
+      'SELECT COALESCE(SUM(amount), 0) as total FROM payments WHERE refund_of = $1',
+      [paymentId],
+    );
+    const refundable = cents(original.amount) + cents(refunded[0].total);
+    if (refundable <= 0) return { error: 'Payment is already fully refunded', status: 400 };
+    const amount = input.amount === undefined ? refundable : cents(input.amount);
+    if (amount > refundable) {
+      return { error: 'Refund exceeds the refundable amount', status: 400 };
+    }
+
+    const { payment } = await insertPayment(
+      client,
+      studioId,
+      {
+        amount: -amount / 100,
+        method: input.method ?? original.method,
+        receivedAt: input.receivedAt,
+        note: input.note,
+        bookingId: original.booking_id ?? undefined,
+        creditPackageId: original.credit_package_id ?? undefined,
+        customerId: original.customer_id,
+        refundOf: original.id,
+      },
+      recordedBy,
+    );
+    const booking = original.booking_id ? await settleBooking(client, original.booking_id) : null;
+    return { payment, booking, receipt: null };
+  });
+}
+
+/**
+ * A studio's ledger entries, in the order they were received.
+ */
+export async function listPayments(
+  client: DbClient,
+  studioId: string,
+  filters: PaymentFilters = {},
+): Promise<Payment[]> {
+  const conditions = ['p.studio_id = $1'];
+  const values: unknown[] = [studioId];
+  if (filters.from) {
+    values.push(filters.from);
+    conditions.push(`(p.received_at AT TIME ZONE st.timezone)::date >= $${values.length}`);
+  }
+  if (filters.to) {
+    values.push(filters.to);
+    conditions.push(`(p.received_at AT TIME ZONE st.timezone)::date <= $${values.length}`);
+  }
+  if (filters.customerId) {
+    values.push(filters.customerId);
+    conditions.push(`p.customer_id = $${values.length}`);
+  }
+  if (filters.bookingId) {
+    values.push(filters.bookingId);
+    conditions.push(`p.booking_id = $${values.length}`);
+  }
+
+  const { rows } = await client.query(
+    `SELECT p.* FROM payments p
+     JOIN studios st ON p.studio_id = st.id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY p.received_at, p.created_at, p.id`,
+    values,
+  );
+  return rows;
+}
@@ -0,0 +1,311 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { deflateSync } from 'zlib';
+
+interface Table {
+  offset: number;
+  length: number;
+}
+
+// A TrueType font read from a .ttf file, with what a PDF needs to embed it
+export interface TrueTypeFont {
+  name: string; // PostScript name
+  file: Buffer;
+  tables: Map<string, Table>;
+  unitsPerEm: number;
+  bbox: [number, number, number, number];
+  ascent: number;
+  descent: number;
+  numGlyphs: number;
+  advances: number[]; // Advance width of each glyph id, in font units
+  longLoca: boolean;
+  cmap: Table; // The Windows Unicode (format 4) character map
+}
+
+// The glyphs of a font a document uses, and the text each stands for
+export interface FontSubset {
+  font: TrueTypeFont;
+  glyphs: Map<number, string>;
+}
+
+const fonts = new Map<string, TrueTypeFont>();
+
+/**
+ * A DejaVu Sans font (e.g. 'DejaVuSans-Bold'), which covers Latin and Hebrew. Fonts are read
+ * once and kept.
+ */
+export function dejaVuFont(name: string): TrueTypeFont {
+  let font = fonts.get(name);
+  if (!font) {
+    const dir = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+    font = readTrueTypeFont(name, readFileSync(path.join(dir, `${name}.ttf`)));
+    fonts.set(name, font);
+  }
+  return font;
+}
+
+// The tables and metrics of a .ttf file
+export function readTrueTypeFont(name: string, file: Buffer): TrueTypeFont {
+  const tables = new Map<string, Table>();
+  for (let i = 0; i < file.readUInt16BE(4); i++) {
+    const entry = 12 + i * 16;
+    tables.set(file.toString('latin1', entry, entry + 4), {
+      offset: file.readUInt32BE(entry + 8),
+      length: file.readUInt32BE(entry + 12),
+    });
+  }
+  const table = (tag: string) => {
+    const found = tables.get(tag);
+    if (!found) throw new Error(`Font ${name} has no ${tag} table`);
+    return found.offset;
+  };
+
+  const head = table('head');
+  const hhea = table('hhea');
+  const hmtx = table('hmtx');
+  const numGlyphs = file.readUInt16BE(table('maxp') + 4);
+  const metrics = file.readUInt16BE(hhea + 34);
+  const advances: number[] = [];
+  for (let gid = 0; gid < numGlyphs; gid++) {
+    advances.push(file.readUInt16BE(hmtx + Math.min(gid, metrics - 1) * 4));
+  }
+
+  const cmap = table('cmap');
+  let unicode: Table | null = null;
+  for (let i = 0; i < file.readUInt16BE(cmap + 2); i++) {
+    const record = cmap + 4 + i * 8;
+    const offset = cmap + file.readUInt32BE(record + 4);
+    if (
+      file.readUInt16BE(record) === 3 &&
+      file.readUInt16BE(record + 2) === 1 &&
+      file.readUInt16BE(offset) === 4
+    ) {
+      unicode = { offset, length: file.readUInt16BE(offset + 2) };
+    }
+  }
+  if (!unicode) throw new Error(`Font ${name} has no Unicode character map`);
+
+  return {
+    name,
+    file,
+    tables,
+    unitsPerEm: file.readUInt16BE(head + 18),
+    bbox: [
+      file.readInt16BE(head + 36),
+      file.readInt16BE(head + 38),
+      file.readInt16BE(head + 40),
+      file.readInt16BE(head + 42),
+    ],
+    ascent: file.readInt16BE(hhea + 4),
+    descent: file.readInt16BE(hhea + 6),
+    numGlyphs,
+    advances,
+    longLoca: file.readInt16BE(head + 50) === 1,
+    cmap: unicode,
+  };
+}
+
+// The glyph id of a character, 0 (the missing glyph) when the font lacks it
+function glyphId(font: TrueTypeFont, codePoint: number): number {
+  if (codePoint > 0xffff) return 0;
+  const { file } = font;
+  const map = font.cmap.offset;
+  const segments = file.readUInt16BE(map + 6) / 2;
+  const ends = map + 14;
+  const starts = ends + segments * 2 + 2;
+  const deltas = starts + segments * 2;
+  const rangeOffsets = deltas + segments * 2;
+  for (let i = 0; i < segments; i++) {
+    if (codePoint > file.readUInt16BE(ends + i * 2)) continue;
+    const start = file.readUInt16BE(starts + i * 2);
+    if (codePoint < start) return 0;
+    const delta = file.readUInt16BE(deltas + i * 2);
+    const rangeOffset = file.readUInt16BE(rangeOffsets + i * 2);
+    if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+    const gid = file.readUInt16BE(rangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+    return gid === 0 ? 0 : (gid + delta) & 0xffff;
+  }
+  return 0;
+}
+
+/**
+ * Text as a PDF hex string of glyph ids, for fonts embedded with the Identity-H encoding.
+ * The glyphs are recorded in the subset so that only they are embedded.
+ */
+export function encodeText(subset: FontSubset, text: string): string {
+  const hex = [...text].map((char) => {
+    const gid = glyphId(subset.font, char.codePointAt(0) ?? 0);
+    if (gid !== 0 && !subset.glyphs.has(gid)) subset.glyphs.set(gid, char);
+    return gid.toString(16).toUpperCase().padStart(4, '0');
+  });
+  return `<${hex.join('')}>`;
+}
+
+// Glyph data from the glyf table, through the loca table
+function glyphData(font: TrueTypeFont, gid: number): Buffer {
+  const { file } = font;
+  const loca = font.tables.get('loca')!.offset;
+  const glyf = font.tables.get('glyf')!.offset;
+  const at = (index: number) =>
+    font.longLoca ? file.readUInt32BE(loca + index * 4) : file.readUInt16BE(loca + index * 2) * 2;
+  return file.subarray(glyf + at(gid), glyf + at(gid + 1));
+}
+
+// Glyphs a composite glyph is built from
+function componentGlyphs(data: Buffer): number[] {
+  if (data.length === 0 || data.readInt16BE(0) >= 0) return [];
+  const components: number[] = [];
+  let offset = 10;
+  let flags: number;
+  do {
+    flags = data.readUInt16BE(offset);
+    components.push(data.readUInt16BE(offset + 2));
+    offset += 4 + (flags & 0x1 ? 4 : 2); // Arguments as words or bytes
+    if (flags & 0x8)
+      offset += 2; // One scale
+    else if (flags & 0x40)
+      offset += 4; // X and Y scales
+    else if (flags & 0x80) offset += 8; // A 2x2 transformation
+  } while (flags & 0x20);
+  return components;
+}
+
+function checksum(data: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) sum = (sum + data.readUInt32BE(i)) >>> 0;
+  return sum;
+}
+
+function padded(data: Buffer): Buffer {
+  return Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+}
+
+/**
+ * The font file with only the glyphs used (and those they are built from); the others are
+ * left empty so glyph ids stay the same. Tables a PDF reader does not need are dropped.
+ */
+export function subsetFontFile(subset: FontSubset): Buffer {
+  const { font } = subset;
+  const used = new Set([0, ...subset.glyphs.keys()]);
+  for (const gid of used) {
+    for (const component of componentGlyphs(glyphData(font, gid))) used.add(component);
+  }
+
+  const glyphs: Buffer[] = [];
+  const loca = Buffer.alloc((font.numGlyphs + 1) * 4);
+  let offset = 0;
+  for (let gid = 0; gid < font.numGlyphs; gid++) {
+    loca.writeUInt32BE(offset, gid * 4);
+    if (used.has(gid)) {
+      const data = padded(glyphData(font, gid));
+      glyphs.push(data);
+      offset += data.length;
+    }
+  }
+  loca.writeUInt32BE(offset, font.numGlyphs * 4);
+
+  const copy = (tag: string) => {
+    const table = font.tables.get(tag);
+    return table && Buffer.from(font.file.subarray(table.offset, table.offset + table.length));
+  };
+  const head = copy('head')!;
+  head.writeUInt32BE(0, 8); // checkSumAdjustment, set below
+  head.writeInt16BE(1, 50); // Long loca offsets
+  // Tables in tag order, as the table directory needs
+  const replaced: Record<string, Buffer> = { glyf: Buffer.concat(glyphs), head, loca };
+  const tables: [string, Buffer][] = [];
+  for (const tag of ['cvt ', 'fpgm', 'glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp', 'prep']) {
+    const data = replaced[tag] ?? copy(tag);
+    if (data) tables.push([tag, data]);
+  }
+
+  const log2 = Math.floor(Math.log2(tables.length));
+  const directory = Buffer.alloc(12 + tables.length * 16);
+  directory.writeUInt32BE(0x00010000, 0);
+  directory.writeUInt16BE(tables.length, 4);
+  directory.writeUInt16BE(2 ** log2 * 16, 6);
+  directory.writeUInt16BE(log2, 8);
+  directory.writeUInt16BE(tables.length * 16 - 2 ** log2 * 16, 10);
+  let position = directory.length;
+  tables.forEach(([tag, data], i) => {
+    const entry = 12 + i * 16;
+    directory.write(tag, entry, 'latin1');
+    directory.writeUInt32BE(checksum(padded(data)), entry + 4);
+    directory.writeUInt32BE(position, entry + 8);
+    directory.writeUInt32BE(data.length, entry + 12);
+    position += padded(data).length;
+  });
+  const file = Buffer.concat([directory, ...tables.map(([, data]) => padded(data))]);
+  const headAt = directory.readUInt32BE(12 + tables.findIndex(([tag]) => tag === 'head') * 16 + 8);
+  file.writeUInt32BE((0xb1b0afba - checksum(file)) >>> 0, headAt + 8);
+  return file;
+}
+
+// Six capital letters naming a subset, as PDF requires before the font name
+function subsetTag(subset: FontSubset): string {
+  let hash = 0;
+  for (const gid of subset.glyphs.keys()) hash = (hash * 31 + gid) >>> 0;
+  return Array.from({ length: 6 }, (_, i) =>
+    String.fromCharCode(65 + (Math.floor(hash / 26 ** i) % 26)),
+  ).join('');
+}
+
+// A PDF stream object; binary data is kept byte for byte as latin1
+function stream(data: Buffer, entries = ''): string {
+  return `<< /Length ${data.length}${entries} >>\nstream\n${data.toString('latin1')}\nendstream`;
+}
+
+// Maps glyph ids back to their text, so text can be copied and searched
+function toUnicodeCMap(subset: FontSubset): string {
+  const entries = [...subset.glyphs].map(([gid, char]) => {
+    const utf16 = Buffer.from(char, 'utf16le').swap16().toString('hex').toUpperCase();
+    return `<${gid.toString(16).toUpperCase().padStart(4, '0')}> <${utf16}>`;
+  });
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const block = entries.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfchar\n${block.join('\n')}\nendbfchar`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
+
+/**
+ * The PDF objects embedding a font subset, numbered from first: the Type0 font to refer to
+ * from page resources, its CID font, descriptor, font file and ToUnicode map.
+ */
+export function fontObjects(subset: FontSubset, first: number): string[] {
+  const { font } = subset;
+  const name = `${subsetTag(subset)}+${font.name}`;
+  const scale = (units: number) => Math.round((units * 1000) / font.unitsPerEm);
+  const widths = [...subset.glyphs.keys()]
+    .sort((a, b) => a - b)
+    .map((gid) => `${gid} [${scale(font.advances[gid])}]`);
+  const file = subsetFontFile(subset);
+
+  return [
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H ` +
+      `/DescendantFonts [${first + 1} 0 R] /ToUnicode ${first + 4} 0 R >>`,
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} ` +
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ' +
+      `/FontDescriptor ${first + 2} 0 R /W [${widths.join(' ')}] /CIDToGIDMap /Identity >>`,
+    `<< /Type /FontDescriptor /FontName /${name} /Flags 32 ` +
+      `/FontBBox [${font.bbox.map(scale).join(' ')}] /ItalicAngle 0 ` +
+      `/Ascent ${scale(font.ascent)} /Descent ${scale(font.descent)} ` +
+      `/CapHeight ${scale(font.ascent)} /StemV 80 /FontFile2 ${first + 3} 0 R >>`,
+    stream(deflateSync(file), ` /Length1 ${file.length} /Filter /FlateDecode`),
+    stream(Buffer.from(toUnicodeCMap(subset), 'latin1')),
+  ];
+}
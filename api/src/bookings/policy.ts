@@ -0,0 +1,29 @@
+import type { Studio } from '../types';
+
+export type CancellationPolicy = Pick<
+  Studio,
+  'free_cancellation_hours' | 'late_cancellation_action'
+>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Whether cancelling now, for a class starting at startsAt, falls inside the studio's
+ * late-cancellation window. Studios without a window never have late cancellations.
+ */
+export function isLateCancellation(
+  policy: CancellationPolicy,
+  startsAt: Date,
+  now: Date = new Date(),
+): boolean {
+  if (policy.free_cancellation_hours === null) return false;
+  return startsAt.getTime() - now.getTime() < policy.free_cancellation_hours * HOUR_MS;
+}
+
+/**
+ * Last moment a booking can be cancelled for free, or null when cancelling is always free.
+ */
+export function freeCancellationDeadline(policy: CancellationPolicy, startsAt: Date): Date | null {
+  if (policy.free_cancellation_hours === null) return null;
+  return new Date(startsAt.getTime() - policy.free_cancellation_hours * HOUR_MS);
+}
@@ -0,0 +1,142 @@
+import type { DbClient } from '../db';
+import type { Coupon, PriceRule } from '../types';
+
+export interface PricingRequest {
+  slotId: string;
+  occurrenceDate: string;
+  customerId: string | null;
+  childId: string | null;
+  listPrice: number; // Effective price of the occurrence
+  couponCode?: string;
+  bookingId?: string; // A booking being repriced; its own use of the coupon is not counted
+}
+
+export interface Price {
+  list_price: number;
+  price: number;
+  price_rule: PriceRule | null;
+  coupon_id: string | null;
+  currency: string; // The studio's currency when the booking is made
+}
+
+function cents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function percentOff(base: number, percent: number | string): number {
+  return Math.round((base * (100 - Number(percent))) / 100);
+}
+
+/**
+ * Price a booking about to be made, or moved to another occurrence. A fixed price agreed with
+ * the customer (or the child's parent) replaces the list price, the slot's own before the
+ * customer's default. The sibling discount (a sibling already booked into the occurrence) and
+ * a coupon are then weighed against each other: discounts do not stack, and a coupon only
+ * counts as used when it wins. Invalid coupons are rejected. Callers hold the slot lock; the
+ * coupon is locked so its usage limit holds under concurrent bookings.
+ */
+export async function priceBooking(
+  client: DbClient,
+  request: PricingRequest,
+): Promise<Price | { error: string; status: 400 }> {
+  const { rows } = await client.query(
+    `SELECT st.id as studio_id, st.sibling_discount_percent, st.currency,
+            (now() AT TIME ZONE st.timezone)::date as today,
+            COALESCE($2::uuid, ch.customer_id) as payer_id
+     FROM slots s
+     JOIN studios st ON s.studio_id = st.id
+     LEFT JOIN children ch ON ch.id = $3
+     WHERE s.id = $1`,
+    [request.slotId, request.customerId, request.childId],
+  );
+  const {
+    studio_id: studioId,
+    sibling_discount_percent: siblingPercent,
+    currency,
+    today,
+  } = rows[0];
+  const payerId: string | null = rows[0].payer_id;
+
+  let coupon: Coupon | null = null;
+  if (request.couponCode) {
+    const { rows: coupons } = await client.query(
+      `SELECT * FROM coupons
+       WHERE studio_id = $1 AND lower(code) = lower($2) AND active
+       FOR UPDATE`,
+      [studioId, request.couponCode],
+    );
+    coupon = coupons[0] ?? null;
+    if (!coupon) return { error: 'Coupon not found', status: 400 };
+    if (
+      (coupon.valid_from && today < coupon.valid_from) ||
+      (coupon.valid_until && today > coupon.valid_until)
+    ) {
+      return { error: 'Coupon is not valid today', status: 400 };
+    }
+    if (coupon.max_uses !== null) {
+      const { rows: uses } = await client.query(
+        `SELECT COUNT(*)::int as count FROM bookings
+         WHERE coupon_id = $1 AND status <> 'CANCELLED' AND id IS DISTINCT FROM $2`,
+        [coupon.id, request.bookingId ?? null],
+      );
+      if (uses[0].count >= coupon.max_uses) {
+        return { error: 'Coupon usage limit reached', status: 400 };
+      }
+    }
+  }
+
+  const listPrice = cents(request.listPrice);
+  let base = listPrice;
+  let rule: PriceRule | null = null;
+  if (payerId) {
+    const { rows: agreed } = await client.query(
+      `SELECT price FROM customer_prices
+       WHERE customer_id = $1 AND (slot_id = $2 OR slot_id IS NULL)
+       ORDER BY slot_id NULLS LAST
+       LIMIT 1`,
+      [payerId, request.slotId],
+    );
+    if (agreed.length > 0) {
+      base = cents(agreed[0].price);
+      rule = 'customer_price';
+    }
+  }
+
+  let price = base;
+  if (siblingPercent && request.childId && payerId) {
+    const { rows: siblings } = await client.query(
+      `SELECT 1 FROM bookings b
+       JOIN children ch ON b.child_id = ch.id
+       WHERE b.slot_id = $1 AND b.occurrence_date = $2
+         AND ch.customer_id = $3 AND b.child_id <> $4
+         AND b.status <> 'CANCELLED'
+       LIMIT 1`,
+      [request.slotId, request.occurrenceDate, payerId, request.childId],
+    );
+    if (siblings.length > 0 && percentOff(base, siblingPercent) < price) {
+      price = percentOff(base, siblingPercent);
+      rule = 'sibling';
+    }
+  }
+
+  let couponId: string | null = null;
+  if (coupon) {
+    const discounted =
+      coupon.percent_off !== null
+        ? percentOff(base, coupon.percent_off)
+        : Math.max(0, base - cents(coupon.amount_off ?? 0));
+    if (discounted < price) {
+      price = discounted;
+      rule = 'coupon';
+      couponId = coupon.id;
+    }
+  }
+
+  return {
+    list_price: listPrice / 100,
+    price: price / 100,
+    price_rule: rule,
+    coupon_id: couponId,
+    currency,
+  };
+}
@@ -0,0 +1,234 @@
+import { dejaVuFont, encodeText, fontObjects } from './pdf-fonts';
+import type { FontSubset } from './pdf-fonts';
+import type { IssuedReceipt } from './receipts';
+
+const methodLabels: Record<string, string> = {
+  cash: 'Cash',
+  bit: 'Bit',
+  paybox: 'PayBox',
+  transfer: 'Bank transfer',
+  online: 'Online payment',
+};
+
+function money(amount: number | string, currency: string): string {
+  return `${Number(amount).toFixed(2)} ${currency}`;
+}
+
+function title(receipt: IssuedReceipt): string {
+  // VAT-registered businesses issue a combined tax invoice and receipt
+  return receipt.vat_rate === null ? 'Receipt' : 'Tax Invoice / Receipt';
+}
+
+// Label and amount rows below the line items
+function totals(receipt: IssuedReceipt): [string, string][] {
+  if (receipt.vat_rate === null) {
+    return [['Total', money(receipt.total, receipt.currency)]];
+  }
+  return [
+    ['Subtotal', money(receipt.subtotal, receipt.currency)],
+    [`VAT ${Number(receipt.vat_rate)}%`, money(receipt.vat_amount, receipt.currency)],
+    ['Total', money(receipt.total, receipt.currency)],
+  ];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * A receipt as a standalone HTML page. Free text is marked dir="auto" so Hebrew names and
+ * descriptions read right to left.
+ */
+export function renderReceiptHtml(receipt: IssuedReceipt): string {
+  const text = (value: string) => `<span dir="auto">${escapeHtml(value)}</span>`;
+  const business = [
+    receipt.business_tax_id && `Tax ID: ${escapeHtml(receipt.business_tax_id)}`,
+    receipt.business_address && text(receipt.business_address),
+  ].filter(Boolean);
+  const rows = [
+    ...receipt.lines.map(
+      (line) =>
+        `<tr><td>${text(line.description)}</td><td class="amount">${money(line.amount, receipt.currency)}</td></tr>`,
+    ),
+    ...totals(receipt).map(
+      ([label, amount]) =>
+        `<tr class="total"><td>${label}</td><td class="amount">${amount}</td></tr>`,
+    ),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title(receipt)} ${receipt.number}</title>
+<style>
+body { font-family: Arial, sans-serif; max-width: 640px; margin: 2em auto; color: #222; }
+table { width: 100%; border-collapse: collapse; margin-top: 1em; }
+td { padding: 0.4em 0; border-bottom: 1px solid #ddd; }
+.amount { text-align: right; white-space: nowrap; }
+.total td { font-weight: bold; border-bottom: none; }
+</style>
+</head>
+<body>
+<h1>${text(receipt.business_name)}</h1>
+${business.map((line) => `<p>${line}</p>`).join('\n')}
+<h2>${title(receipt)} No. ${receipt.number}</h2>
+<p>Date: ${receipt.issued_on}</p>
+${receipt.customer_name ? `<p>Received from: ${text(receipt.customer_name)}</p>` : ''}
+<table>
+${rows.join('\n')}
+</table>
+<p>Paid by: ${methodLabels[receipt.method] ?? receipt.method}</p>
+</body>
+</html>
+`;
+}
+
+// Hebrew (and other right-to-left scripts), and characters that read left to right
+const RTL = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/;
+const LTR = /[0-9A-Za-z\u00aa\u00b5\u00ba\u00c0-\u00d6\u00d8-\u00f6\u00f8-\u058f]/;
+const MIRRORED: Record<string, string> = {
+  '(': ')',
+  ')': '(',
+  '[': ']',
+  ']': '[',
+  '<': '>',
+  '>': '<',
+};
+
+/**
+ * A line of text in the order its characters are drawn from left to right. Runs of Hebrew
+ * read right to left, with brackets mirrored; a line starting with Hebrew reads right to left
+ * as a whole, keeping embedded Latin words and numbers left to right. Brackets around Hebrew
+ * go with it; other spaces and punctuation join the runs on both sides when they have the
+ * same direction, otherwise they follow the line.
+ */
+function visualOrder(text: string): string {
+  const chars = [...text];
+  const types = chars.map((char) => (RTL.test(char) ? 'R' : LTR.test(char) ? 'L' : null));
+  const base = types.find((type) => type !== null) ?? 'L';
+  const strong = (from: number, step: number) => {
+    for (let i = from; i >= 0 && i < types.length; i += step) {
+      if (types[i]) return types[i];
+    }
+    return null;
+  };
+
+  const open: number[] = [];
+  chars.forEach((char, i) => {
+    if ('([<'.includes(char)) open.push(i);
+    else if (
+      ')]>'.includes(char) &&
+      open.length > 0 &&
+      chars[open[open.length - 1]] === MIRRORED[char]
+    ) {
+      const start = open.pop()!;
+      const inside = types.slice(start + 1, i);
+      const other = base === 'R' ? 'L' : 'R';
+      if (!inside.includes(base) && inside.includes(other) && strong(start - 1, -1) === other) {
+        types[start] = types[i] = other;
+      }
+    }
+  });
+
+  const resolved = types.map((type, i) => {
+    if (type) return type;
+    const before = strong(i - 1, -1) ?? base;
+    return before === (strong(i + 1, 1) ?? base) ? before : base;
+  });
+  const runs: string[] = [];
+  chars.forEach((char, i) => {
+    const rtl = resolved[i] === 'R';
+    const shown = rtl ? (MIRRORED[char] ?? char) : char;
+    if (i > 0 && resolved[i] === resolved[i - 1]) {
+      runs[runs.length - 1] = rtl ? shown + runs[runs.length - 1] : runs[runs.length - 1] + shown;
+    } else {
+      runs.push(shown);
+    }
+  });
+  return (base === 'R' ? runs.reverse() : runs).join('');
+}
+
+/**
+ * A receipt as a one-page A4 PDF. The DejaVu Sans fonts are embedded, with only the glyphs
+ * used, so Hebrew names and addresses print as they do in the HTML receipt.
+ */
+export function renderReceiptPdf(receipt: IssuedReceipt): Buffer {
+  const fonts: Record<string, FontSubset> = {
+    F1: { font: dejaVuFont('DejaVuSans'), glyphs: new Map() },
+    F2: { font: dejaVuFont('DejaVuSans-Bold'), glyphs: new Map() },
+  };
+  const content: string[] = [];
+  let y = 790;
+  const write = (text: string, options: { size?: number; bold?: boolean; x?: number } = {}) => {
+    const size = options.size ?? 11;
+    const font = options.bold ? 'F2' : 'F1';
+    content.push(
+      `BT /${font} ${size} Tf ${options.x ?? 50} ${y} Td ${encodeText(fonts[font], visualOrder(text))} Tj ET`,
+    );
+  };
+  const next = (gap: number) => {
+    y -= gap;
+  };
+
+  write(receipt.business_name, { size: 18, bold: true });
+  next(20);
+  if (receipt.business_tax_id) {
+    write(`Tax ID: ${receipt.business_tax_id}`);
+    next(15);
+  }
+  if (receipt.business_address) {
+    write(receipt.business_address);
+    next(15);
+  }
+  next(20);
+  write(`${title(receipt)} No. ${receipt.number}`, { size: 14, bold: true });
+  next(20);
+  write(`Date: ${receipt.issued_on}`);
+  next(15);
+  if (receipt.customer_name) {
+    write(`Received from: ${receipt.customer_name}`);
+    next(15);
+  }
+  next(20);
+  for (const line of receipt.lines) {
+    write(line.description);
+    write(money(line.amount, receipt.currency), { x: 430 });
+    next(18);
+  }
+  for (const [label, amount] of totals(receipt)) {
+    write(label, { bold: true });
+    write(amount, { bold: true, x: 430 });
+    next(18);
+  }
+  next(20);
+  write(`Paid by: ${methodLabels[receipt.method] ?? receipt.method}`);
+
+  const stream = content.join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] ' +
+      '/Resources << /Font << /F1 5 0 R /F2 10 0 R >> >> /Contents 4 0 R >>',
+    `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`,
+    ...fontObjects(fonts.F1, 5),
+    ...fontObjects(fonts.F2, 10),
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
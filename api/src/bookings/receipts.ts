@@ -0,0 +1,97 @@
+import type { DbClient } from '../db';
+import type { Payment, Receipt } from '../types';
+
+export type IssuedReceipt = Receipt & { issued_on: string }; // YYYY-MM-DD in the studio timezone
+
+function cents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Issue the receipt for a payment inside the payment's transaction. The studio row is locked
+ * while its receipt counter advances, so receipts are numbered in the order they are issued
+ * and a rolled back payment gives its number back. Amounts include VAT at the studio's rate.
+ */
+export async function issueReceipt(client: DbClient, payment: Payment): Promise<Receipt> {
+  const { rows: studios } = await client.query(
+    `UPDATE studios SET last_receipt_number = last_receipt_number + 1
+     WHERE id = $1
+     RETURNING last_receipt_number, COALESCE(business_name, name) as business_name,
+               business_tax_id, business_address, vat_rate`,
+    [payment.studio_id],
+  );
+  const studio = studios[0];
+
+  const { rows: items } = await client.query(
+    `SELECT c.first_name as customer_name, s.title as slot_title, b.occurrence_date,
+            ch.first_name as child_name, cp.name as package_name, cp.credits
+     FROM (SELECT 1) one
+     LEFT JOIN customers c ON c.id = $1
+     LEFT JOIN bookings b ON b.id = $2
+     LEFT JOIN slots s ON b.slot_id = s.id
+     LEFT JOIN children ch ON b.child_id = ch.id
+     LEFT JOIN credit_packages cp ON cp.id = $3`,
+    [payment.customer_id, payment.booking_id, payment.credit_package_id],
+  );
+  const item = items[0];
+  const description = item.slot_title
+    ? [item.slot_title, item.occurrence_date, item.child_name && `(${item.child_name})`]
+        .filter(Boolean)
+        .join(' ')
+    : item.package_name
+      ? `${item.package_name} (${item.credits} classes)`
+      : 'Payment on account';
+
+  const total = cents(payment.amount);
+  const vat =
+    studio.vat_rate === null
+      ? 0
+      : Math.round((total * Number(studio.vat_rate)) / (100 + Number(studio.vat_rate)));
+  const { rows } = await client.query(
+    `INSERT INTO receipts (studio_id, payment_id, number, business_name, business_tax_id,
+                           business_address, customer_name, currency, method, lines,
+                           subtotal, vat_rate, vat_amount, total)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     RETURNING *`,
+    [
+      payment.studio_id,
+      payment.id,
+      studio.last_receipt_number,
+      studio.business_name,
+      studio.business_tax_id,
+      studio.business_address,
+      item.customer_name,
+      payment.currency,
+      payment.method,
+      JSON.stringify([
+        {
+          description: payment.note ? `${description} - ${payment.note}` : description,
+          amount: total / 100,
+        },
+      ]),
+      (total - vat) / 100,
+      studio.vat_rate,
+      vat / 100,
+      total / 100,
+    ],
+  );
+  return rows[0];
+}
+
+/**
+ * A payment's receipt with its issue date in the studio timezone, or null when the payment
+ * has none (refunds, and payments recorded before receipts were issued).
+ */
+export async function getReceipt(
+  client: DbClient,
+  paymentId: string,
+): Promise<IssuedReceipt | null> {
+  const { rows } = await client.query(
+    `SELECT r.*, to_char(r.issued_at AT TIME ZONE st.timezone, 'YYYY-MM-DD') as issued_on
+     FROM receipts r
+     JOIN studios st ON r.studio_id = st.id
+     WHERE r.payment_id = $1`,
+    [paymentId],
+  );
+  return rows[0] ?? null;
+}
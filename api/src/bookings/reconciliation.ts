@@ -0,0 +1,328 @@
+import type { DbClient } from '../db';
+import { formatDate, fromZoned, parseDate } from '../scheduling/timezone';
+import type { PaymentMethod } from '../types';
+
+// An incoming transaction read from a bank, bit or paybox export
+export interface StatementRow {
+  line: number; // 1-based line in the file
+  date: string | null; // YYYY-MM-DD
+  amount: number | null;
+  payer_name: string | null;
+  payer_phone: string | null;
+  reference: string | null;
+  error?: string; // Why the row cannot be matched
+}
+
+export interface MatchCandidate {
+  booking_id: string | null; // null: a payment on account for the customer
+  customer_id: string;
+  customer_name: string;
+  slot_title: string | null;
+  occurrence_date: string | null;
+  outstanding: number | null;
+  score: number;
+  reasons: ('amount' | 'phone' | 'name' | 'date')[];
+}
+
+export interface Suggestion {
+  row: StatementRow;
+  received_at: string | null; // Noon on the transaction date in the studio timezone
+  already_recorded: boolean; // The reference was imported before
+  match: MatchCandidate | null;
+  confidence: 'high' | 'medium' | 'low' | null;
+  alternatives: MatchCandidate[];
+}
+
+// Header names used by common Israeli bank, bit and paybox exports
+const columnAliases: Record<'date' | 'amount' | 'name' | 'phone' | 'reference', string[]> = {
+  date: ['date', 'transaction date', 'value date', 'תאריך', 'תאריך ערך', 'תאריך עסקה'],
+  amount: ['amount', 'credit', 'sum', 'סכום', 'זכות', 'סכום העסקה', 'סכום בש"ח'],
+  name: ['name', 'payer', 'payer name', 'from', 'sender', 'שם', 'שם המשלם', 'שם השולח', 'מאת'],
+  phone: ['phone', 'mobile', 'phone number', 'טלפון', 'נייד', 'מספר טלפון'],
+  reference: ['reference', 'ref', 'transaction id', 'אסמכתא', 'מספר אסמכתא', 'מזהה עסקה'],
+};
+
+// Split CSV text into rows of fields, with quoted fields and "" escapes
+function splitCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows;
+}
+
+// Day-first dates as exported in Israel (31/01/2025, 31.01.25) or ISO dates
+function parseStatementDate(value: string): string | null {
+  if (parseDate(value)) return value;
+  const match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (!match) return null;
+  const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+  const date = formatDate(year, parseInt(match[2], 10), parseInt(match[1], 10));
+  return parseDate(date) ? date : null;
+}
+
+function parseAmount(value: string): number | null {
+  const cleaned = value.replace(/[^\d.,-]/g, '').replace(/,(?=\d{3}(\D|$))/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned.replace(',', '.'))) return null;
+  return Math.round(Number(cleaned.replace(',', '.')) * 100) / 100;
+}
+
+// Israeli numbers in local form (0501234567), from +972 / 972 prefixed ones too
+function normalizePhone(value: string | null | undefined): string | null {
+  const digits = (value ?? '').replace(/\D/g, '');
+  const local = digits.startsWith('972') ? `0${digits.slice(3)}` : digits;
+  return local.length >= 9 ? local : null;
+}
+
+/**
+ * Read the incoming transactions of a statement export. The header row is found by its
+ * date and amount columns (banks put account details above it); rows that are not
+ * incoming payments are returned with an error.
+ */
+export function parseStatementCsv(text: string): { rows: StatementRow[] } | { error: string } {
+  const lines = splitCsv(text.replace(/^\uFEFF/, ''));
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+  const headerIndex = lines.findIndex((fields) => {
+    const names = fields.map(normalize);
+    return (
+      names.some((name) => columnAliases.date.includes(name)) &&
+      names.some((name) => columnAliases.amount.includes(name))
+    );
+  });
+  if (headerIndex === -1) {
+    return { error: 'No header row with date and amount columns found' };
+  }
+  const headers = lines[headerIndex].map(normalize);
+  const column = (key: keyof typeof columnAliases) =>
+    headers.findIndex((name) => columnAliases[key].includes(name));
+  const columns = {
+    date: column('date'),
+    amount: column('amount'),
+    name: column('name'),
+    phone: column('phone'),
+    reference: column('reference'),
+  };
+
+  const rows: StatementRow[] = [];
+  lines.slice(headerIndex + 1).forEach((fields, i) => {
+    if (fields.every((field) => !field.trim())) return;
+    const value = (index: number) => (index === -1 ? '' : (fields[index] ?? '').trim());
+    const row: StatementRow = {
+      line: headerIndex + i + 2,
+      date: parseStatementDate(value(columns.date)),
+      amount: parseAmount(value(columns.amount)),
+      payer_name: value(columns.name) || null,
+      payer_phone: normalizePhone(value(columns.phone)),
+      reference: value(columns.reference) || null,
+    };
+    if (!row.date) row.error = 'Invalid date';
+    else if (row.amount === null) row.error = 'Invalid amount';
+    else if (row.amount <= 0) row.error = 'Not an incoming payment';
+    rows.push(row);
+  });
+  return { rows };
+}
+
+function nameTokens(value: string | null): string[] {
+  return (value ?? '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= 2);
+}
+
+// Whether two names share a word, allowing one typo in longer words
+function namesMatch(a: string[], b: string[]): boolean {
+  return a.some((x) => b.some((y) => x === y || (x.length >= 4 && withinOneEdit(x, y))));
+}
+
+function withinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86400000;
+}
+
+/**
+ * Suggest what each statement row pays for. Candidates are the studio's unpaid charged
+ * bookings in its currency and, as payments on account, its customers; a candidate needs
+ * the payer's phone or name to match its customer, or the amount to match what a booking
+ * owes. Scores add up: amount 40, phone 40, name 20, occurrence within 30 days 10. Each
+ * booking is suggested for one row only, best scores first.
+ */
+export async function suggestMatches(
+  client: DbClient,
+  studioId: string,
+  method: PaymentMethod,
+  rows: StatementRow[],
+): Promise<Suggestion[]> {
+  const { rows: studios } = await client.query('SELECT timezone FROM studios WHERE id = $1', [
+    studioId,
+  ]);
+  const timezone: string = studios[0].timezone;
+  const { rows: customers } = await client.query(
+    `SELECT c.id, c.first_name, c.contact_phone,
+            COALESCE(array_agg(ch.first_name) FILTER (WHERE ch.id IS NOT NULL), '{}') as children
+     FROM customers c
+     LEFT JOIN children ch ON ch.customer_id = c.id
+     WHERE c.studio_id = $1
+     GROUP BY c.id`,
+    [studioId],
+  );
+  const { rows: bookings } = await client.query(
+    `SELECT b.id, COALESCE(b.customer_id, ch.customer_id) as customer_id, s.title as slot_title,
+            b.occurrence_date, b.price - b.amount_paid as outstanding
+     FROM bookings b
+     JOIN slots s ON b.slot_id = s.id
+     JOIN studios st ON s.studio_id = st.id
+     LEFT JOIN children ch ON b.child_id = ch.id
+     WHERE s.studio_id = $1
+       AND b.currency = st.currency
+       AND NOT b.covered
+       AND b.price > b.amount_paid
+       AND (b.status IN ('CONFIRMED', 'ATTENDED', 'NO_SHOW')
+            OR (b.status = 'CANCELLED' AND b.late_cancellation_charged))
+     ORDER BY b.occurrence_date, b.created_at, b.id`,
+    [studioId],
+  );
+  const references = rows.map((row) => row.reference).filter(Boolean);
+  const { rows: recorded } = await client.query(
+    `SELECT reference FROM payments
+     WHERE studio_id = $1 AND method = $2 AND reference = ANY($3::text[])`,
+    [studioId, method, references],
+  );
+  const recordedReferences = new Set(recorded.map((payment) => payment.reference));
+
+  const identities = new Map<string, { phone: boolean; name: boolean }>();
+  const candidatesByRow = rows.map((row, index) => {
+    if (row.error || (row.reference && recordedReferences.has(row.reference))) return [];
+    const payerTokens = nameTokens(row.payer_name);
+    const candidates: MatchCandidate[] = [];
+    for (const customer of customers) {
+      const phone = !!row.payer_phone && normalizePhone(customer.contact_phone) === row.payer_phone;
+      const name = namesMatch(payerTokens, [
+        ...nameTokens(customer.first_name),
+        ...customer.children.flatMap((child: string) => nameTokens(child)),
+      ]);
+      identities.set(`${index}:${customer.id}`, { phone, name });
+      if (phone || name) {
+        candidates.push({
+          booking_id: null,
+          customer_id: customer.id,
+          customer_name: customer.first_name,
+          slot_title: null,
+          occurrence_date: null,
+          outstanding: null,
+          score: (phone ? 40 : 0) + (name ? 20 : 0),
+          reasons: [...(phone ? ['phone' as const] : []), ...(name ? ['name' as const] : [])],
+        });
+      }
+    }
+    for (const booking of bookings) {
+      const identity = identities.get(`${index}:${booking.customer_id}`);
+      const amount = Number(booking.outstanding) === row.amount;
+      if (!amount && !identity?.phone && !identity?.name) continue;
+      const near = daysBetween(booking.occurrence_date, row.date as string) <= 30;
+      const reasons: MatchCandidate['reasons'] = [
+        ...(amount ? ['amount' as const] : []),
+        ...(identity?.phone ? ['phone' as const] : []),
+        ...(identity?.name ? ['name' as const] : []),
+        ...(near ? ['date' as const] : []),
+      ];
+      candidates.push({
+        booking_id: booking.id,
+        customer_id: booking.customer_id,
+        customer_name: customers.find((customer) => customer.id === booking.customer_id)
+          ?.first_name,
+        slot_title: booking.slot_title,
+        occurrence_date: booking.occurrence_date,
+        outstanding: Number(booking.outstanding),
+        score:
+          (amount ? 40 : 0) +
+          (identity?.phone ? 40 : 0) +
+          (identity?.name ? 20 : 0) +
+          (near ? 10 : 0),
+        reasons,
+      });
+    }
+    return candidates.sort((a, b) => b.score - a.score);
+  });
+
+  // Best pairs first; a booking already suggested for another row is skipped
+  const matches = new Map<number, MatchCandidate>();
+  const taken = new Set<string>();
+  candidatesByRow
+    .flatMap((candidates, index) => candidates.map((candidate) => ({ index, candidate })))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.index - b.index)
+    .forEach(({ index, candidate }) => {
+      if (matches.has(index)) return;
+      if (candidate.booking_id && taken.has(candidate.booking_id)) return;
+      matches.set(index, candidate);
+      if (candidate.booking_id) taken.add(candidate.booking_id);
+    });
+
+  return rows.map((row, index) => {
+    const match = matches.get(index) ?? null;
+    const date = row.date ? parseDate(row.date) : null;
+    return {
+      row,
+      received_at: date
+        ? fromZoned({ ...date, hour: 12, minute: 0, second: 0 }, timezone).toISOString()
+        : null,
+      already_recorded: !!row.reference && recordedReferences.has(row.reference),
+      match,
+      confidence: match
+        ? match.score >= 80
+          ? 'high'
+          : match.score >= 60
+            ? 'medium'
+            : 'low'
+        : null,
+      alternatives: candidatesByRow[index].filter((candidate) => candidate !== match).slice(0, 3),
+    };
+  });
+}
@@ -0,0 +1,146 @@
+import { withTransaction } from '../db';
+import { resolveOccurrence } from '../scheduling/occurrences';
+import { countSeatsTaken, promoteWaitlist } from './capacity';
+import { coverBooking, coverageDetails, releaseCoverage } from './coverage';
+import { settleBooking } from './payments';
+import { priceBooking } from './pricing';
+import { recordBookingEvent } from './events';
+import type { Booking, BookingActor } from '../types';
+
+export interface RescheduleTarget {
+  slotId: string;
+  occurrenceDate?: string; // Required for recurring slots
+}
+
+export type RescheduleResult =
+  | { booking: Booking; promoted: Booking[] }
+  | { error: string; status: 400 | 404 | 409 };
+
+/**
+ * Move a confirmed booking to another occurrence of the same studio, keeping the booking
+ * itself, and with it its payments and history. The target must suit the booking (children's
+ * classes only for child bookings), must not have started and needs a free seat after its own
+ * waitlist is served. The booking is priced again for the target, keeping its coupon, and the
+ * membership or credit covering it is given back and looked up again, which may leave the
+ * booking to be paid. The freed seat goes to the old occurrence's waitlist.
+ */
+export async function rescheduleBooking(
+  bookingId: string,
+  target: RescheduleTarget,
+  actor: BookingActor,
+): Promise<RescheduleResult> {
+  return withTransaction(async (client) => {
+    const { rows: found } = await client.query('SELECT slot_id FROM bookings WHERE id = $1', [
+      bookingId,
+    ]);
+    if (found.length === 0) return { error: 'Booking not found', status: 404 };
+
+    // Both slots before the booking, in id order so opposite moves cannot deadlock
+    await client.query('SELECT id FROM slots WHERE id = ANY($1::uuid[]) ORDER BY id FOR UPDATE', [
+      [found[0].slot_id, target.slotId],
+    ]);
+    const { rows: locked } = await client.query(
+      `SELECT b.*, s.studio_id FROM bookings b
+       JOIN slots s ON b.slot_id = s.id
+       WHERE b.id = $1
+       FOR UPDATE OF b`,
+      [bookingId],
+    );
+    const current = locked[0];
+    if (!current) return { error: 'Booking not found', status: 404 };
+    if (current.slot_id !== found[0].slot_id) {
+      return { error: 'Booking was changed concurrently, please retry', status: 409 };
+    }
+    if (current.status !== 'CONFIRMED') {
+      return { error: `Cannot reschedule a ${current.status} booking`, status: 409 };
+    }
+
+    const { rows: targets } = await client.query(
+      `SELECT s.*, st.timezone
+       FROM slots s
+       JOIN studios st ON s.studio_id = st.id
+       WHERE s.id = $1 AND s.active = true`,
+      [target.slotId],
+    );
+    const slot = targets[0];
+    if (!slot) return { error: 'Target slot not found or not active', status: 404 };
+    if (slot.studio_id !== current.studio_id) {
+      return { error: 'Target slot belongs to another studio', status: 400 };
+    }
+    if (slot.for_children && !current.child_id) {
+      return { error: 'Target slot requires a child booking', status: 400 };
+    }
+    if (!slot.for_children && current.child_id) {
+      return { error: 'Target slot is not for children', status: 400 };
+    }
+
+    const resolved = await resolveOccurrence(client, slot, slot.timezone, target.occurrenceDate);
+    if ('error' in resolved) return { error: resolved.error, status: 400 };
+    const occurrence = resolved.occurrence;
+    if (slot.id === current.slot_id && occurrence.date === current.occurrence_date) {
+      return { error: 'Booking is already in this occurrence', status: 409 };
+    }
+    if (occurrence.startsAt <= new Date()) {
+      return { error: 'Cannot reschedule to a class that has already started', status: 409 };
+    }
+
+    // The target's waitlist is served first, as with a new booking
+    await promoteWaitlist(client, slot.id, occurrence.date);
+    const taken = await countSeatsTaken(client, slot.id, occurrence.date);
+    if (taken >= occurrence.maxParticipants) {
+      return { error: 'Slot capacity reached. Cannot reschedule booking.', status: 409 };
+    }
+
+    const { rows: coupons } = await client.query('SELECT code FROM coupons WHERE id = $1', [
+      current.coupon_id,
+    ]);
+    const price = await priceBooking(client, {
+      slotId: slot.id,
+      occurrenceDate: occurrence.date,
+      customerId: current.customer_id,
+      childId: current.child_id,
+      listPrice: occurrence.price,
+      couponCode: coupons[0]?.code,
+      bookingId,
+    });
+    if ('error' in price) return price;
+
+    // Coverage depends on the date: membership ranges and weeks, credit package expiry
+    const released = await releaseCoverage(client, bookingId);
+    await client.query(
+      `UPDATE bookings
+       SET slot_id = $1, occurrence_date = $2,
+           list_price = $3, price = $4, price_rule = $5, coupon_id = $6
+       WHERE id = $7`,
+      [
+        slot.id,
+        occurrence.date,
+        price.list_price,
+        price.price,
+        price.price_rule,
+        price.coupon_id,
+        bookingId,
+      ],
+    );
+    const coverage = await coverBooking(client, bookingId, occurrence.startsAt);
+    const booking = await settleBooking(client, bookingId);
+    await recordBookingEvent(client, {
+      bookingId,
+      type: 'RESCHEDULED',
+      fromStatus: current.status,
+      toStatus: current.status,
+      actor,
+      details: {
+        from_slot_id: current.slot_id,
+        from_occurrence_date: current.occurrence_date,
+        to_slot_id: slot.id,
+        to_occurrence_date: occurrence.date,
+        ...coverageDetails(released, true),
+        ...coverageDetails(coverage),
+      },
+    });
+
+    const promoted = await promoteWaitlist(client, current.slot_id, current.occurrence_date);
+    return { booking, promoted };
+  });
+}
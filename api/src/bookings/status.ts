@@ -0,0 +1,25 @@
+import type { BookingStatus } from '../types';
+
+// Allowed booking status transitions. Guards that need the database or the clock
+// (capacity, class start time) are applied by changeBookingStatus.
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  WAITLISTED: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['CANCELLED', 'ATTENDED', 'NO_SHOW'],
+  ATTENDED: ['NO_SHOW', 'CONFIRMED'], // Correct a mistaken check-in
+  NO_SHOW: ['ATTENDED', 'CONFIRMED'], // Correct a mistaken no-show
+  CANCELLED: ['CONFIRMED'], // Un-cancel, only while a seat is free
+};
+
+// Statuses that do not hold a seat
+export const SEATLESS_STATUSES: BookingStatus[] = ['CANCELLED', 'WAITLISTED'];
+
+// Statuses recorded by checking in, only once the class has started
+export const ATTENDANCE_STATUSES: BookingStatus[] = ['ATTENDED', 'NO_SHOW'];
+
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function holdsSeat(status: BookingStatus): boolean {
+  return !SEATLESS_STATUSES.includes(status);
+}
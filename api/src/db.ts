@@ -1,6 +1,10 @@
-import { Pool, PoolClient } from 'pg';
+import { Pool, PoolClient, types } from 'pg';
 import 'dotenv/config';
 
+// Keep DATE columns (e.g. bookings.occurrence_date) as plain YYYY-MM-DD strings;
+// the default parser turns them into a Date at local midnight of the server.
+types.setTypeParser(types.builtins.DATE, (value: string) => value);
+
 // Load test environment if in test mode
 if (process.env.NODE_ENV === 'test') {
   import('dotenv').then((dotenv) => dotenv.config({ path: '.env.test' }));
@@ -25,6 +29,9 @@ export const db = new Pool({
   connectionTimeoutMillis: 2000,
 });
 
+// Either the shared pool or a checked-out client (e.g. the test transaction client)
+export type DbClient = Pool | PoolClient;
+
 // Track if pool is already ended to prevent double-close
 let isPoolEnded = false;
 
@@ -59,6 +66,47 @@ export function getDbClient() {
   return db;
 }
 
+let savepointQueue: Promise<unknown> = Promise.resolve();
+let savepointCounter = 0;
+
+/**
+ * Run fn inside a database transaction, committing on success and rolling back on error.
+ * In tests the shared transaction client is used with a savepoint instead; calls are queued
+ * because savepoints on a single connection cannot interleave.
+ */
+export async function withTransaction<T>(fn: (client: DbClient) => Promise<T>): Promise<T> {
+  if (process.env.NODE_ENV === 'test' && testTransactionClient) {
+    const client = testTransactionClient;
+    const run = savepointQueue.then(async () => {
+      const savepoint = `tx_${++savepointCounter}`;
+      await client.query(`SAVEPOINT ${savepoint}`);
+      try {
+        const result = await fn(client);
+        await client.query(`RELEASE SAVEPOINT ${savepoint}`);
+        return result;
+      } catch (error) {
+        await client.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+        throw error;
+      }
+    });
+    savepointQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 // Graceful shutdown (only for non-test environments)
 if (process.env.NODE_ENV !== 'test') {
   process.on('SIGINT', async () => {
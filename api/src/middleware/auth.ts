@@ -1,6 +1,8 @@
 import { Response, NextFunction } from 'express';
 import type { AuthenticatedRequest } from '../types';
 import { verifyAccessToken } from '../auth/jwt';
+import { hasPermission } from '../auth/permissions';
+import type { Permission } from '../auth/permissions';
 
 // Simple API key authentication middleware
 // In production, you'd want to use JWT tokens or OAuth
@@ -46,22 +48,73 @@ export function requireStudioAccess(req: AuthenticatedRequest, res: Response, ne
   next();
 }
 
-// Ensure the current user is an owner/manager of the studio in params
-export function requireStudioOwner() {
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Continue when the user's role in the studio grants the permission, with the studio in
+// req.studioId; the 403 names the permission otherwise
+async function checkStudioPermission(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  studioId: string,
+  permission: Permission,
+) {
+  const { getDbClient } = await import('../db');
+  const q = await getDbClient().query(
+    'select role from studio_owners where studio_id=$1 and user_id=$2 limit 1',
+    [studioId, req.user?.userId],
+  );
+  if (q.rowCount === 0 || !hasPermission(q.rows[0].role, permission)) {
+    return res.status(403).json({ error: 'forbidden', permission });
+  }
+  req.studioId = studioId;
+  return next();
+}
+
+// Ensure the current user's role in the studio in params grants the permission
+export function requireStudioPermission(permission: Permission) {
   return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const studioId = req.params.studioId;
-      if (!studioId || !req.user) return res.status(403).json({ error: 'forbidden' });
+      if (!studioId || !req.user || !UUID_RE.test(studioId)) {
+        return res.status(403).json({ error: 'forbidden', permission });
+      }
+      return await checkStudioPermission(req, res, next, studioId, permission);
+    } catch {
+      return res.status(403).json({ error: 'forbidden', permission });
+    }
+  };
+}
+
+// The studio a resource belongs to, by resource id
+const studioLookups = {
+  studio: 'SELECT id as studio_id FROM studios WHERE id = $1',
+  slot: 'SELECT studio_id FROM slots WHERE id = $1',
+  customer: 'SELECT studio_id FROM customers WHERE id = $1',
+  child: `SELECT c.studio_id FROM children ch JOIN customers c ON ch.customer_id = c.id
+          WHERE ch.id = $1`,
+  booking: 'SELECT s.studio_id FROM bookings b JOIN slots s ON b.slot_id = s.id WHERE b.id = $1',
+  payment: 'SELECT studio_id FROM payments WHERE id = $1',
+};
+
+// Like requireStudioPermission for routes without :studioId, using the studio the resource
+// belongs to. A missing, malformed or unknown id is left to the route to report (400/404).
+export function requireResourcePermission(
+  permission: Permission,
+  resource: keyof typeof studioLookups,
+  idOf: (req: AuthenticatedRequest) => unknown,
+) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) return res.status(403).json({ error: 'forbidden', permission });
+      const id = idOf(req);
+      if (typeof id !== 'string' || !UUID_RE.test(id)) return next();
       const { getDbClient } = await import('../db');
-      const client = getDbClient();
-      const q = await client.query(
-        'select 1 from studio_owners where studio_id=$1 and user_id=$2 limit 1',
-        [studioId, req.user.userId],
-      );
-      if (q.rowCount === 0) return res.status(403).json({ error: 'forbidden' });
-      return next();
+      const found = await getDbClient().query(studioLookups[resource], [id]);
+      if (found.rowCount === 0) return next();
+      return await checkStudioPermission(req, res, next, found.rows[0].studio_id, permission);
     } catch {
-      return res.status(403).json({ error: 'forbidden' });
+      return res.status(403).json({ error: 'forbidden', permission });
     }
   };
 }
@@ -140,7 +193,8 @@ export function requestLogger(req: AuthenticatedRequest, res: Response, next: Ne
   next();
 }
 
-// Verify our first-party JWT access token, set req.user
+// Verify our first-party JWT access token, set req.user. Tokens issued for a session that
+// has since been signed out are rejected.
 export function requireUser() {
   return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -148,7 +202,13 @@ export function requireUser() {
       const token = header.startsWith('Bearer ') ? header.slice(7) : '';
       if (!token) return res.status(401).json({ error: 'unauthorized' });
       const claims = await verifyAccessToken(token);
-      req.user = { userId: claims.userId, isAdmin: claims.isAdmin };
+      if (claims.sessionId) {
+        const { isSessionActive } = await import('../auth/sessions');
+        if (!(await isSessionActive(claims.sessionId))) {
+          return res.status(401).json({ error: 'session revoked' });
+        }
+      }
+      req.user = { userId: claims.userId, isAdmin: claims.isAdmin, sessionId: claims.sessionId };
       return next();
     } catch {
       return res.status(401).json({ error: 'unauthorized' });
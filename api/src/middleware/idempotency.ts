@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import { Response, NextFunction } from 'express';
+import type { AuthenticatedRequest } from '../types';
+import { getDbClient } from '../db';
+
+/**
+ * Make a write safe to retry: a request sent with an Idempotency-Key header stores its
+ * response, and a retry with the same key (within 24 hours) gets that response replayed
+ * instead of writing again. Keys are scoped to the signed-in user and the studio checked by
+ * the permission middleware before this one. Only successful responses are stored, so a
+ * request that failed, or was rejected and corrected, can be retried with the same key. A key
+ * whose request has not finished within a minute is taken to be abandoned (e.g. its process
+ * died) and can be claimed anew.
+ */
+export function idempotent() {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const key = req.get('Idempotency-Key');
+    if (key === undefined) return next();
+    if (key.length === 0 || key.length > 255) {
+      return res.status(400).json({ error: 'Idempotency-Key must be 1-255 characters' });
+    }
+
+    try {
+      const client = getDbClient();
+      const scope = req.user ? `${req.user.userId}:${req.studioId ?? ''}` : '';
+      const path = req.originalUrl.split('?')[0];
+      const requestHash = createHash('sha256')
+        .update(JSON.stringify(req.body ?? null))
+        .digest('hex');
+
+      // Claim the key; an expired or abandoned one is claimed anew
+      const { rows: claimed } = await client.query(
+        `INSERT INTO idempotency_keys (scope, key, method, path, request_hash)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (scope, key, method, path) DO UPDATE
+           SET request_hash = excluded.request_hash, status_code = NULL,
+               response_body = NULL, created_at = now()
+           WHERE idempotency_keys.created_at < now() - interval '24 hours'
+              OR (idempotency_keys.status_code IS NULL
+                  AND idempotency_keys.created_at < now() - interval '1 minute')
+         RETURNING id`,
+        [scope, key, req.method, path, requestHash],
+      );
+
+      if (claimed.length === 0) {
+        const { rows } = await client.query(
+          `SELECT request_hash, status_code, response_body FROM idempotency_keys
+           WHERE scope = $1 AND key = $2 AND method = $3 AND path = $4`,
+          [scope, key, req.method, path],
+        );
+        const previous = rows[0];
+        if (previous.request_hash !== requestHash) {
+          return res
+            .status(422)
+            .json({ error: 'Idempotency-Key was already used with a different request' });
+        }
+        if (previous.status_code === null) {
+          return res
+            .status(409)
+            .json({ error: 'A request with this Idempotency-Key is still in progress' });
+        }
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(previous.status_code).json(previous.response_body);
+      }
+
+      const id = claimed[0].id;
+      let stored = false;
+      const send = res.json.bind(res);
+      // Store the response before sending it, so a retry never misses it
+      res.json = (body: unknown) => {
+        if (res.statusCode < 200 || res.statusCode >= 300) return send(body);
+        stored = true;
+        client
+          .query('UPDATE idempotency_keys SET status_code = $1, response_body = $2 WHERE id = $3', [
+            res.statusCode,
+            JSON.stringify(body),
+            id,
+          ])
+          .then(
+            () => send(body),
+            (error) => {
+              console.error('Error storing idempotent response:', error);
+              send(body);
+            },
+          );
+        return res;
+      };
+      // Release the key when nothing was stored (an error or a dropped connection)
+      res.on('close', () => {
+        if (stored) return;
+        client.query('DELETE FROM idempotency_keys WHERE id = $1', [id]).catch((error) => {
+          console.error('Error releasing idempotency key:', error);
+        });
+      });
+      next();
+    } catch (error) {
+      console.error('Error checking idempotency key:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
@@ -0,0 +1,51 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { PaymentProvider } from './provider';
+
+// Webhook body sent by the mock provider
+export interface MockWebhookBody {
+  id: string;
+  status: 'succeeded' | 'failed';
+  amount: number;
+  currency: string;
+  paid_at: string;
+}
+
+function secret(): string {
+  return process.env.MOCK_PAYMENT_SECRET || 'mock-payment-secret';
+}
+
+// Signature the mock provider puts in the x-mock-signature header of its webhooks
+export function signMockWebhook(rawBody: string | Buffer): string {
+  return createHmac('sha256', secret()).update(rawBody).digest('hex');
+}
+
+/**
+ * A local stand-in for a payment provider, for development and tests. Its payment pages
+ * are served by this API (GET /webhooks/payments/mock/checkout/:ref), which pays at once
+ * and reports it through a signed webhook like a real provider would.
+ */
+export function createMockProvider(): PaymentProvider {
+  return {
+    name: 'mock',
+    async createPaymentLink() {
+      const providerRef = `mock_${randomUUID()}`;
+      const baseUrl = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`;
+      return { providerRef, url: `${baseUrl}/webhooks/payments/mock/checkout/${providerRef}` };
+    },
+    parseWebhook(rawBody, headers) {
+      const signature = Buffer.from(String(headers['x-mock-signature'] ?? ''));
+      const expected = Buffer.from(signMockWebhook(rawBody));
+      if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+        return null;
+      }
+      const body: MockWebhookBody = JSON.parse(rawBody.toString('utf8'));
+      return {
+        providerRef: body.id,
+        status: body.status,
+        amount: body.amount,
+        currency: body.currency,
+        paidAt: new Date(body.paid_at),
+      };
+    },
+  };
+}
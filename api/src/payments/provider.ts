@@ -0,0 +1,52 @@
+import type { IncomingHttpHeaders } from 'http';
+import { createMockProvider } from './mock';
+
+export interface PaymentLinkRequest {
+  reference: string; // Our payment link id, echoed back by the provider
+  amount: number;
+  currency: string;
+  description: string;
+  customerName: string | null;
+  customerEmail: string | null;
+}
+
+export interface CreatedPaymentLink {
+  providerRef: string; // The provider's id for the payment
+  url: string; // Where the customer pays
+}
+
+// A payment outcome reported by a provider's webhook
+export interface PaymentWebhookEvent {
+  providerRef: string;
+  status: 'succeeded' | 'failed';
+  amount: number;
+  currency: string;
+  paidAt: Date;
+}
+
+/**
+ * An online payment provider: creates hosted payment pages and reports their outcome to
+ * POST /webhooks/payments/:provider.
+ */
+export interface PaymentProvider {
+  name: string;
+  createPaymentLink(request: PaymentLinkRequest): Promise<CreatedPaymentLink>;
+  // The event in a webhook request, or null when its signature does not verify
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null;
+}
+
+const providers: Record<string, () => PaymentProvider> = {
+  mock: createMockProvider,
+};
+
+/**
+ * The provider with the given name, or the configured one (PAYMENT_PROVIDER). Outside
+ * production the mock provider is used when none is configured; null when online payments
+ * are not available.
+ */
+export function getPaymentProvider(name?: string): PaymentProvider | null {
+  const configured =
+    process.env.PAYMENT_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'mock');
+  if (!configured || (name && name !== configured)) return null;
+  return providers[configured]?.() ?? null;
+}
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { getDbClient } from '../db';
 import { requireUser, requireAdmin } from '../middleware/auth';
-import type { BookingStatsRow, PopularStudioRow } from '../types';
+import type { BookingStatsRow, PopularStudioRow, RevenueRow } from '../types';
 
 const router = Router();
 
@@ -41,15 +41,18 @@ router.get('/metrics', async (req, res) => {
       GROUP BY status
     `);
 
-    // Get revenue metrics (last 30 days)
+    // Get revenue metrics (last 30 days of the payment ledger, net of refunds), per currency
+    // since studios charge in different currencies
     const revenueResult = await client.query(`
       SELECT 
-        SUM(s.price) as total_revenue,
-        COUNT(b.id) as paid_bookings
-      FROM bookings b
-      JOIN slots s ON b.slot_id = s.id
-      WHERE b.paid = true 
-        AND b.paid_at >= NOW() - INTERVAL '30 days'
+        p.currency,
+        SUM(p.amount) as total_revenue,
+        COUNT(DISTINCT p.booking_id) FILTER (WHERE b.paid) as paid_bookings
+      FROM payments p
+      LEFT JOIN bookings b ON p.booking_id = b.id
+      WHERE p.received_at >= NOW() - INTERVAL '30 days'
+      GROUP BY p.currency
+      ORDER BY p.currency
     `);
 
     // Get most popular studios
@@ -90,11 +93,12 @@ router.get('/metrics', async (req, res) => {
         paid_count: parseInt(row.paid_count),
       })),
 
-      // Revenue (last 30 days)
-      revenue_last_30_days: {
-        total: parseFloat(revenueResult.rows[0].total_revenue || '0'),
-        paid_bookings: parseInt(revenueResult.rows[0].paid_bookings || '0'),
-      },
+      // Revenue (last 30 days) by currency
+      revenue_last_30_days: revenueResult.rows.map((row: RevenueRow) => ({
+        currency: row.currency,
+        total: parseFloat(row.total_revenue),
+        paid_bookings: parseInt(row.paid_bookings),
+      })),
 
       // Popular studios
       popular_studios: popularStudiosResult.rows.map((row: PopularStudioRow) => ({
@@ -1,9 +1,22 @@
 import { Router } from 'express';
-import type { Response } from 'express';
+import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { verifyGoogleIdToken as realVerify } from '../auth/google';
 import { upsertUserFromGoogle } from '../auth/service';
+import type { User } from '../auth/service';
 import { signAccessToken } from '../auth/jwt';
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  listSessions,
+  revokeSessionById,
+  revokeAllSessions,
+  REFRESH_TOKEN_DAYS,
+} from '../auth/sessions';
+import type { IssuedSession, SessionDevice } from '../auth/sessions';
+import { requireUser, requireAdmin } from '../middleware/auth';
+import type { AuthenticatedRequest } from '../types';
 
 const schema = z.object({ idToken: z.string().min(10) });
 
@@ -11,6 +24,52 @@ export interface AuthDeps {
   verifyGoogleIdToken: typeof realVerify;
 }
 
+const REFRESH_COOKIE = 'refresh_token';
+const refreshCookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: 'none' as const,
+};
+
+// The refresh token from the request's cookies (no cookie parser is installed)
+function readRefreshCookie(req: Request): string | null {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === REFRESH_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function deviceOf(req: Request): SessionDevice {
+  return { userAgent: req.get('User-Agent'), ip: req.ip };
+}
+
+// Set the refresh cookie and send a new access token, tied to the session, with the user
+async function sendTokens(res: Response, user: User, { refreshToken, sessionId }: IssuedSession) {
+  const accessToken = await signAccessToken({
+    userId: user.id,
+    isAdmin: user.is_admin,
+    sessionId,
+  });
+  res.cookie(REFRESH_COOKIE, refreshToken, {
+    ...refreshCookieOptions,
+    maxAge: REFRESH_TOKEN_DAYS * 24 * 60 * 60 * 1000,
+  });
+
+  res.json({
+    accessToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatarUrl: user.avatar_url,
+      isAdmin: user.is_admin,
+    },
+  });
+}
+
 export default async function buildAuthRouter(deps?: Partial<AuthDeps>) {
   const router = Router();
   const verifyGoogleIdToken = deps?.verifyGoogleIdToken || realVerify;
@@ -25,51 +84,102 @@ export default async function buildAuthRouter(deps?: Partial<AuthDeps>) {
       const allowed = (process.env.GOOGLE_CLIENT_IDS || '').split(',').filter(Boolean);
       const profile = await verifyGoogleIdToken(idToken, allowed);
       const user = await upsertUserFromGoogle(profile);
-
-      const accessToken = await signAccessToken({
-        userId: user.id,
-        isAdmin: user.is_admin,
-      });
-      // For now, a dummy opaque refresh token; to be replaced with rotate+store if needed
-      const refreshToken = 'r.' + Buffer.from(user.id + ':' + Date.now()).toString('base64url');
-      res.cookie('refresh_token', refreshToken, {
-        httpOnly: true,
-        secure: true,
-        sameSite: 'none',
-        maxAge: 30 * 24 * 60 * 60 * 1000,
-      });
-
-      res.json({
-        accessToken,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          avatarUrl: user.avatar_url,
-          isAdmin: user.is_admin,
-        },
-      });
+      const session = await createSession(user.id, deviceOf(req));
+      await sendTokens(res, user, session);
     } catch {
       return res.status(401).json({ error: 'invalid token' });
     }
   });
 
-  // Admin-only: expose auth config for debugging
-  router.get('/config', async (req, res: Response) => {
+  // Exchange the refresh cookie for a new access token, rotating the refresh token
+  router.post('/refresh', async (req, res: Response) => {
     try {
-      const header = req.headers.authorization || '';
-      const token = header.startsWith('Bearer ') ? header.slice(7) : '';
-      if (!token) return res.status(401).json({ error: 'unauthorized' });
-      const { verifyAccessToken } = await import('../auth/jwt');
-      const claims = await verifyAccessToken(token);
-      if (!claims.isAdmin) return res.status(403).json({ error: 'forbidden' });
-
-      const audiences = (process.env.GOOGLE_CLIENT_IDS || '').split(',').filter(Boolean);
-      return res.json({ audiences });
-    } catch {
-      return res.status(401).json({ error: 'unauthorized' });
+      const refreshToken = readRefreshCookie(req);
+      if (!refreshToken) return res.status(401).json({ error: 'unauthorized' });
+
+      const result = await rotateSession(refreshToken, deviceOf(req));
+      if ('error' in result) {
+        // A concurrent refresh already set the new token; keep it
+        if (result.status !== 409) res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+        return res.status(result.status).json({ error: result.error });
+      }
+      await sendTokens(res, result.user, result);
+    } catch (error) {
+      console.error('Error refreshing session:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
   });
 
+  // Revoke the session of the refresh cookie and clear it
+  router.post('/logout', async (req, res: Response) => {
+    try {
+      const refreshToken = readRefreshCookie(req);
+      if (refreshToken) await revokeSession(refreshToken);
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+      res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+      console.error('Error logging out:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // The signed-in user's sessions; current marks the one of the access token
+  router.get('/sessions', requireUser(), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sessions = await listSessions(req.user?.userId ?? '');
+      res.json(
+        sessions.map((session) => ({
+          ...session,
+          current: session.id === req.user?.sessionId,
+        })),
+      );
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Sign out everywhere, this device included
+  router.delete('/sessions', requireUser(), async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const revoked = await revokeAllSessions(req.user?.userId ?? '');
+      res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+      res.json({ message: 'Signed out everywhere', revoked });
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Sign out one session, e.g. a shared studio tablet
+  router.delete(
+    '/sessions/:id',
+    requireUser(),
+    async (req: AuthenticatedRequest, res: Response) => {
+      try {
+        const sessionId = req.params.id;
+        if (!UUID_RE.test(sessionId)) {
+          return res.status(400).json({ error: 'Invalid session ID' });
+        }
+
+        const revoked = await revokeSessionById(req.user?.userId ?? '', sessionId);
+        if (!revoked) return res.status(404).json({ error: 'Session not found' });
+        if (sessionId === req.user?.sessionId) {
+          res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+        }
+        res.json({ message: 'Session revoked successfully' });
+      } catch (error) {
+        console.error('Error revoking session:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    },
+  );
+
+  // Admin-only: expose auth config for debugging
+  router.get('/config', requireUser(), requireAdmin(), (_req, res: Response) => {
+    const audiences = (process.env.GOOGLE_CLIENT_IDS || '').split(',').filter(Boolean);
+    res.json({ audiences });
+  });
+
   return router;
 }
@@ -1,20 +1,39 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { getDbClient } from '../db';
-import type { CreateBookingRequest } from '../types';
+import { getDbClient, withTransaction } from '../db';
+import { createBookingWithinCapacity, waitlistPosition } from '../bookings/capacity';
+import { adminActor, listBookingEvents } from '../bookings/events';
+import { applyStatusChange, changeBookingStatus } from '../bookings/lifecycle';
+import type { StatusChangeResult } from '../bookings/lifecycle';
+import { listPayments, payBooking } from '../bookings/payments';
+import { rescheduleBooking } from '../bookings/reschedule';
+import { requireUser, requireResourcePermission } from '../middleware/auth';
+import { rolesWith } from '../auth/permissions';
+import type { Permission } from '../auth/permissions';
+import { idempotent } from '../middleware/idempotency';
+import type { AuthenticatedRequest, CreateBookingRequest } from '../types';
 
 const router = Router();
 
+// Permission check against the studio of the booking in :id
+const onBooking = (permission: Permission) =>
+  requireResourcePermission(permission, 'booking', (req) => req.params.id);
+
 // Validation schema for payment update
 const updatePaymentSchema = z.object({
   paidMethod: z.enum(['cash', 'bit', 'paybox', 'transfer']),
   paidAt: z.string().datetime().optional(), // ISO 8601 datetime string
+  amount: z.number().positive().max(99999999).optional(), // Defaults to the outstanding amount
 });
 
 // Validation schema for booking creation
 const createBookingSchema = z
   .object({
     slotId: z.string().uuid(),
+    occurrenceDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'occurrenceDate must be YYYY-MM-DD')
+      .optional(),
     customerId: z.string().uuid().optional(),
     childId: z.string().uuid().optional(),
     childData: z
@@ -23,6 +42,8 @@ const createBookingSchema = z
         avatarKey: z.string().min(1),
       })
       .optional(),
+    waitlist: z.boolean().optional(),
+    couponCode: z.string().min(1).max(50).optional(),
   })
   .refine((data) => data.customerId || data.childId || data.childData, {
     message: 'Either customerId, childId, or childData must be provided',
@@ -30,63 +51,60 @@ const createBookingSchema = z
 
 // Validation schema for booking status update
 const updateBookingStatusSchema = z.object({
-  status: z.enum(['CONFIRMED', 'CANCELLED', 'NO_SHOW']),
+  status: z.enum(['CONFIRMED', 'CANCELLED', 'ATTENDED', 'NO_SHOW']),
 });
 
-// PATCH /bookings/:id/payment - Mark booking as paid
-router.patch('/:id/payment', async (req, res) => {
-  try {
-    const bookingId = req.params.id;
-    // Basic UUID format validation
-    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookingId)) {
-      return res.status(400).json({ error: 'Invalid booking ID' });
-    }
-
-    const { paidMethod, paidAt } = updatePaymentSchema.parse(req.body);
-
-    const client = getDbClient();
-
-    // Verify booking exists
-    const bookingCheck = await client.query('SELECT id, paid FROM bookings WHERE id = $1', [
-      bookingId,
-    ]);
-    if (bookingCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Booking not found' });
-    }
+// Validation schema for moving a booking to another occurrence
+const rescheduleBookingSchema = z.object({
+  targetSlotId: z.string().uuid(),
+  occurrenceDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'occurrenceDate must be YYYY-MM-DD')
+    .optional(),
+});
 
-    const booking = bookingCheck.rows[0];
-    if (booking.paid) {
-      return res.status(400).json({ error: 'Booking is already marked as paid' });
-    }
+// PATCH /bookings/:id/payment - Record a payment for the booking (the outstanding amount by default)
+router.patch(
+  '/:id/payment',
+  requireUser(),
+  onBooking('payments.record'),
+  idempotent(),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const bookingId = req.params.id;
+      // Basic UUID format validation
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookingId)) {
+        return res.status(400).json({ error: 'Invalid booking ID' });
+      }
 
-    // Update payment status
-    const paymentDate = paidAt ? new Date(paidAt) : new Date();
+      const { paidMethod, paidAt, amount } = updatePaymentSchema.parse(req.body);
 
-    const updateQuery = `
-      UPDATE bookings 
-      SET paid = true, paid_at = $1, paid_method = $2
-      WHERE id = $3
-      RETURNING *
-    `;
+      const result = await payBooking(
+        bookingId,
+        { amount, method: paidMethod, receivedAt: paidAt ? new Date(paidAt) : undefined },
+        req.user?.userId ?? null,
+      );
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
 
-    const { rows } = await client.query(updateQuery, [paymentDate, paidMethod, bookingId]);
+      res.json({ ...result.booking, payment: result.payment, receipt: result.receipt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
 
-    res.json(rows[0]);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation failed',
-        details: error.issues,
-      });
+      console.error('Error updating payment:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
-
-    console.error('Error updating payment:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+  },
+);
 
 // GET /bookings/:id - Get booking details (for debugging/admin)
-router.get('/:id', async (req, res) => {
+router.get('/:id', requireUser(), onBooking('bookings.view'), async (req, res) => {
   try {
     const bookingId = req.params.id;
     // Basic UUID format validation
@@ -98,9 +116,9 @@ router.get('/:id', async (req, res) => {
       SELECT 
         b.*,
         s.title as slot_title,
+        s.studio_id,
         s.starts_at,
         s.duration_min,
-        s.price,
         c.first_name as customer_name,
         c.contact_email,
         c.contact_phone,
@@ -119,211 +137,253 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Booking not found' });
     }
 
-    res.json(rows[0]);
+    const booking = {
+      ...rows[0],
+      payments: await listPayments(client, rows[0].studio_id, { bookingId }),
+    };
+    if (booking.status === 'WAITLISTED') {
+      return res.json({ ...booking, waitlist_position: await waitlistPosition(client, bookingId) });
+    }
+    res.json(booking);
   } catch (error) {
     console.error('Error fetching booking:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// POST /bookings - Create a new booking (admin/direct booking)
-router.post('/', async (req, res) => {
+// GET /bookings/:id/history - Creation and status changes of a booking, oldest first
+router.get('/:id/history', requireUser(), onBooking('bookings.view'), async (req, res) => {
   try {
-    const { slotId, customerId, childId, childData }: CreateBookingRequest =
-      createBookingSchema.parse(req.body);
+    const bookingId = req.params.id;
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookingId)) {
+      return res.status(400).json({ error: 'Invalid booking ID' });
+    }
 
     const client = getDbClient();
-
-    // Verify slot exists and is active
-    const slotCheck = await client.query('SELECT * FROM slots WHERE id = $1 AND active = true', [
-      slotId,
+    const bookingCheck = await client.query('SELECT id, status FROM bookings WHERE id = $1', [
+      bookingId,
     ]);
-    if (slotCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Slot not found or not active' });
+    if (bookingCheck.rows.length === 0) {
+      return res.status(404).json({ error: 'Booking not found' });
     }
 
-    const slot = slotCheck.rows[0];
-    const finalCustomerId = customerId;
-    let finalChildId = childId;
+    res.json({
+      booking_id: bookingId,
+      status: bookingCheck.rows[0].status,
+      events: await listBookingEvents(client, bookingId),
+    });
+  } catch (error) {
+    console.error('Error fetching booking history:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Handle child creation if needed
-    if (!childId && childData) {
-      if (!customerId) {
-        return res.status(400).json({
-          error: 'customerId is required when creating a new child',
-        });
-      }
+// POST /bookings - Create a new booking (admin/direct booking)
+router.post(
+  '/',
+  requireUser(),
+  requireResourcePermission('bookings.manage', 'slot', (req) => req.body?.slotId),
+  idempotent(),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const {
+        slotId,
+        occurrenceDate,
+        customerId,
+        childId,
+        childData,
+        waitlist,
+        couponCode,
+      }: CreateBookingRequest = createBookingSchema.parse(req.body);
 
-      // Verify customer exists and belongs to the same studio
-      const customerCheck = await client.query(
-        'SELECT id FROM customers WHERE id = $1 AND studio_id = $2',
-        [customerId, slot.studio_id],
-      );
-      if (customerCheck.rows.length === 0) {
-        return res.status(404).json({
-          error: 'Customer not found or does not belong to this studio',
-        });
+      const client = getDbClient();
+
+      // Verify slot exists and is active
+      const slotCheck = await client.query('SELECT * FROM slots WHERE id = $1 AND active = true', [
+        slotId,
+      ]);
+      if (slotCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Slot not found or not active' });
       }
 
-      const childQuery = `
+      const slot = slotCheck.rows[0];
+
+      const finalCustomerId = customerId;
+      let finalChildId = childId;
+
+      // Handle child creation if needed
+      if (!childId && childData) {
+        if (!customerId) {
+          return res.status(400).json({
+            error: 'customerId is required when creating a new child',
+          });
+        }
+
+        // Verify customer exists and belongs to the same studio
+        const customerCheck = await client.query(
+          'SELECT id FROM customers WHERE id = $1 AND studio_id = $2',
+          [customerId, slot.studio_id],
+        );
+        if (customerCheck.rows.length === 0) {
+          return res.status(404).json({
+            error: 'Customer not found or does not belong to this studio',
+          });
+        }
+
+        const childQuery = `
         INSERT INTO children (customer_id, first_name, avatar_key)
         VALUES ($1, $2, $3)
         RETURNING id
       `;
 
-      const childResult = await client.query(childQuery, [
-        customerId,
-        childData.firstName,
-        childData.avatarKey,
-      ]);
-      finalChildId = childResult.rows[0].id;
-    }
-
-    // Validate booking type matches slot requirements
-    if (slot.for_children && !finalChildId) {
-      return res.status(400).json({
-        error: 'This slot requires a child to be specified',
-      });
-    }
+        const childResult = await client.query(childQuery, [
+          customerId,
+          childData.firstName,
+          childData.avatarKey,
+        ]);
+        finalChildId = childResult.rows[0].id;
+      }
 
-    if (!slot.for_children && finalChildId) {
-      return res.status(400).json({
-        error: 'This slot is not for children',
-      });
-    }
+      // Validate booking type matches slot requirements
+      if (slot.for_children && !finalChildId) {
+        return res.status(400).json({
+          error: 'This slot requires a child to be specified',
+        });
+      }
 
-    // Verify customer/child belongs to the same studio as the slot
-    if (finalCustomerId) {
-      const customerCheck = await client.query(
-        'SELECT id FROM customers WHERE id = $1 AND studio_id = $2',
-        [finalCustomerId, slot.studio_id],
-      );
-      if (customerCheck.rows.length === 0) {
-        return res.status(404).json({
-          error: 'Customer does not belong to this studio',
+      if (!slot.for_children && finalChildId) {
+        return res.status(400).json({
+          error: 'This slot is not for children',
         });
       }
-    }
 
-    if (finalChildId) {
-      const childCheck = await client.query(
-        `
+      // Verify customer/child belongs to the same studio as the slot
+      if (finalCustomerId) {
+        const customerCheck = await client.query(
+          'SELECT id FROM customers WHERE id = $1 AND studio_id = $2',
+          [finalCustomerId, slot.studio_id],
+        );
+        if (customerCheck.rows.length === 0) {
+          return res.status(404).json({
+            error: 'Customer does not belong to this studio',
+          });
+        }
+      }
+
+      if (finalChildId) {
+        const childCheck = await client.query(
+          `
         SELECT ch.id FROM children ch
         JOIN customers c ON ch.customer_id = c.id
         WHERE ch.id = $1 AND c.studio_id = $2
       `,
-        [finalChildId, slot.studio_id],
-      );
-
-      if (childCheck.rows.length === 0) {
-        return res.status(404).json({
-          error: 'Child does not belong to this studio',
-        });
+          [finalChildId, slot.studio_id],
+        );
+
+        if (childCheck.rows.length === 0) {
+          return res.status(404).json({
+            error: 'Child does not belong to this studio',
+          });
+        }
       }
-    }
-
-    // Enforce capacity: count existing bookings for the slot
-    const capacityResult = await client.query(
-      `SELECT COUNT(*)::int as count
-       FROM bookings 
-       WHERE slot_id = $1`,
-      [slotId],
-    );
-    const bookedCount: number = capacityResult.rows[0].count;
-
-    const capacityInfo = await client.query(
-      `SELECT max_participants
-       FROM slots
-       WHERE id = $1`,
-      [slotId],
-    );
-    const maxParticipants: number = capacityInfo.rows[0].max_participants;
-
-    if (bookedCount >= maxParticipants) {
-      return res.status(409).json({ error: 'Slot capacity reached. Cannot create booking.' });
-    }
 
-    // Create booking
-    const bookingQuery = `
-      INSERT INTO bookings (slot_id, customer_id, child_id, status, paid)
-      VALUES ($1, $2, $3, 'CONFIRMED', false)
-      RETURNING *
-    `;
+      // The occurrence, with any exception applied, is resolved under the slot lock
+      const booking = await createBookingWithinCapacity({
+        slotId,
+        occurrenceDate,
+        customerId: slot.for_children ? null : finalCustomerId || null,
+        childId: slot.for_children ? finalChildId || null : null,
+        couponCode,
+        waitlist,
+        actor: adminActor(req),
+      });
+      if (!booking) {
+        return res.status(409).json({ error: 'Slot capacity reached. Cannot create booking.' });
+      }
+      if ('error' in booking) {
+        return res.status(booking.status).json({ error: booking.error });
+      }
 
-    const { rows } = await client.query(bookingQuery, [
-      slotId,
-      slot.for_children ? null : finalCustomerId,
-      slot.for_children ? finalChildId : null,
-    ]);
+      res.status(201).json(booking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
 
-    res.status(201).json(rows[0]);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation failed',
-        details: error.issues,
-      });
+      console.error('Error creating booking:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
-
-    console.error('Error creating booking:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+  },
+);
 
 // GET /bookings - List bookings with filters
-router.get('/', async (req, res) => {
-  try {
-    const {
-      studioId,
-      customerId,
-      childId,
-      slotId,
-      status,
-      paid,
-      limit = '50',
-      offset = '0',
-    } = req.query;
-
-    const client = getDbClient();
-    const filters = [];
-    const values = [];
-    let paramIndex = 1;
-
-    // Build dynamic filter query
-    if (studioId) {
-      filters.push(`s.studio_id = $${paramIndex++}`);
-      values.push(studioId);
-    }
-    if (customerId) {
-      filters.push(`b.customer_id = $${paramIndex++}`);
-      values.push(customerId);
-    }
-    if (childId) {
-      filters.push(`b.child_id = $${paramIndex++}`);
-      values.push(childId);
-    }
-    if (slotId) {
-      filters.push(`b.slot_id = $${paramIndex++}`);
-      values.push(slotId);
-    }
-    if (status) {
-      filters.push(`b.status = $${paramIndex++}`);
-      values.push(status);
-    }
-    if (paid !== undefined) {
-      filters.push(`b.paid = $${paramIndex++}`);
-      values.push(paid === 'true');
-    }
+router.get(
+  '/',
+  requireUser(),
+  requireResourcePermission('bookings.view', 'studio', (req) => req.query.studioId),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const {
+        studioId,
+        customerId,
+        childId,
+        slotId,
+        status,
+        paid,
+        covered,
+        limit = '50',
+        offset = '0',
+      } = req.query;
+
+      const client = getDbClient();
+      // Only bookings of studios where the user may see bookings
+      const filters = [
+        `s.studio_id IN (SELECT studio_id FROM studio_owners WHERE user_id = $1 AND role = ANY($2))`,
+      ];
+      const values: unknown[] = [req.user?.userId, rolesWith('bookings.view')];
+      let paramIndex = 3;
+
+      // Build dynamic filter query
+      if (studioId) {
+        filters.push(`s.studio_id = $${paramIndex++}`);
+        values.push(studioId);
+      }
+      if (customerId) {
+        filters.push(`b.customer_id = $${paramIndex++}`);
+        values.push(customerId);
+      }
+      if (childId) {
+        filters.push(`b.child_id = $${paramIndex++}`);
+        values.push(childId);
+      }
+      if (slotId) {
+        filters.push(`b.slot_id = $${paramIndex++}`);
+        values.push(slotId);
+      }
+      if (status) {
+        filters.push(`b.status = $${paramIndex++}`);
+        values.push(status);
+      }
+      if (paid !== undefined) {
+        filters.push(`b.paid = $${paramIndex++}`);
+        values.push(paid === 'true');
+      }
+      if (covered !== undefined) {
+        filters.push(`b.covered = $${paramIndex++}`);
+        values.push(covered === 'true');
+      }
 
-    const whereClause = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : '';
+      const whereClause = `WHERE ${filters.join(' AND ')}`;
 
-    const query = `
+      const query = `
       SELECT 
         b.*,
         s.title as slot_title,
         s.starts_at,
         s.duration_min,
-        s.price,
         s.for_children,
         c.first_name as customer_name,
         c.contact_email,
@@ -341,101 +401,115 @@ router.get('/', async (req, res) => {
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
     `;
 
-    values.push(parseInt(limit as string), parseInt(offset as string));
+      values.push(parseInt(limit as string), parseInt(offset as string));
 
-    const { rows } = await client.query(query, values);
-    res.json(rows);
-  } catch (error) {
-    console.error('Error fetching bookings:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+      const { rows } = await client.query(query, values);
+      res.json(rows);
+    } catch (error) {
+      console.error('Error fetching bookings:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
 
 // PATCH /bookings/:id/status - Update booking status
-router.patch('/:id/status', async (req, res) => {
-  try {
-    const bookingId = req.params.id;
-    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookingId)) {
-      return res.status(400).json({ error: 'Invalid booking ID' });
-    }
+router.patch(
+  '/:id/status',
+  requireUser(),
+  onBooking('bookings.manage'),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const bookingId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookingId)) {
+        return res.status(400).json({ error: 'Invalid booking ID' });
+      }
 
-    const { status } = updateBookingStatusSchema.parse(req.body);
+      const { status } = updateBookingStatusSchema.parse(req.body);
 
-    const client = getDbClient();
+      const result = await changeBookingStatus(bookingId, status, adminActor(req));
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json({ ...result.booking, promoted_bookings: result.promoted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
 
-    // Verify booking exists
-    const bookingCheck = await client.query('SELECT id, status FROM bookings WHERE id = $1', [
-      bookingId,
-    ]);
-    if (bookingCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Booking not found' });
+      console.error('Error updating booking status:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
+  },
+);
+
+// POST /bookings/:id/reschedule - Move a booking to another slot or occurrence
+router.post(
+  '/:id/reschedule',
+  requireUser(),
+  onBooking('bookings.manage'),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const bookingId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookingId)) {
+        return res.status(400).json({ error: 'Invalid booking ID' });
+      }
 
-    const updateQuery = `
-      UPDATE bookings 
-      SET status = $1
-      WHERE id = $2
-      RETURNING *
-    `;
-
-    const { rows } = await client.query(updateQuery, [status, bookingId]);
-    res.json(rows[0]);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation failed',
-        details: error.issues,
-      });
-    }
+      const { targetSlotId, occurrenceDate } = rescheduleBookingSchema.parse(req.body);
 
-    console.error('Error updating booking status:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+      const result = await rescheduleBooking(
+        bookingId,
+        { slotId: targetSlotId, occurrenceDate },
+        adminActor(req),
+      );
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json({ ...result.booking, promoted_bookings: result.promoted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
 
-// DELETE /bookings/:id - Cancel/delete booking
-router.delete('/:id', async (req, res) => {
-  try {
-    const bookingId = req.params.id;
-    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookingId)) {
-      return res.status(400).json({ error: 'Invalid booking ID' });
+      console.error('Error rescheduling booking:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
+  },
+);
+
+// DELETE /bookings/:id - Cancel a booking. Bookings are never removed, so their history and
+// payments stay on record; cancelling an already cancelled booking changes nothing.
+router.delete(
+  '/:id',
+  requireUser(),
+  onBooking('bookings.manage'),
+  async (req: AuthenticatedRequest, res) => {
+    try {
+      const bookingId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookingId)) {
+        return res.status(400).json({ error: 'Invalid booking ID' });
+      }
 
-    const client = getDbClient();
-
-    // Check if booking exists and get details
-    const bookingCheck = await client.query(
-      `
-      SELECT b.id, b.status, s.title as slot_title, s.starts_at
-      FROM bookings b
-      JOIN slots s ON b.slot_id = s.id
-      WHERE b.id = $1
-    `,
-      [bookingId],
-    );
-
-    if (bookingCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Booking not found' });
+      const result = await withTransaction(async (client): Promise<StatusChangeResult> => {
+        const { rows } = await client.query('SELECT * FROM bookings WHERE id = $1', [bookingId]);
+        if (rows.length === 0) return { error: 'Booking not found', status: 404 };
+        if (rows[0].status === 'CANCELLED') return { booking: rows[0], promoted: [] };
+        return applyStatusChange(client, bookingId, 'CANCELLED', adminActor(req));
+      });
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json({ ...result.booking, promoted_bookings: result.promoted });
+    } catch (error) {
+      console.error('Error cancelling booking:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
-
-    const booking = bookingCheck.rows[0];
-
-    // Delete booking
-    await client.query('DELETE FROM bookings WHERE id = $1', [bookingId]);
-
-    res.json({
-      message: 'Booking deleted successfully',
-      deleted: {
-        booking_id: bookingId,
-        slot_title: booking.slot_title,
-        starts_at: booking.starts_at,
-        previous_status: booking.status,
-      },
-    });
-  } catch (error) {
-    console.error('Error deleting booking:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+  },
+);
 
 export default router;
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { getDbClient } from '../db';
+import { requireUser, requireResourcePermission } from '../middleware/auth';
+import type { Permission } from '../auth/permissions';
 import type { CreateChildRequest } from '../types';
 
 // Split routers: customerChildrenRouter handles /customers/:customerId/children
@@ -8,6 +10,12 @@ import type { CreateChildRequest } from '../types';
 export const customerChildrenRouter = Router();
 export const childrenRouter = Router();
 
+// Permission checks against the studio the family belongs to
+const onCustomer = (permission: Permission) =>
+  requireResourcePermission(permission, 'customer', (req) => req.params.customerId);
+const onChild = (permission: Permission) =>
+  requireResourcePermission(permission, 'child', (req) => req.params.id);
+
 // Validation schema for child creation
 const createChildSchema = z.object({
   firstName: z.string().min(1).max(100),
@@ -18,67 +26,77 @@ const createChildSchema = z.object({
 const updateChildSchema = createChildSchema.partial();
 
 // POST /customers/:customerId/children - Create a new child
-customerChildrenRouter.post('/:customerId/children', async (req, res) => {
-  try {
-    const customerId = req.params.customerId;
-    // Basic UUID format validation
-    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
-      return res.status(400).json({ error: 'Invalid customer ID' });
-    }
-
-    const { firstName, avatarKey }: CreateChildRequest = createChildSchema.parse(req.body);
-
-    const client = getDbClient();
-
-    // Verify customer exists
-    const customerCheck = await client.query('SELECT id, studio_id FROM customers WHERE id = $1', [
-      customerId,
-    ]);
-    if (customerCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Customer not found' });
-    }
-
-    const query = `
+customerChildrenRouter.post(
+  '/:customerId/children',
+  requireUser(),
+  onCustomer('customers.manage'),
+  async (req, res) => {
+    try {
+      const customerId = req.params.customerId;
+      // Basic UUID format validation
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+        return res.status(400).json({ error: 'Invalid customer ID' });
+      }
+
+      const { firstName, avatarKey }: CreateChildRequest = createChildSchema.parse(req.body);
+
+      const client = getDbClient();
+
+      // Verify customer exists
+      const customerCheck = await client.query(
+        'SELECT id, studio_id FROM customers WHERE id = $1',
+        [customerId],
+      );
+      if (customerCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      const query = `
       INSERT INTO children (customer_id, first_name, avatar_key)
       VALUES ($1, $2, $3)
       RETURNING *
     `;
 
-    const { rows } = await client.query(query, [customerId, firstName, avatarKey]);
-
-    res.status(201).json(rows[0]);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation failed',
-        details: error.issues,
-      });
-    }
-
-    console.error('Error creating child:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+      const { rows } = await client.query(query, [customerId, firstName, avatarKey]);
 
-// GET /customers/:customerId/children - List children for a customer
-customerChildrenRouter.get('/:customerId/children', async (req, res) => {
-  try {
-    const customerId = req.params.customerId;
-    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
-      return res.status(400).json({ error: 'Invalid customer ID' });
-    }
+      res.status(201).json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
 
-    const client = getDbClient();
-
-    // Verify customer exists
-    const customerCheck = await client.query('SELECT id FROM customers WHERE id = $1', [
-      customerId,
-    ]);
-    if (customerCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Customer not found' });
+      console.error('Error creating child:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
+  },
+);
 
-    const query = `
+// GET /customers/:customerId/children - List children for a customer
+customerChildrenRouter.get(
+  '/:customerId/children',
+  requireUser(),
+  onCustomer('customers.view'),
+  async (req, res) => {
+    try {
+      const customerId = req.params.customerId;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+        return res.status(400).json({ error: 'Invalid customer ID' });
+      }
+
+      const client = getDbClient();
+
+      // Verify customer exists
+      const customerCheck = await client.query('SELECT id FROM customers WHERE id = $1', [
+        customerId,
+      ]);
+      if (customerCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      const query = `
       SELECT ch.*,
              COUNT(b.id) as bookings_count
       FROM children ch
@@ -88,16 +106,17 @@ customerChildrenRouter.get('/:customerId/children', async (req, res) => {
       ORDER BY ch.created_at DESC
     `;
 
-    const { rows } = await client.query(query, [customerId]);
-    res.json(rows);
-  } catch (error) {
-    console.error('Error fetching children:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+      const { rows } = await client.query(query, [customerId]);
+      res.json(rows);
+    } catch (error) {
+      console.error('Error fetching children:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
 
 // GET /children/:id - Get child details
-childrenRouter.get('/:id', async (req, res) => {
+childrenRouter.get('/:id', requireUser(), onChild('customers.view'), async (req, res) => {
   try {
     const childId = req.params.id;
     if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(childId)) {
@@ -136,7 +155,7 @@ childrenRouter.get('/:id', async (req, res) => {
 });
 
 // PATCH /children/:id - Update child
-childrenRouter.patch('/:id', async (req, res) => {
+childrenRouter.patch('/:id', requireUser(), onChild('customers.manage'), async (req, res) => {
   try {
     const childId = req.params.id;
     if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(childId)) {
@@ -196,7 +215,7 @@ childrenRouter.patch('/:id', async (req, res) => {
 });
 
 // DELETE /children/:id - Delete child (and cascade to bookings)
-childrenRouter.delete('/:id', async (req, res) => {
+childrenRouter.delete('/:id', requireUser(), onChild('customers.delete'), async (req, res) => {
   try {
     const childId = req.params.id;
     if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(childId)) {
@@ -1,12 +1,26 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { getDbClient } from '../db';
+import {
+  requireUser,
+  requireStudioPermission,
+  requireResourcePermission,
+} from '../middleware/auth';
+import type { Permission } from '../auth/permissions';
+import { customerStatement } from '../bookings/balances';
+import { creditSummary, listCreditPackages } from '../bookings/credits';
+import { listMemberships } from '../bookings/memberships';
+import { parseDate } from '../scheduling/timezone';
 import type { CreateCustomerRequest } from '../types';
 
 // Routers are split by concern to avoid path collisions when mounting
 export const studioCustomersRouter = Router(); // mounted under /studios
 export const customersRouter = Router(); // mounted under /customers
 
+// Permission check against the studio of the customer in :id
+const onCustomer = (permission: Permission) =>
+  requireResourcePermission(permission, 'customer', (req) => req.params.id);
+
 // Validation schema for customer creation
 const createCustomerSchema = z
   .object({
@@ -22,96 +36,136 @@ const createCustomerSchema = z
 // Validation schema for customer update
 const updateCustomerSchema = createCustomerSchema.partial();
 
-// POST /studios/:studioId/customers - Create a new customer
-studioCustomersRouter.post('/:studioId/customers', async (req, res) => {
-  try {
-    const studioId = req.params.studioId;
-    // Basic UUID format validation
-    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(studioId)) {
-      return res.status(400).json({ error: 'Invalid studio ID' });
-    }
-
-    const { firstName, avatarKey, contactPhone, contactEmail }: CreateCustomerRequest =
-      createCustomerSchema.parse(req.body);
-
-    const client = getDbClient();
-
-    // Verify studio exists
-    const studioCheck = await client.query('SELECT id FROM studios WHERE id = $1', [studioId]);
-    if (studioCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Studio not found' });
-    }
+// Validation schema for selling a credit package (punch card)
+const createCreditPackageSchema = z.object({
+  name: z.string().min(1).max(100),
+  credits: z.number().int().min(1).max(500),
+  expiresAt: z.string().datetime().optional(), // ISO 8601 datetime string
+});
 
-    // Check if customer already exists with same contact info
-    let existingCustomer = null;
-    if (contactEmail) {
-      const emailCheck = await client.query(
-        'SELECT * FROM customers WHERE studio_id = $1 AND contact_email = $2',
-        [studioId, contactEmail],
-      );
-      existingCustomer = emailCheck.rows[0];
-    }
+// Validation schema for a fixed price agreed with a customer; no slotId applies it to all classes
+const customerPriceSchema = z.object({
+  price: z.number().min(0).max(99999999),
+  slotId: z.string().uuid().nullable().optional(),
+});
 
-    if (!existingCustomer && contactPhone) {
-      const phoneCheck = await client.query(
-        'SELECT * FROM customers WHERE studio_id = $1 AND contact_phone = $2',
-        [studioId, contactPhone],
-      );
-      existingCustomer = phoneCheck.rows[0];
-    }
+// Validation schema for statement queries; the currency defaults to the studio's
+const statementQuerySchema = z.object({
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO-4217 code')
+    .optional(),
+});
 
-    if (existingCustomer) {
-      return res.status(409).json({
-        error: 'Customer with this contact information already exists',
-        customer: existingCustomer,
-      });
-    }
+// Validation schema for subscribing a customer, or one of their children, to a plan
+const createMembershipSchema = z
+  .object({
+    planId: z.string().uuid(),
+    childId: z.string().uuid().optional(),
+    startsOn: z.string().refine((value) => !!parseDate(value), 'Use YYYY-MM-DD'),
+    endsOn: z.string().refine((value) => !!parseDate(value), 'Use YYYY-MM-DD'),
+  })
+  .refine((data) => data.startsOn <= data.endsOn, { message: 'startsOn must not be after endsOn' });
 
-    const query = `
+// POST /studios/:studioId/customers - Create a new customer
+studioCustomersRouter.post(
+  '/:studioId/customers',
+  requireUser(),
+  requireStudioPermission('customers.manage'),
+  async (req, res) => {
+    try {
+      const studioId = req.params.studioId;
+      // Basic UUID format validation
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(studioId)) {
+        return res.status(400).json({ error: 'Invalid studio ID' });
+      }
+
+      const { firstName, avatarKey, contactPhone, contactEmail }: CreateCustomerRequest =
+        createCustomerSchema.parse(req.body);
+
+      const client = getDbClient();
+
+      // Verify studio exists
+      const studioCheck = await client.query('SELECT id FROM studios WHERE id = $1', [studioId]);
+      if (studioCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+
+      // Check if customer already exists with same contact info
+      let existingCustomer = null;
+      if (contactEmail) {
+        const emailCheck = await client.query(
+          'SELECT * FROM customers WHERE studio_id = $1 AND contact_email = $2',
+          [studioId, contactEmail],
+        );
+        existingCustomer = emailCheck.rows[0];
+      }
+
+      if (!existingCustomer && contactPhone) {
+        const phoneCheck = await client.query(
+          'SELECT * FROM customers WHERE studio_id = $1 AND contact_phone = $2',
+          [studioId, contactPhone],
+        );
+        existingCustomer = phoneCheck.rows[0];
+      }
+
+      if (existingCustomer) {
+        return res.status(409).json({
+          error: 'Customer with this contact information already exists',
+          customer: existingCustomer,
+        });
+      }
+
+      const query = `
       INSERT INTO customers (studio_id, first_name, avatar_key, contact_phone, contact_email)
       VALUES ($1, $2, $3, $4, $5)
       RETURNING *
     `;
 
-    const { rows } = await client.query(query, [
-      studioId,
-      firstName,
-      avatarKey || null,
-      contactPhone || null,
-      contactEmail || null,
-    ]);
-
-    res.status(201).json(rows[0]);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation failed',
-        details: error.issues,
-      });
+      const { rows } = await client.query(query, [
+        studioId,
+        firstName,
+        avatarKey || null,
+        contactPhone || null,
+        contactEmail || null,
+      ]);
+
+      res.status(201).json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error creating customer:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
-
-    console.error('Error creating customer:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+  },
+);
 
 // GET /studios/:studioId/customers - List customers for a studio
-studioCustomersRouter.get('/:studioId/customers', async (req, res) => {
-  try {
-    const studioId = req.params.studioId;
-    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(studioId)) {
-      return res.status(400).json({ error: 'Invalid studio ID' });
-    }
-
-    const client = getDbClient();
-
-    // Verify studio exists
-    const studioCheck = await client.query('SELECT id FROM studios WHERE id = $1', [studioId]);
-    if (studioCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Studio not found' });
-    }
-
-    const query = `
+studioCustomersRouter.get(
+  '/:studioId/customers',
+  requireUser(),
+  requireStudioPermission('customers.view'),
+  async (req, res) => {
+    try {
+      const studioId = req.params.studioId;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(studioId)) {
+        return res.status(400).json({ error: 'Invalid studio ID' });
+      }
+
+      const client = getDbClient();
+
+      // Verify studio exists
+      const studioCheck = await client.query('SELECT id FROM studios WHERE id = $1', [studioId]);
+      if (studioCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+
+      const query = `
       SELECT c.*, 
              COUNT(DISTINCT ch.id) as children_count,
              COUNT(DISTINCT b.id) as bookings_count
@@ -123,16 +177,17 @@ studioCustomersRouter.get('/:studioId/customers', async (req, res) => {
       ORDER BY c.created_at DESC
     `;
 
-    const { rows } = await client.query(query, [studioId]);
-    res.json(rows);
-  } catch (error) {
-    console.error('Error fetching customers:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+      const { rows } = await client.query(query, [studioId]);
+      res.json(rows);
+    } catch (error) {
+      console.error('Error fetching customers:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
 
 // GET /customers/:id - Get customer details
-customersRouter.get('/:id', async (req, res) => {
+customersRouter.get('/:id', requireUser(), onCustomer('customers.view'), async (req, res) => {
   try {
     const customerId = req.params.id;
     if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
@@ -168,15 +223,349 @@ customersRouter.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Customer not found' });
     }
 
-    res.json(rows[0]);
+    res.json({
+      ...rows[0],
+      credits: await creditSummary(client, customerId),
+      memberships: await listMemberships(client, customerId),
+    });
   } catch (error) {
     console.error('Error fetching customer:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// POST /customers/:id/credit-packages - Sell a credit package to a customer
+customersRouter.post(
+  '/:id/credit-packages',
+  requireUser(),
+  onCustomer('payments.record'),
+  async (req, res) => {
+    try {
+      const customerId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+        return res.status(400).json({ error: 'Invalid customer ID' });
+      }
+
+      const { name, credits, expiresAt } = createCreditPackageSchema.parse(req.body);
+
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `INSERT INTO credit_packages (studio_id, customer_id, name, credits, expires_at)
+       SELECT studio_id, id, $2, $3, $4 FROM customers WHERE id = $1
+       RETURNING *`,
+        [customerId, name, credits, expiresAt || null],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      res.status(201).json({ ...rows[0], used: 0, remaining: rows[0].credits });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error creating credit package:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /customers/:id/credit-packages - List a customer's credit packages with remaining credits
+customersRouter.get(
+  '/:id/credit-packages',
+  requireUser(),
+  onCustomer('customers.view'),
+  async (req, res) => {
+    try {
+      const customerId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+        return res.status(400).json({ error: 'Invalid customer ID' });
+      }
+
+      const client = getDbClient();
+      const customerCheck = await client.query('SELECT id FROM customers WHERE id = $1', [
+        customerId,
+      ]);
+      if (customerCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      res.json(await listCreditPackages(client, customerId));
+    } catch (error) {
+      console.error('Error fetching credit packages:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /customers/:id/statement - Charges and payments in a currency with a running balance and aging
+customersRouter.get(
+  '/:id/statement',
+  requireUser(),
+  onCustomer('payments.view'),
+  async (req, res) => {
+    try {
+      const customerId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+        return res.status(400).json({ error: 'Invalid customer ID' });
+      }
+
+      const query = statementQuerySchema.parse(req.query);
+
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `SELECT c.id, c.studio_id, st.currency
+       FROM customers c
+       JOIN studios st ON c.studio_id = st.id
+       WHERE c.id = $1`,
+        [customerId],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      const currency = query.currency ?? rows[0].currency;
+      res.json({
+        customer_id: customerId,
+        currency,
+        ...(await customerStatement(client, rows[0].studio_id, customerId, currency)),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error fetching customer statement:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// POST /customers/:id/memberships - Subscribe the customer or one of their children to a plan
+customersRouter.post(
+  '/:id/memberships',
+  requireUser(),
+  onCustomer('payments.record'),
+  async (req, res) => {
+    try {
+      const customerId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+        return res.status(400).json({ error: 'Invalid customer ID' });
+      }
+
+      const { planId, childId, startsOn, endsOn } = createMembershipSchema.parse(req.body);
+
+      const client = getDbClient();
+      const customerCheck = await client.query('SELECT studio_id FROM customers WHERE id = $1', [
+        customerId,
+      ]);
+      if (customerCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      const planCheck = await client.query(
+        'SELECT id FROM membership_plans WHERE id = $1 AND studio_id = $2',
+        [planId, customerCheck.rows[0].studio_id],
+      );
+      if (planCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Membership plan not found for this studio' });
+      }
+
+      if (childId) {
+        const childCheck = await client.query(
+          'SELECT id FROM children WHERE id = $1 AND customer_id = $2',
+          [childId, customerId],
+        );
+        if (childCheck.rows.length === 0) {
+          return res.status(404).json({ error: 'Child not found for this customer' });
+        }
+      }
+
+      const { rows } = await client.query(
+        `INSERT INTO memberships (plan_id, customer_id, child_id, starts_on, ends_on)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+        [planId, childId ? null : customerId, childId || null, startsOn, endsOn],
+      );
+      res.status(201).json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error creating membership:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /customers/:id/memberships - List memberships of the customer and their children
+customersRouter.get(
+  '/:id/memberships',
+  requireUser(),
+  onCustomer('customers.view'),
+  async (req, res) => {
+    try {
+      const customerId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+        return res.status(400).json({ error: 'Invalid customer ID' });
+      }
+
+      const client = getDbClient();
+      const customerCheck = await client.query('SELECT id FROM customers WHERE id = $1', [
+        customerId,
+      ]);
+      if (customerCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      res.json(await listMemberships(client, customerId));
+    } catch (error) {
+      console.error('Error fetching memberships:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// PUT /customers/:id/prices - Set the customer's fixed price for a slot or for all classes
+customersRouter.put(
+  '/:id/prices',
+  requireUser(),
+  onCustomer('pricing.manage'),
+  async (req, res) => {
+    try {
+      const customerId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+        return res.status(400).json({ error: 'Invalid customer ID' });
+      }
+
+      const { price, slotId } = customerPriceSchema.parse(req.body);
+
+      const client = getDbClient();
+      const customerCheck = await client.query('SELECT studio_id FROM customers WHERE id = $1', [
+        customerId,
+      ]);
+      if (customerCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      if (slotId) {
+        const slotCheck = await client.query(
+          'SELECT id FROM slots WHERE id = $1 AND studio_id = $2',
+          [slotId, customerCheck.rows[0].studio_id],
+        );
+        if (slotCheck.rows.length === 0) {
+          return res.status(404).json({ error: 'Slot not found for this studio' });
+        }
+      }
+
+      // One price per slot and one for all classes, each replaced when set again
+      const { rows } = await client.query(
+        slotId
+          ? `INSERT INTO customer_prices (customer_id, slot_id, price) VALUES ($1, $2, $3)
+           ON CONFLICT (customer_id, slot_id) WHERE slot_id IS NOT NULL
+           DO UPDATE SET price = excluded.price
+           RETURNING *`
+          : `INSERT INTO customer_prices (customer_id, slot_id, price) VALUES ($1, $2, $3)
+           ON CONFLICT (customer_id) WHERE slot_id IS NULL
+           DO UPDATE SET price = excluded.price
+           RETURNING *`,
+        [customerId, slotId ?? null, price],
+      );
+      res.json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error setting customer price:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /customers/:id/prices - List the customer's fixed prices
+customersRouter.get(
+  '/:id/prices',
+  requireUser(),
+  onCustomer('customers.view'),
+  async (req, res) => {
+    try {
+      const customerId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
+        return res.status(400).json({ error: 'Invalid customer ID' });
+      }
+
+      const client = getDbClient();
+      const customerCheck = await client.query('SELECT id FROM customers WHERE id = $1', [
+        customerId,
+      ]);
+      if (customerCheck.rows.length === 0) {
+        return res.status(404).json({ error: 'Customer not found' });
+      }
+
+      const { rows } = await client.query(
+        `SELECT cp.*, s.title as slot_title
+       FROM customer_prices cp
+       LEFT JOIN slots s ON cp.slot_id = s.id
+       WHERE cp.customer_id = $1
+       ORDER BY cp.slot_id NULLS FIRST, s.title`,
+        [customerId],
+      );
+      res.json(rows);
+    } catch (error) {
+      console.error('Error fetching customer prices:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// DELETE /customers/:id/prices/:priceId - Remove a fixed price; later bookings pay the list price
+customersRouter.delete(
+  '/:id/prices/:priceId',
+  requireUser(),
+  onCustomer('pricing.manage'),
+  async (req, res) => {
+    try {
+      const { id: customerId, priceId } = req.params;
+      if (
+        !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId) ||
+        !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(priceId)
+      ) {
+        return res.status(400).json({ error: 'Invalid customer or price ID' });
+      }
+
+      const client = getDbClient();
+      const { rows } = await client.query(
+        'DELETE FROM customer_prices WHERE id = $1 AND customer_id = $2 RETURNING *',
+        [priceId, customerId],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Price not found' });
+      }
+      res.json({ message: 'Price deleted successfully', deleted: rows[0] });
+    } catch (error) {
+      console.error('Error deleting customer price:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
 // PATCH /customers/:id - Update customer
-customersRouter.patch('/:id', async (req, res) => {
+customersRouter.patch('/:id', requireUser(), onCustomer('customers.manage'), async (req, res) => {
   try {
     const customerId = req.params.id;
     if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
@@ -246,7 +635,7 @@ customersRouter.patch('/:id', async (req, res) => {
 });
 
 // DELETE /customers/:id - Delete customer (and cascade to children/bookings)
-customersRouter.delete('/:id', async (req, res) => {
+customersRouter.delete('/:id', requireUser(), onCustomer('customers.delete'), async (req, res) => {
   try {
     const customerId = req.params.id;
     if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(customerId)) {
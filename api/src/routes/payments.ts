@@ -0,0 +1,395 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import { z } from 'zod';
+import { getDbClient } from '../db';
+import {
+  requireUser,
+  requireStudioPermission,
+  requireResourcePermission,
+} from '../middleware/auth';
+import { listBalances } from '../bookings/balances';
+import { listPayments, recordPayment, refundPayment } from '../bookings/payments';
+import { getReceipt } from '../bookings/receipts';
+import { parseStatementCsv, suggestMatches } from '../bookings/reconciliation';
+import { renderReceiptHtml, renderReceiptPdf } from '../bookings/receipt-documents';
+import { parseDate } from '../scheduling/timezone';
+import type { AuthenticatedRequest } from '../types';
+
+const router = Router(); // mounted under /studios
+export const paymentsRouter = Router(); // mounted under /payments
+
+const paymentMethodSchema = z.enum(['cash', 'bit', 'paybox', 'transfer']);
+
+// Validation schema for recording a payment
+const createPaymentSchema = z
+  .object({
+    amount: z.number().positive().max(99999999),
+    method: paymentMethodSchema,
+    receivedAt: z.string().datetime().optional(), // ISO 8601 datetime string
+    bookingId: z.string().uuid().optional(),
+    creditPackageId: z.string().uuid().optional(),
+    customerId: z.string().uuid().optional(),
+    note: z.string().max(500).optional(),
+    reference: z.string().min(1).max(100).optional(), // Bank, bit or paybox transaction reference
+  })
+  .refine((data) => !(data.bookingId && data.creditPackageId), {
+    message: 'A payment is for a booking or a credit package, not both',
+  });
+
+// Validation schema for refunding a payment
+const refundPaymentSchema = z.object({
+  amount: z.number().positive().max(99999999).optional(), // Defaults to what is left to refund
+  method: paymentMethodSchema.optional(),
+  receivedAt: z.string().datetime().optional(),
+  note: z.string().max(500).optional(),
+});
+
+// Validation schema for listing payments
+const listPaymentsQuerySchema = z
+  .object({
+    from: z
+      .string()
+      .refine((value) => !!parseDate(value), 'Use YYYY-MM-DD')
+      .optional(),
+    to: z
+      .string()
+      .refine((value) => !!parseDate(value), 'Use YYYY-MM-DD')
+      .optional(),
+    customerId: z.string().uuid().optional(),
+    bookingId: z.string().uuid().optional(),
+  })
+  .refine((range) => !range.from || !range.to || range.from <= range.to, {
+    message: 'from must not be after to',
+  });
+
+// Validation schema for a statement export to reconcile; its rows are paid with the given method
+const reconcileSchema = z.object({
+  method: z.enum(['bit', 'paybox', 'transfer']),
+  csv: z.string().min(1),
+});
+
+// Validation schema for confirming reconciled rows as payments
+const confirmReconciliationSchema = z.object({
+  method: z.enum(['bit', 'paybox', 'transfer']),
+  payments: z
+    .array(
+      z.object({
+        amount: z.number().positive().max(99999999),
+        receivedAt: z.string().datetime().optional(),
+        bookingId: z.string().uuid().optional(),
+        customerId: z.string().uuid().optional(),
+        reference: z.string().min(1).max(100).optional(),
+        note: z.string().max(500).optional(),
+      }),
+    )
+    .min(1)
+    .max(500),
+});
+
+// Validation schema for receipt queries
+const receiptQuerySchema = z.object({
+  format: z.enum(['json', 'html', 'pdf']).default('json'),
+});
+
+// Validation schema for report queries; the currency defaults to the studio's
+const reportQuerySchema = z.object({
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO-4217 code')
+    .optional(),
+});
+
+// GET /studios/:studioId/payments - Ledger entries with received, refunded and net totals per currency
+router.get(
+  '/:studioId/payments',
+  requireUser(),
+  requireStudioPermission('payments.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const filters = listPaymentsQuerySchema.parse(req.query);
+
+      const payments = await listPayments(getDbClient(), req.params.studioId, filters);
+      const totals = new Map<string, { received: number; refunded: number }>();
+      for (const payment of payments) {
+        const total = totals.get(payment.currency) ?? { received: 0, refunded: 0 };
+        const cents = Math.round(Number(payment.amount) * 100);
+        if (cents > 0) total.received += cents;
+        else total.refunded -= cents;
+        totals.set(payment.currency, total);
+      }
+
+      res.json({
+        payments,
+        totals: [...totals]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([currency, { received, refunded }]) => ({
+            currency,
+            received: received / 100,
+            refunded: refunded / 100,
+            net: (received - refunded) / 100,
+          })),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error fetching payments:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// POST /studios/:studioId/payments - Record a payment, optionally for a booking or credit package
+router.post(
+  '/:studioId/payments',
+  requireUser(),
+  requireStudioPermission('payments.record'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { receivedAt, ...input } = createPaymentSchema.parse(req.body);
+
+      const result = await recordPayment(
+        req.params.studioId,
+        { ...input, receivedAt: receivedAt ? new Date(receivedAt) : undefined },
+        req.user?.userId ?? null,
+      );
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+
+      res.status(201).json({ ...result.payment, booking: result.booking, receipt: result.receipt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error recording payment:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// POST /studios/:studioId/payments/:id/refund - Refund (part of) a payment
+router.post(
+  '/:studioId/payments/:id/refund',
+  requireUser(),
+  requireStudioPermission('payments.refund'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const paymentId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(paymentId)) {
+        return res.status(400).json({ error: 'Invalid payment ID' });
+      }
+
+      const { receivedAt, ...input } = refundPaymentSchema.parse(req.body);
+
+      const result = await refundPayment(
+        req.params.studioId,
+        paymentId,
+        { ...input, receivedAt: receivedAt ? new Date(receivedAt) : undefined },
+        req.user?.userId ?? null,
+      );
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+
+      res.status(201).json({ ...result.payment, booking: result.booking });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error refunding payment:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// POST /studios/:studioId/reconciliation - Suggest bookings and customers paid by a statement's rows
+router.post(
+  '/:studioId/reconciliation',
+  requireUser(),
+  requireStudioPermission('payments.record'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { method, csv } = reconcileSchema.parse(req.body);
+
+      const parsed = parseStatementCsv(csv);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const suggestions = await suggestMatches(
+        getDbClient(),
+        req.params.studioId,
+        method,
+        parsed.rows,
+      );
+      res.json({ method, suggestions });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error reconciling statement:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// POST /studios/:studioId/reconciliation/confirm - Record confirmed rows as payments, each on its own
+router.post(
+  '/:studioId/reconciliation/confirm',
+  requireUser(),
+  requireStudioPermission('payments.record'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { method, payments } = confirmReconciliationSchema.parse(req.body);
+
+      const results = [];
+      for (const { receivedAt, ...input } of payments) {
+        const result = await recordPayment(
+          req.params.studioId,
+          { ...input, method, receivedAt: receivedAt ? new Date(receivedAt) : undefined },
+          req.user?.userId ?? null,
+        );
+        results.push(
+          'error' in result
+            ? { error: result.error, status: result.status }
+            : { ...result.payment, booking: result.booking, receipt: result.receipt },
+        );
+      }
+
+      res.json({
+        recorded: results.filter((result) => !('error' in result)).length,
+        results,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error confirming reconciliation:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/balances - What each customer owes in a currency, aged by occurrence date
+router.get(
+  '/:studioId/balances',
+  requireUser(),
+  requireStudioPermission('payments.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const query = reportQuerySchema.parse(req.query);
+
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `SELECT currency, to_char(now() AT TIME ZONE timezone, 'YYYY-MM-DD') as as_of
+         FROM studios WHERE id = $1`,
+        [req.params.studioId],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+      const currency = query.currency ?? rows[0].currency;
+      const customers = await listBalances(client, req.params.studioId, currency);
+
+      const totals = { owed: 0, credit: 0, days_0_30: 0, days_31_60: 0, days_over_60: 0 };
+      for (const customer of customers) {
+        if (customer.balance > 0) totals.owed += Math.round(customer.balance * 100);
+        else totals.credit -= Math.round(customer.balance * 100);
+        totals.days_0_30 += Math.round(customer.aging.days_0_30 * 100);
+        totals.days_31_60 += Math.round(customer.aging.days_31_60 * 100);
+        totals.days_over_60 += Math.round(customer.aging.days_over_60 * 100);
+      }
+
+      res.json({
+        currency,
+        as_of: rows[0].as_of,
+        customers,
+        totals: {
+          owed: totals.owed / 100,
+          credit: totals.credit / 100,
+          aging: {
+            days_0_30: totals.days_0_30 / 100,
+            days_31_60: totals.days_31_60 / 100,
+            days_over_60: totals.days_over_60 / 100,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error fetching balances:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /payments/:id/receipt - The payment's receipt as JSON, HTML or PDF (?format=)
+paymentsRouter.get(
+  '/:id/receipt',
+  requireUser(),
+  requireResourcePermission('payments.view', 'payment', (req) => req.params.id),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const paymentId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(paymentId)) {
+        return res.status(400).json({ error: 'Invalid payment ID' });
+      }
+
+      const { format } = receiptQuerySchema.parse(req.query);
+
+      const receipt = await getReceipt(getDbClient(), paymentId);
+      if (!receipt) {
+        return res.status(404).json({ error: 'Receipt not found' });
+      }
+
+      if (format === 'html') {
+        return res.type('html').send(renderReceiptHtml(receipt));
+      }
+      if (format === 'pdf') {
+        return res
+          .type('pdf')
+          .set('Content-Disposition', `inline; filename="receipt-${receipt.number}.pdf"`)
+          .send(renderReceiptPdf(receipt));
+      }
+      res.json(receipt);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error fetching receipt:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,230 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import { z } from 'zod';
+import { getDbClient } from '../db';
+import { requireUser, requireStudioPermission } from '../middleware/auth';
+import { parseDate } from '../scheduling/timezone';
+import type { AuthenticatedRequest } from '../types';
+
+const router = Router();
+
+// Validation schema for the studio's pricing settings; null turns the sibling discount off
+const pricingSettingsSchema = z.object({
+  siblingDiscountPercent: z.number().positive().max(100).nullable(),
+});
+
+const couponDateSchema = z.string().refine((value) => !!parseDate(value), 'Use YYYY-MM-DD');
+
+// Validation schema for coupons: a percentage or a fixed amount off
+const createCouponSchema = z
+  .object({
+    code: z
+      .string()
+      .min(2)
+      .max(50)
+      .regex(/^[A-Za-z0-9_-]+$/, 'Code must contain only letters, numbers, - and _'),
+    percentOff: z.number().positive().max(100).optional(),
+    amountOff: z.number().positive().max(99999999).optional(),
+    maxUses: z.number().int().positive().nullable().optional(), // Omitted: unlimited
+    validFrom: couponDateSchema.nullable().optional(),
+    validUntil: couponDateSchema.nullable().optional(),
+  })
+  .refine((data) => (data.percentOff === undefined) !== (data.amountOff === undefined), {
+    message: 'Exactly one of percentOff and amountOff must be provided',
+  })
+  .refine((data) => !data.validFrom || !data.validUntil || data.validFrom <= data.validUntil, {
+    message: 'validFrom must not be after validUntil',
+  });
+
+// Validation schema for coupon updates
+const updateCouponSchema = z.object({
+  active: z.boolean().optional(),
+  maxUses: z.number().int().positive().nullable().optional(),
+  validUntil: couponDateSchema.nullable().optional(),
+});
+
+// GET /studios/:studioId/pricing - Get the studio's pricing settings
+router.get(
+  '/:studioId/pricing',
+  requireUser(),
+  requireStudioPermission('pricing.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const client = getDbClient();
+      const { rows } = await client.query(
+        'SELECT sibling_discount_percent FROM studios WHERE id = $1',
+        [req.params.studioId],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+      res.json(rows[0]);
+    } catch (error) {
+      console.error('Error fetching pricing settings:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// PUT /studios/:studioId/pricing - Set the studio's pricing settings
+router.put(
+  '/:studioId/pricing',
+  requireUser(),
+  requireStudioPermission('pricing.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { siblingDiscountPercent } = pricingSettingsSchema.parse(req.body);
+
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `UPDATE studios SET sibling_discount_percent = $1 WHERE id = $2
+         RETURNING sibling_discount_percent`,
+        [siblingDiscountPercent, req.params.studioId],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+      res.json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error updating pricing settings:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// POST /studios/:studioId/coupons - Create a coupon code
+router.post(
+  '/:studioId/coupons',
+  requireUser(),
+  requireStudioPermission('pricing.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { code, percentOff, amountOff, maxUses, validFrom, validUntil } =
+        createCouponSchema.parse(req.body);
+
+      const client = getDbClient();
+      const existing = await client.query(
+        'SELECT id FROM coupons WHERE studio_id = $1 AND lower(code) = lower($2)',
+        [req.params.studioId, code],
+      );
+      if (existing.rows.length > 0) {
+        return res.status(409).json({ error: 'Coupon with this code already exists' });
+      }
+
+      const { rows } = await client.query(
+        `INSERT INTO coupons (studio_id, code, percent_off, amount_off, max_uses, valid_from, valid_until)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          req.params.studioId,
+          code,
+          percentOff ?? null,
+          amountOff ?? null,
+          maxUses ?? null,
+          validFrom ?? null,
+          validUntil ?? null,
+        ],
+      );
+      res.status(201).json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error creating coupon:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/coupons - List coupons with how often they are used
+router.get(
+  '/:studioId/coupons',
+  requireUser(),
+  requireStudioPermission('pricing.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `SELECT c.*, COUNT(b.id)::int as uses
+         FROM coupons c
+         LEFT JOIN bookings b ON b.coupon_id = c.id AND b.status <> 'CANCELLED'
+         WHERE c.studio_id = $1
+         GROUP BY c.id
+         ORDER BY c.created_at, c.id`,
+        [req.params.studioId],
+      );
+      res.json(rows);
+    } catch (error) {
+      console.error('Error fetching coupons:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// PATCH /studios/:studioId/coupons/:id - Deactivate a coupon or change its limits
+router.patch(
+  '/:studioId/coupons/:id',
+  requireUser(),
+  requireStudioPermission('pricing.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const couponId = req.params.id;
+      if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(couponId)) {
+        return res.status(400).json({ error: 'Invalid coupon ID' });
+      }
+
+      const updates = updateCouponSchema.parse(req.body);
+
+      const client = getDbClient();
+      const { rows: found } = await client.query(
+        'SELECT * FROM coupons WHERE id = $1 AND studio_id = $2',
+        [couponId, req.params.studioId],
+      );
+      if (found.length === 0) {
+        return res.status(404).json({ error: 'Coupon not found' });
+      }
+      const validUntil =
+        updates.validUntil !== undefined ? updates.validUntil : found[0].valid_until;
+      if (validUntil && found[0].valid_from && validUntil < found[0].valid_from) {
+        return res.status(400).json({ error: 'validUntil must not be before validFrom' });
+      }
+
+      const { rows } = await client.query(
+        `UPDATE coupons
+         SET active = COALESCE($1, active), max_uses = $2, valid_until = $3
+         WHERE id = $4
+         RETURNING *`,
+        [
+          updates.active ?? null,
+          updates.maxUses !== undefined ? updates.maxUses : found[0].max_uses,
+          validUntil,
+          couponId,
+        ],
+      );
+      res.json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error updating coupon:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+export default router;
@@ -1,13 +1,33 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { getDbClient } from '../db';
-import type { Slot } from '../types';
+import { createBookingWithinCapacity, waitlistPosition } from '../bookings/capacity';
+import { creditSummary } from '../bookings/credits';
+import { changeBookingStatus } from '../bookings/lifecycle';
+import { listMemberships } from '../bookings/memberships';
+import { createBookingPaymentLink } from '../bookings/online-payments';
+import { freeCancellationDeadline } from '../bookings/policy';
+import { findEffectiveOccurrence, listOccurrences } from '../scheduling/occurrences';
+import { fromZoned, localDateOf } from '../scheduling/timezone';
+import type { ZonedDateTime } from '../scheduling/timezone';
+import { idempotent } from '../middleware/idempotency';
+import { getPaymentProvider } from '../payments/provider';
+import type { BookingActor, Slot, SlotsByDay } from '../types';
 
 const router = Router();
 
+type LocalDate = Pick<ZonedDateTime, 'year' | 'month' | 'day'>;
+
+// Changes made by customers through their invite link
+const INVITE_ACTOR: BookingActor = { source: 'invite' };
+
 // Validation schema for booking creation (public invite)
 // Note: child data is optional here; route logic enforces it based on slot.for_children
 const createBookingSchema = z.object({
+  occurrenceDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'occurrenceDate must be YYYY-MM-DD')
+    .optional(),
   childId: z.string().uuid().optional(),
   child: z
     .object({
@@ -15,10 +35,14 @@ const createBookingSchema = z.object({
       avatarKey: z.string().optional(),
     })
     .optional(),
+  waitlist: z.boolean().optional(),
+  couponCode: z.string().min(1).max(50).optional(),
+  payNow: z.boolean().optional(), // Return a payment_url to pay online
 });
 
-// Helper function to parse week parameter (YYYY-WW format)
-function parseWeekParam(week: string): { startDate: Date; endDate: Date } | null {
+// Helper function to parse week parameter (YYYY-WW format) into the local dates of its Monday
+// and of the following Monday
+function parseWeekParam(week: string): { start: LocalDate; end: LocalDate } | null {
   const match = week.match(/^(\d{4})-(\d{2})$/);
   if (!match) return null;
 
@@ -27,15 +51,25 @@ function parseWeekParam(week: string): { startDate: Date; endDate: Date } | null
 
   if (weekNum < 1 || weekNum > 53) return null;
 
-  // Calculate the first day of the week (Monday)
-  const startDate = new Date(year, 0, 1 + (weekNum - 1) * 7);
-  const day = startDate.getDay();
-  startDate.setDate(startDate.getDate() - (day === 0 ? 6 : day - 1));
+  // Calculate the first day of the week (Monday), as a calendar date
+  const monday = new Date(Date.UTC(year, 0, 1 + (weekNum - 1) * 7));
+  const day = monday.getUTCDay();
+  monday.setUTCDate(monday.getUTCDate() - (day === 0 ? 6 : day - 1));
 
-  const endDate = new Date(startDate);
-  endDate.setDate(endDate.getDate() + 6); // End of week (Sunday)
+  const next = new Date(monday);
+  next.setUTCDate(next.getUTCDate() + 7); // Exclusive end: the following Monday
+
+  const local = (date: Date) => ({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  });
+  return { start: local(monday), end: local(next) };
+}
 
-  return { startDate, endDate };
+// Midnight at the start of a local date in the studio's timezone
+function startOfDay(date: LocalDate, timezone: string): Date {
+  return fromZoned({ ...date, hour: 0, minute: 0, second: 0 }, timezone);
 }
 
 // GET /public/:slug/slots?week=YYYY-WW - Get slots for a studio by week
@@ -64,31 +98,51 @@ router.get('/:slug/slots', async (req, res) => {
     }
 
     const studio = studioQuery.rows[0];
+    // The week runs from Monday to Monday in the studio's timezone
+    const weekStart = startOfDay(weekRange.start, studio.timezone);
+    const weekEnd = startOfDay(weekRange.end, studio.timezone);
 
-    // Get slots for the week that are active
+    // Active one-time slots in the week, recurring series that started before it ends, and
+    // slots with an occurrence moved into it
     const slotsQuery = `
       SELECT * FROM slots 
       WHERE studio_id = $1 
         AND active = true 
-        AND starts_at >= $2 
-        AND starts_at <= $3
+        AND ((starts_at < $3 AND (recurrence_rule IS NOT NULL OR starts_at >= $2))
+             OR EXISTS (SELECT 1 FROM slot_exceptions e
+                        WHERE e.slot_id = slots.id AND e.starts_at >= $2 AND e.starts_at < $3))
       ORDER BY starts_at ASC
     `;
 
     const { rows: slots } = await client.query(slotsQuery, [
       studio.id,
-      weekRange.startDate.toISOString(),
-      weekRange.endDate.toISOString(),
+      weekStart.toISOString(),
+      weekEnd.toISOString(),
     ]);
 
-    // Group slots by day
-    const slotsByDay: { [key: string]: Slot[] } = {};
-    slots.forEach((slot: Slot) => {
-      const date = new Date(slot.starts_at).toISOString().split('T')[0];
-      if (!slotsByDay[date]) {
-        slotsByDay[date] = [];
+    // Expand recurring slots into the week's occurrences, applying per-occurrence exceptions
+    const occurrences = await listOccurrences(
+      client,
+      slots as Slot[],
+      studio.timezone,
+      weekStart,
+      weekEnd,
+    );
+
+    // Group occurrences by local day in the studio timezone
+    const slotsByDay: SlotsByDay = {};
+    occurrences.forEach(({ slot, occurrence }) => {
+      const day = localDateOf(occurrence.startsAt, studio.timezone);
+      if (!slotsByDay[day]) {
+        slotsByDay[day] = [];
       }
-      slotsByDay[date].push(slot);
+      slotsByDay[day].push({
+        ...slot,
+        starts_at: occurrence.startsAt,
+        price: occurrence.price,
+        max_participants: occurrence.maxParticipants,
+        occurrence_date: occurrence.date,
+      });
     });
 
     res.json({
@@ -102,8 +156,107 @@ router.get('/:slug/slots', async (req, res) => {
   }
 });
 
+// GET /public/invites/:hash - Customer portal: studio, customer, children and upcoming bookings
+router.get('/invites/:hash', async (req, res) => {
+  try {
+    const client = getDbClient();
+    const inviteResult = await client.query(
+      `SELECT i.customer_id, i.expires_at,
+              c.first_name, c.avatar_key,
+              s.id as studio_id, s.slug, s.name, s.timezone, s.currency,
+              s.free_cancellation_hours, s.late_cancellation_action
+       FROM invites i
+       JOIN customers c ON i.customer_id = c.id
+       JOIN studios s ON i.studio_id = s.id
+       WHERE i.short_hash = $1 AND i.expires_at > NOW()`,
+      [req.params.hash],
+    );
+    if (inviteResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Invite not found or expired' });
+    }
+    const invite = inviteResult.rows[0];
+
+    const { rows: children } = await client.query(
+      'SELECT id, first_name, avatar_key FROM children WHERE customer_id = $1 ORDER BY first_name',
+      [invite.customer_id],
+    );
+
+    // Bookings of the customer or their children from today (studio time) onwards
+    const { rows: bookings } = await client.query(
+      `SELECT b.id, b.status, b.slot_id, b.occurrence_date, b.child_id, b.paid, b.price as booked_price,
+              ch.first_name as child_name,
+              s.title as slot_title, s.duration_min, s.price, s.max_participants,
+              s.starts_at, s.recurrence_rule
+       FROM bookings b
+       JOIN slots s ON b.slot_id = s.id
+       LEFT JOIN children ch ON b.child_id = ch.id
+       WHERE (b.customer_id = $1 OR ch.customer_id = $1)
+         AND b.status IN ('CONFIRMED', 'WAITLISTED')
+         AND b.occurrence_date >= (now() AT TIME ZONE $2)::date
+       ORDER BY b.occurrence_date, s.starts_at`,
+      [invite.customer_id, invite.timezone],
+    );
+
+    const now = new Date();
+    const upcoming = [];
+    for (const booking of bookings) {
+      const slot = { ...booking, id: booking.slot_id };
+      const occurrence = await findEffectiveOccurrence(
+        client,
+        slot,
+        invite.timezone,
+        booking.occurrence_date,
+      );
+      if (!occurrence || occurrence.startsAt < now) continue;
+
+      const cancelUntil = freeCancellationDeadline(invite, occurrence.startsAt);
+      upcoming.push({
+        id: booking.id,
+        status: booking.status,
+        slot_id: booking.slot_id,
+        slot_title: booking.slot_title,
+        occurrence_date: booking.occurrence_date,
+        starts_at: occurrence.startsAt,
+        duration_min: booking.duration_min,
+        price: booking.booked_price,
+        child_id: booking.child_id,
+        child_name: booking.child_name,
+        paid: booking.paid,
+        waitlist_position:
+          booking.status === 'WAITLISTED' ? await waitlistPosition(client, booking.id) : null,
+        free_cancellation_until: cancelUntil,
+        can_cancel: booking.status === 'WAITLISTED' || !cancelUntil || now <= cancelUntil,
+      });
+    }
+
+    res.json({
+      studio: {
+        slug: invite.slug,
+        name: invite.name,
+        timezone: invite.timezone,
+        currency: invite.currency,
+        free_cancellation_hours: invite.free_cancellation_hours,
+        late_cancellation_action: invite.late_cancellation_action,
+      },
+      customer: {
+        id: invite.customer_id,
+        first_name: invite.first_name,
+        avatar_key: invite.avatar_key,
+      },
+      children,
+      credits: await creditSummary(client, invite.customer_id),
+      memberships: await listMemberships(client, invite.customer_id),
+      upcoming_bookings: upcoming,
+      expires_at: invite.expires_at,
+    });
+  } catch (error) {
+    console.error('Error fetching invite portal:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /public/invites/:hash/bookings - Create a booking using invite hash
-router.post('/invites/:hash/bookings', async (req, res) => {
+router.post('/invites/:hash/bookings', idempotent(), async (req, res) => {
   try {
     const { hash } = req.params;
 
@@ -123,7 +276,12 @@ router.post('/invites/:hash/bookings', async (req, res) => {
     }
 
     const invite = inviteResult.rows[0];
-    const { childId, child } = createBookingSchema.parse(req.body);
+    const { occurrenceDate, childId, child, waitlist, couponCode, payNow } =
+      createBookingSchema.parse(req.body);
+    const provider = payNow ? getPaymentProvider() : null;
+    if (payNow && !provider) {
+      return res.status(400).json({ error: 'Online payments are not available' });
+    }
 
     // Get slot_id from request body (should be added to schema)
     const slotId = req.body.slotId;
@@ -173,20 +331,41 @@ router.post('/invites/:hash/bookings', async (req, res) => {
       return res.status(400).json({ error: 'This slot is not for children' });
     }
 
-    // Create booking
-    const bookingQuery = `
-      INSERT INTO bookings (slot_id, customer_id, child_id, status, created_at, paid, paid_at, paid_method)
-      VALUES ($1, $2, $3, 'CONFIRMED', NOW(), false, NULL, NULL)
-      RETURNING *
-    `;
-
-    const { rows } = await client.query(bookingQuery, [
+    const booking = await createBookingWithinCapacity({
       slotId,
-      slot.for_children ? null : invite.customer_id,
-      slot.for_children ? finalChildId : null,
-    ]);
+      occurrenceDate,
+      customerId: slot.for_children ? null : invite.customer_id,
+      childId: slot.for_children ? finalChildId || null : null,
+      familyId: invite.customer_id,
+      couponCode,
+      waitlist,
+      actor: INVITE_ACTOR,
+    });
+    if (!booking) {
+      return res.status(409).json({ error: 'Slot capacity reached. Cannot create booking.' });
+    }
+    if ('error' in booking) {
+      return res.status(booking.status).json({ error: booking.error });
+    }
 
-    res.status(201).json(rows[0]);
+    if (!provider) {
+      return res.status(201).json(booking);
+    }
+    // Waitlisted and covered bookings have nothing to pay yet. The booking stands when the
+    // provider fails; a link can be asked for again through the pay route.
+    try {
+      const payment = await createBookingPaymentLink(booking.id, provider);
+      res
+        .status(201)
+        .json({ ...booking, payment_url: 'link' in payment ? payment.link.url : null });
+    } catch (error) {
+      console.error('Error creating payment link:', error);
+      res.status(201).json({
+        ...booking,
+        payment_url: null,
+        payment_link_error: 'Online payment is not available right now, please try again later',
+      });
+    }
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
@@ -200,4 +379,107 @@ router.post('/invites/:hash/bookings', async (req, res) => {
   }
 });
 
+// Find a booking of the invited customer (or one of their children) by invite hash
+async function findInviteBooking(
+  hash: string,
+  bookingId: string,
+): Promise<{ booking: { id: string; status: string } } | { error: string; status: 400 | 404 }> {
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(bookingId)) {
+    return { error: 'Invalid booking ID', status: 400 };
+  }
+
+  const client = getDbClient();
+  const inviteResult = await client.query(
+    'SELECT customer_id FROM invites WHERE short_hash = $1 AND expires_at > NOW()',
+    [hash],
+  );
+  if (inviteResult.rows.length === 0) {
+    return { error: 'Invite not found or expired', status: 404 };
+  }
+
+  const bookingResult = await client.query(
+    `SELECT b.id, b.status
+     FROM bookings b
+     LEFT JOIN children ch ON b.child_id = ch.id
+     WHERE b.id = $1 AND (b.customer_id = $2 OR ch.customer_id = $2)`,
+    [bookingId, inviteResult.rows[0].customer_id],
+  );
+  if (bookingResult.rows.length === 0) {
+    return { error: 'Booking not found', status: 404 };
+  }
+  return { booking: bookingResult.rows[0] };
+}
+
+// POST /public/invites/:hash/bookings/:bookingId/pay - Get a link to pay for a booking online
+router.post('/invites/:hash/bookings/:bookingId/pay', async (req, res) => {
+  try {
+    const found = await findInviteBooking(req.params.hash, req.params.bookingId);
+    if ('error' in found) {
+      return res.status(found.status).json({ error: found.error });
+    }
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return res.status(400).json({ error: 'Online payments are not available' });
+    }
+
+    const result = await createBookingPaymentLink(found.booking.id, provider);
+    if ('error' in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.status(201).json({
+      payment_url: result.link.url,
+      amount: result.link.amount,
+      currency: result.link.currency,
+    });
+  } catch (error) {
+    console.error('Error creating payment link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /public/invites/:hash/bookings/:bookingId - Cancel a booking within the free cancellation window
+router.delete('/invites/:hash/bookings/:bookingId', async (req, res) => {
+  try {
+    const found = await findInviteBooking(req.params.hash, req.params.bookingId);
+    if ('error' in found) {
+      return res.status(found.status).json({ error: found.error });
+    }
+
+    // Late cancellations have consequences, so they go through the studio
+    const result = await changeBookingStatus(found.booking.id, 'CANCELLED', INVITE_ACTOR, {
+      rejectLateCancellation: true,
+    });
+    if ('error' in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ message: 'Booking cancelled', booking: result.booking });
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /public/invites/:hash/waitlist/:bookingId - Leave the waitlist using invite hash
+router.delete('/invites/:hash/waitlist/:bookingId', async (req, res) => {
+  try {
+    const found = await findInviteBooking(req.params.hash, req.params.bookingId);
+    if ('error' in found) {
+      return res.status(found.status).json({ error: found.error });
+    }
+    if (found.booking.status !== 'WAITLISTED') {
+      return res.status(409).json({ error: 'Booking is not on the waitlist' });
+    }
+
+    const result = await changeBookingStatus(found.booking.id, 'CANCELLED', INVITE_ACTOR);
+    if ('error' in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ message: 'Left the waitlist', booking: result.booking });
+  } catch (error) {
+    console.error('Error leaving waitlist:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
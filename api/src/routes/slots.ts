@@ -1,73 +1,211 @@
 import { Router } from 'express';
-import type { Response } from 'express';
+import type { NextFunction, Response } from 'express';
 import { z } from 'zod';
-import { getDbClient } from '../db';
-import { requireUser } from '../middleware/auth';
-import type { AuthenticatedRequest } from '../types';
+import { getDbClient, withTransaction } from '../db';
+import type { DbClient } from '../db';
+import { requireUser, requireStudioPermission } from '../middleware/auth';
+import { adminActor, recordStatusChanges } from '../bookings/events';
+import { promoteWaitlist } from '../bookings/capacity';
+import { listRoster, recordAttendance, summarizeAttendance } from '../bookings/attendance';
+import { findOccurrence, isValidRecurrenceRule } from '../scheduling/recurrence';
+import { findEffectiveOccurrence } from '../scheduling/occurrences';
+import type { EffectiveOccurrence } from '../scheduling/occurrences';
+import { parseDate } from '../scheduling/timezone';
+import type { AuthenticatedRequest, Booking, Slot } from '../types';
 
 const router = Router();
 
+const requirePricing = requireStudioPermission('pricing.manage');
+
+// Changing a slot's or an occurrence's price also takes pricing.manage, which managers lack
+function requirePricingForPrice(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (req.body?.price === undefined) return next();
+  return requirePricing(req, res, next);
+}
+
 // Validation schema for slot creation
 const createSlotSchema = z.object({
   title: z.string().min(1).max(200),
   startsAt: z.string().datetime(), // ISO 8601 datetime string
   durationMin: z.number().int().min(1).max(1440), // 1 minute to 24 hours
-  recurrenceRule: z.string().optional(), // RFC 5545 RRULE format
+  recurrenceRule: z
+    .string()
+    .refine(isValidRecurrenceRule, 'Unsupported or malformed recurrence rule')
+    .optional(), // RFC 5545 RRULE format
   price: z.number().min(0),
   minParticipants: z.number().int().min(0),
   maxParticipants: z.number().int().min(1),
   forChildren: z.boolean(),
 });
 
+// Validation schema for slot updates; recurrenceRule: null turns a series into a one-time slot
+const updateSlotSchema = createSlotSchema.partial().extend({
+  recurrenceRule: z
+    .string()
+    .refine(isValidRecurrenceRule, 'Unsupported or malformed recurrence rule')
+    .nullable()
+    .optional(),
+  active: z.boolean().optional(),
+});
+
+// Validation schema for per-occurrence exceptions; null clears an override
+const occurrenceExceptionSchema = z
+  .object({
+    cancelled: z.boolean().optional(),
+    startsAt: z.string().datetime().nullable().optional(),
+    price: z.number().min(0).nullable().optional(),
+    maxParticipants: z.number().int().min(1).nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one of cancelled, startsAt, price or maxParticipants must be provided',
+  });
+
+// Validation schema for a bulk check-in of one occurrence
+const attendanceSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        bookingId: z.string().uuid(),
+        status: z.enum(['ATTENDED', 'NO_SHOW']),
+      }),
+    )
+    .min(1)
+    .max(200)
+    .refine(
+      (entries) => new Set(entries.map((entry) => entry.bookingId)).size === entries.length,
+      'Each booking can only be listed once',
+    ),
+});
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type StudioSlot = Slot & { timezone: string };
+
+// Load a slot of the given studio together with the studio timezone. With lock, the slot row
+// is locked like bookings do (see bookings/capacity.ts) so capacity checks cannot race them.
+async function findStudioSlot(
+  client: DbClient,
+  studioId: string,
+  slotId: string,
+  lock = false,
+): Promise<StudioSlot | null> {
+  const { rows } = await client.query(
+    `SELECT s.*, st.timezone
+     FROM slots s
+     JOIN studios st ON s.studio_id = st.id
+     WHERE s.id = $1 AND s.studio_id = $2
+     ${lock ? 'FOR UPDATE OF s' : ''}`,
+    [slotId, studioId],
+  );
+  return rows[0] || null;
+}
+
+async function countOccurrenceBookings(
+  client: DbClient,
+  slotId: string,
+  occurrenceDate: string,
+): Promise<number> {
+  const { rows } = await client.query(
+    `SELECT COUNT(*)::int as count
+     FROM bookings
+     WHERE slot_id = $1 AND occurrence_date = $2 AND status NOT IN ('CANCELLED', 'WAITLISTED')`,
+    [slotId, occurrenceDate],
+  );
+  return rows[0].count;
+}
+
+// Seat-holding (not cancelled or waitlisted) bookings per occurrence from today (studio time) onwards
+async function upcomingBookingCounts(
+  client: DbClient,
+  slotId: string,
+): Promise<{ occurrence_date: string; booked_count: number; max_override: number | null }[]> {
+  const { rows } = await client.query(
+    `SELECT b.occurrence_date, COUNT(*)::int as booked_count, e.max_participants as max_override
+     FROM bookings b
+     JOIN slots s ON b.slot_id = s.id
+     JOIN studios st ON s.studio_id = st.id
+     LEFT JOIN slot_exceptions e
+       ON e.slot_id = b.slot_id AND e.occurrence_date = b.occurrence_date
+     WHERE b.slot_id = $1
+       AND b.status NOT IN ('CANCELLED', 'WAITLISTED')
+       AND b.occurrence_date >= (now() AT TIME ZONE st.timezone)::date
+     GROUP BY b.occurrence_date, e.max_participants
+     ORDER BY b.occurrence_date`,
+    [slotId],
+  );
+  return rows;
+}
+
+// Serve the waitlists of upcoming occurrences, e.g. after capacity was raised
+async function promoteUpcomingWaitlists(client: DbClient, slot: StudioSlot): Promise<Booking[]> {
+  const { rows } = await client.query(
+    `SELECT DISTINCT occurrence_date
+     FROM bookings
+     WHERE slot_id = $1 AND status = 'WAITLISTED'
+       AND occurrence_date >= (now() AT TIME ZONE $2)::date
+     ORDER BY occurrence_date`,
+    [slot.id, slot.timezone],
+  );
+  const promoted: Booking[] = [];
+  for (const { occurrence_date } of rows) {
+    promoted.push(...(await promoteWaitlist(client, slot.id, occurrence_date)));
+  }
+  return promoted;
+}
+
+// Response of a slot change made in a transaction, sent once it has committed
+interface SlotChange {
+  status: number;
+  body: object;
+}
+
+function serializeOccurrence(slot: Slot, occurrence: EffectiveOccurrence, bookedCount: number) {
+  return {
+    slot_id: slot.id,
+    title: slot.title,
+    duration_min: slot.duration_min,
+    for_children: slot.for_children,
+    occurrence_date: occurrence.date,
+    starts_at: occurrence.startsAt,
+    price: occurrence.price,
+    max_participants: occurrence.maxParticipants,
+    cancelled: occurrence.cancelled,
+    booked_count: bookedCount,
+    exception: occurrence.exception,
+  };
+}
+
 // POST /studios/:studioId/slots - Create a new slot for a studio
-router.post('/:studioId/slots', requireUser(), async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    const studioId = req.params.studioId;
-    // Basic UUID format validation (36 chars with hyphens)
-    if (
-      !studioId ||
-      !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(studioId)
-    ) {
-      return res.status(400).json({ error: 'Invalid studio ID' });
-    }
+router.post(
+  '/:studioId/slots',
+  requireUser(),
+  requireStudioPermission('slots.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const studioId = req.params.studioId;
 
-    const {
-      title,
-      startsAt,
-      durationMin,
-      recurrenceRule,
-      price,
-      minParticipants,
-      maxParticipants,
-      forChildren,
-    } = createSlotSchema.parse(req.body);
-
-    // Get the appropriate database client (transaction in tests, regular pool otherwise)
-    const client = getDbClient();
-
-    // Verify studio exists
-    const studioCheck = await client.query('SELECT id FROM studios WHERE id = $1', [studioId]);
-    if (studioCheck.rows.length === 0) {
-      return res.status(404).json({ error: 'Studio not found' });
-    }
+      const {
+        title,
+        startsAt,
+        durationMin,
+        recurrenceRule,
+        price,
+        minParticipants,
+        maxParticipants,
+        forChildren,
+      } = createSlotSchema.parse(req.body);
 
-    // Validate min/max participants
-    if (minParticipants > maxParticipants) {
-      return res.status(400).json({
-        error: 'Minimum participants cannot exceed maximum participants',
-      });
-    }
+      // Get the appropriate database client (transaction in tests, regular pool otherwise)
+      const client = getDbClient();
 
-    // Ownership check after we know studio exists and input is valid
-    const ownerCheck = await client.query(
-      'SELECT 1 FROM studio_owners WHERE studio_id = $1 AND user_id = $2 LIMIT 1',
-      [studioId, req.user?.userId],
-    );
-    if (ownerCheck.rowCount === 0) {
-      return res.status(403).json({ error: 'forbidden' });
-    }
+      // Validate min/max participants
+      if (minParticipants > maxParticipants) {
+        return res.status(400).json({
+          error: 'Minimum participants cannot exceed maximum participants',
+        });
+      }
 
-    const query = `
+      const query = `
       INSERT INTO slots (
         studio_id, title, starts_at, duration_min, recurrence_rule, 
         price, min_participants, max_participants, for_children, active
@@ -76,30 +214,608 @@ router.post('/:studioId/slots', requireUser(), async (req: AuthenticatedRequest,
       RETURNING *
     `;
 
-    const { rows } = await client.query(query, [
-      studioId,
-      title,
-      startsAt,
-      durationMin,
-      recurrenceRule || null,
-      price,
-      minParticipants,
-      maxParticipants,
-      forChildren,
-    ]);
-
-    res.status(201).json(rows[0]);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({
-        error: 'Validation failed',
-        details: error.issues,
+      const { rows } = await client.query(query, [
+        studioId,
+        title,
+        startsAt,
+        durationMin,
+        recurrenceRule || null,
+        price,
+        minParticipants,
+        maxParticipants,
+        forChildren,
+      ]);
+
+      res.status(201).json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error creating slot:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/slots - List a studio's slots
+router.get(
+  '/:studioId/slots',
+  requireUser(),
+  requireStudioPermission('slots.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId } = req.params;
+      const { active } = req.query;
+      if (active !== undefined && active !== 'true' && active !== 'false') {
+        return res.status(400).json({ error: 'active must be true or false' });
+      }
+
+      const values: unknown[] = [studioId];
+      let activeFilter = '';
+      if (active !== undefined) {
+        values.push(active === 'true');
+        activeFilter = 'AND s.active = $2';
+      }
+
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `SELECT s.*,
+                (SELECT COUNT(*)::int FROM bookings b
+                 WHERE b.slot_id = s.id
+                   AND b.status NOT IN ('CANCELLED', 'WAITLISTED')
+                   AND b.occurrence_date >= (now() AT TIME ZONE st.timezone)::date
+                ) as upcoming_bookings
+         FROM slots s
+         JOIN studios st ON s.studio_id = st.id
+         WHERE s.studio_id = $1 ${activeFilter}
+         ORDER BY s.starts_at, s.title`,
+        values,
+      );
+
+      res.json(rows);
+    } catch (error) {
+      console.error('Error fetching slots:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/slots/:id - Get a slot
+router.get(
+  '/:studioId/slots/:id',
+  requireUser(),
+  requireStudioPermission('slots.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, id: slotId } = req.params;
+      if (!UUID_RE.test(slotId)) {
+        return res.status(400).json({ error: 'Invalid slot ID' });
+      }
+
+      const client = getDbClient();
+      const { rows } = await client.query('SELECT * FROM slots WHERE id = $1 AND studio_id = $2', [
+        slotId,
+        studioId,
+      ]);
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Slot not found' });
+      }
+
+      res.json({ ...rows[0], upcoming_bookings: await upcomingBookingCounts(client, slotId) });
+    } catch (error) {
+      console.error('Error fetching slot:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+/**
+ * PATCH /studios/:studioId/slots/:id - Update a slot.
+ * Existing bookings on upcoming occurrences are protected: capacity cannot drop below any
+ * occurrence's booking count, and schedule or forChildren changes that would orphan them are
+ * rejected (409). Setting active=false cancels bookings on upcoming occurrences; reactivating
+ * does not restore them. Past bookings are never touched.
+ */
+router.patch(
+  '/:studioId/slots/:id',
+  requireUser(),
+  requireStudioPermission('slots.manage'),
+  requirePricingForPrice,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, id: slotId } = req.params;
+      if (!UUID_RE.test(slotId)) {
+        return res.status(400).json({ error: 'Invalid slot ID' });
+      }
+
+      const updates = updateSlotSchema.parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: 'No fields to update' });
+      }
+
+      // The checks against current bookings, the update and the deactivation cancel happen
+      // together, under the slot lock bookings take
+      const result = await withTransaction(async (client): Promise<SlotChange> => {
+        const slot = await findStudioSlot(client, studioId, slotId, true);
+        if (!slot) return { status: 404, body: { error: 'Slot not found' } };
+
+        const minParticipants = updates.minParticipants ?? slot.min_participants;
+        const maxParticipants = updates.maxParticipants ?? slot.max_participants;
+        if (minParticipants > maxParticipants) {
+          return {
+            status: 400,
+            body: { error: 'Minimum participants cannot exceed maximum participants' },
+          };
+        }
+
+        const deactivating = updates.active === false && slot.active;
+        const upcoming = await upcomingBookingCounts(client, slotId);
+
+        // Checks below only matter for bookings that survive the update
+        if (!deactivating && upcoming.length > 0) {
+          if (updates.maxParticipants !== undefined) {
+            const overbooked = upcoming.filter(
+              (o) => o.max_override === null && o.booked_count > updates.maxParticipants!,
+            );
+            if (overbooked.length > 0) {
+              return {
+                status: 409,
+                body: {
+                  error: 'Capacity cannot be lowered below the number of existing bookings',
+                  occurrences: overbooked.map(({ occurrence_date, booked_count }) => ({
+                    occurrence_date,
+                    booked_count,
+                  })),
+                },
+              };
+            }
+          }
+
+          if (updates.startsAt !== undefined || updates.recurrenceRule !== undefined) {
+            const rescheduled = {
+              starts_at: updates.startsAt ?? slot.starts_at,
+              recurrence_rule:
+                updates.recurrenceRule !== undefined
+                  ? updates.recurrenceRule
+                  : slot.recurrence_rule,
+            };
+            const orphaned = upcoming.filter(
+              (o) => !findOccurrence(rescheduled, slot.timezone, o.occurrence_date),
+            );
+            if (orphaned.length > 0) {
+              return {
+                status: 409,
+                body: {
+                  error: 'Schedule change would drop occurrences that have bookings',
+                  occurrences: orphaned.map(({ occurrence_date, booked_count }) => ({
+                    occurrence_date,
+                    booked_count,
+                  })),
+                },
+              };
+            }
+          }
+
+          if (updates.forChildren !== undefined && updates.forChildren !== slot.for_children) {
+            return {
+              status: 409,
+              body: { error: 'forChildren cannot be changed while the slot has upcoming bookings' },
+            };
+          }
+        }
+
+        // Build dynamic update query
+        const columns: Record<string, unknown> = {
+          title: updates.title,
+          starts_at: updates.startsAt,
+          duration_min: updates.durationMin,
+          recurrence_rule: updates.recurrenceRule,
+          price: updates.price,
+          min_participants: updates.minParticipants,
+          max_participants: updates.maxParticipants,
+          for_children: updates.forChildren,
+          active: updates.active,
+        };
+        const setClause = [];
+        const values = [];
+        let paramIndex = 1;
+        for (const [column, value] of Object.entries(columns)) {
+          if (value === undefined) continue;
+          setClause.push(`${column} = $${paramIndex++}`);
+          values.push(value);
+        }
+        values.push(slotId);
+
+        const { rows } = await client.query(
+          `UPDATE slots SET ${setClause.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+          values,
+        );
+
+        // Classes cancelled by the studio release their memberships and credits; attendance
+        // already recorded today stays
+        let cancelledBookings = 0;
+        if (deactivating) {
+          const cancelled = await client.query(
+            `UPDATE bookings b
+             SET status = 'CANCELLED', cancelled_at = now(),
+                 membership_id = NULL, credit_package_id = NULL
+             FROM bookings prev
+             WHERE prev.id = b.id
+               AND b.slot_id = $1
+               AND b.status IN ('CONFIRMED', 'WAITLISTED')
+               AND b.occurrence_date >= (now() AT TIME ZONE $2)::date
+             RETURNING b.id, prev.status as previous_status`,
+            [slotId, slot.timezone],
+          );
+          await recordStatusChanges(client, cancelled.rows, 'CANCELLED', adminActor(req), {
+            reason: 'slot_deactivated',
+          });
+          cancelledBookings = cancelled.rowCount ?? 0;
+        }
+
+        // Seats added to the series go to the waitlists first
+        const promoted =
+          updates.maxParticipants !== undefined && !deactivating
+            ? await promoteUpcomingWaitlists(client, slot)
+            : [];
+
+        return {
+          status: 200,
+          body: { ...rows[0], cancelled_bookings: cancelledBookings, promoted_bookings: promoted },
+        };
       });
+
+      res.status(result.status).json(result.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error updating slot:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
+  },
+);
 
-    console.error('Error creating slot:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+// DELETE /studios/:studioId/slots/:id - Delete a slot that has never been booked
+router.delete(
+  '/:studioId/slots/:id',
+  requireUser(),
+  requireStudioPermission('slots.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, id: slotId } = req.params;
+      if (!UUID_RE.test(slotId)) {
+        return res.status(400).json({ error: 'Invalid slot ID' });
+      }
+
+      const client = getDbClient();
+      const slot = await findStudioSlot(client, studioId, slotId);
+      if (!slot) {
+        return res.status(404).json({ error: 'Slot not found' });
+      }
+
+      // Bookings (including past and cancelled ones) are history; keep them by deactivating instead
+      const { rows } = await client.query(
+        'SELECT COUNT(*)::int as count FROM bookings WHERE slot_id = $1',
+        [slotId],
+      );
+      if (rows[0].count > 0) {
+        return res.status(409).json({
+          error: 'Slot has bookings; deactivate it instead',
+          bookings_count: rows[0].count,
+        });
+      }
+
+      await client.query('DELETE FROM slots WHERE id = $1', [slotId]);
+      res.json({ message: 'Slot deleted successfully', deleted: { slot_id: slotId } });
+    } catch (error) {
+      console.error('Error deleting slot:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/slots/:id/occurrences/:date - Get a single occurrence with exceptions applied
+router.get(
+  '/:studioId/slots/:id/occurrences/:date',
+  requireUser(),
+  requireStudioPermission('slots.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, id: slotId, date } = req.params;
+      if (!UUID_RE.test(slotId)) {
+        return res.status(400).json({ error: 'Invalid slot ID' });
+      }
+      if (!parseDate(date)) {
+        return res.status(400).json({ error: 'Invalid occurrence date. Use YYYY-MM-DD' });
+      }
+
+      const client = getDbClient();
+      const slot = await findStudioSlot(client, studioId, slotId);
+      if (!slot) {
+        return res.status(404).json({ error: 'Slot not found' });
+      }
+
+      const occurrence = await findEffectiveOccurrence(client, slot, slot.timezone, date);
+      if (!occurrence) {
+        return res.status(404).json({ error: 'Occurrence not found' });
+      }
+
+      const bookedCount = await countOccurrenceBookings(client, slotId, date);
+      res.json(serializeOccurrence(slot, occurrence, bookedCount));
+    } catch (error) {
+      console.error('Error fetching occurrence:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/slots/:id/occurrences/:date/roster - Participants of an occurrence for check-in
+router.get(
+  '/:studioId/slots/:id/occurrences/:date/roster',
+  requireUser(),
+  requireStudioPermission('rosters.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, id: slotId, date } = req.params;
+      if (!UUID_RE.test(slotId)) {
+        return res.status(400).json({ error: 'Invalid slot ID' });
+      }
+      if (!parseDate(date)) {
+        return res.status(400).json({ error: 'Invalid occurrence date. Use YYYY-MM-DD' });
+      }
+
+      const client = getDbClient();
+      const slot = await findStudioSlot(client, studioId, slotId);
+      if (!slot) {
+        return res.status(404).json({ error: 'Slot not found' });
+      }
+
+      const occurrence = await findEffectiveOccurrence(client, slot, slot.timezone, date);
+      if (!occurrence) {
+        return res.status(404).json({ error: 'Occurrence not found' });
+      }
+
+      const participants = await listRoster(client, slotId, date);
+      res.json({
+        ...serializeOccurrence(slot, occurrence, participants.length),
+        participants,
+        attendance: summarizeAttendance(participants),
+      });
+    } catch (error) {
+      console.error('Error fetching roster:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// POST /studios/:studioId/slots/:id/occurrences/:date/attendance - Check in participants
+router.post(
+  '/:studioId/slots/:id/occurrences/:date/attendance',
+  requireUser(),
+  requireStudioPermission('attendance.record'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, id: slotId, date } = req.params;
+      if (!UUID_RE.test(slotId)) {
+        return res.status(400).json({ error: 'Invalid slot ID' });
+      }
+      if (!parseDate(date)) {
+        return res.status(400).json({ error: 'Invalid occurrence date. Use YYYY-MM-DD' });
+      }
+
+      const { entries } = attendanceSchema.parse(req.body);
+
+      const client = getDbClient();
+      const slot = await findStudioSlot(client, studioId, slotId);
+      if (!slot) {
+        return res.status(404).json({ error: 'Slot not found' });
+      }
+
+      const result = await recordAttendance(slotId, date, entries, adminActor(req));
+      if ('error' in result) {
+        return res
+          .status(result.status)
+          .json({ error: result.error, booking_id: result.bookingId });
+      }
+
+      const participants = await listRoster(client, slotId, date);
+      res.json({ bookings: result.bookings, attendance: summarizeAttendance(participants) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error recording attendance:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// PUT /studios/:studioId/slots/:id/occurrences/:date - Cancel or override a single occurrence
+router.put(
+  '/:studioId/slots/:id/occurrences/:date',
+  requireUser(),
+  requireStudioPermission('slots.manage'),
+  requirePricingForPrice,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, id: slotId, date } = req.params;
+      if (!UUID_RE.test(slotId)) {
+        return res.status(400).json({ error: 'Invalid slot ID' });
+      }
+      if (!parseDate(date)) {
+        return res.status(400).json({ error: 'Invalid occurrence date. Use YYYY-MM-DD' });
+      }
+
+      const updates = occurrenceExceptionSchema.parse(req.body);
+
+      // The exception and the cancellation of its bookings apply together, under the slot lock
+      const result = await withTransaction(async (client): Promise<SlotChange> => {
+        const slot = await findStudioSlot(client, studioId, slotId, true);
+        if (!slot) return { status: 404, body: { error: 'Slot not found' } };
+
+        const current = await findEffectiveOccurrence(client, slot, slot.timezone, date);
+        if (!current) return { status: 404, body: { error: 'Occurrence not found' } };
+
+        // Fields left out keep their current override; null clears it
+        const existing = current.exception;
+        const cancelled = updates.cancelled ?? existing?.cancelled ?? false;
+        const startsAt =
+          updates.startsAt !== undefined ? updates.startsAt : (existing?.starts_at ?? null);
+        const price = updates.price !== undefined ? updates.price : (existing?.price ?? null);
+        const maxParticipants =
+          updates.maxParticipants !== undefined
+            ? updates.maxParticipants
+            : (existing?.max_participants ?? null);
+
+        // Compare with the capacity in effect afterwards: clearing the override means the series'
+        const bookedCount = await countOccurrenceBookings(client, slotId, date);
+        if (!cancelled && (maxParticipants ?? slot.max_participants) < bookedCount) {
+          return {
+            status: 409,
+            body: {
+              error: 'Capacity cannot be lowered below the number of existing bookings',
+              booked_count: bookedCount,
+            },
+          };
+        }
+
+        await client.query(
+          `INSERT INTO slot_exceptions (slot_id, occurrence_date, cancelled, starts_at, price, max_participants)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (slot_id, occurrence_date) DO UPDATE SET
+             cancelled = excluded.cancelled,
+             starts_at = excluded.starts_at,
+             price = excluded.price,
+             max_participants = excluded.max_participants`,
+          [slotId, date, cancelled, startsAt, price, maxParticipants],
+        );
+
+        // Cancelling an occurrence cancels its active bookings and releases their memberships and
+        // credits; recorded attendance stays
+        let cancelledBookings = 0;
+        if (cancelled && !current.cancelled) {
+          const cancelledRows = await client.query(
+            `UPDATE bookings b
+             SET status = 'CANCELLED', cancelled_at = now(),
+                 membership_id = NULL, credit_package_id = NULL
+             FROM bookings prev
+             WHERE prev.id = b.id
+               AND b.slot_id = $1 AND b.occurrence_date = $2
+               AND b.status IN ('CONFIRMED', 'WAITLISTED')
+             RETURNING b.id, prev.status as previous_status`,
+            [slotId, date],
+          );
+          await recordStatusChanges(client, cancelledRows.rows, 'CANCELLED', adminActor(req), {
+            reason: 'occurrence_cancelled',
+          });
+          cancelledBookings = cancelledRows.rowCount ?? 0;
+        }
+
+        // Seats added to the occurrence go to its waitlist first
+        const promoted = cancelled ? [] : await promoteWaitlist(client, slotId, date);
+
+        const occurrence = await findEffectiveOccurrence(client, slot, slot.timezone, date);
+        return {
+          status: 200,
+          body: {
+            ...serializeOccurrence(
+              slot,
+              occurrence!,
+              cancelled ? 0 : bookedCount + promoted.length,
+            ),
+            cancelled_bookings: cancelledBookings,
+            promoted_bookings: promoted,
+          },
+        };
+      });
+
+      res.status(result.status).json(result.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error updating occurrence:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// DELETE /studios/:studioId/slots/:id/occurrences/:date - Remove an exception, restoring the series values
+router.delete(
+  '/:studioId/slots/:id/occurrences/:date',
+  requireUser(),
+  requireStudioPermission('slots.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, id: slotId, date } = req.params;
+      if (!UUID_RE.test(slotId)) {
+        return res.status(400).json({ error: 'Invalid slot ID' });
+      }
+      if (!parseDate(date)) {
+        return res.status(400).json({ error: 'Invalid occurrence date. Use YYYY-MM-DD' });
+      }
+
+      const result = await withTransaction(async (client): Promise<SlotChange> => {
+        const slot = await findStudioSlot(client, studioId, slotId, true);
+        if (!slot) return { status: 404, body: { error: 'Slot not found' } };
+
+        // Without the override the series capacity applies again; it must hold the bookings
+        const bookedCount = await countOccurrenceBookings(client, slotId, date);
+        if (bookedCount > slot.max_participants) {
+          return {
+            status: 409,
+            body: {
+              error: 'Capacity cannot be lowered below the number of existing bookings',
+              booked_count: bookedCount,
+            },
+          };
+        }
+
+        const removed = await client.query(
+          'DELETE FROM slot_exceptions WHERE slot_id = $1 AND occurrence_date = $2',
+          [slotId, date],
+        );
+        if (removed.rowCount === 0) {
+          return { status: 404, body: { error: 'No exception for this occurrence' } };
+        }
+
+        // The series capacity may be larger than the override was
+        const promoted = await promoteWaitlist(client, slotId, date);
+
+        const occurrence = await findEffectiveOccurrence(client, slot, slot.timezone, date);
+        if (!occurrence) return { status: 200, body: { message: 'Exception removed' } };
+        return {
+          status: 200,
+          body: {
+            ...serializeOccurrence(slot, occurrence, bookedCount + promoted.length),
+            promoted_bookings: promoted,
+          },
+        };
+      });
+
+      res.status(result.status).json(result.body);
+    } catch (error) {
+      console.error('Error removing occurrence exception:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
 
 export default router;
@@ -2,7 +2,9 @@ import { Router } from 'express';
 import type { Response } from 'express';
 import { z } from 'zod';
 import { getDbClient } from '../db';
-import { requireUser } from '../middleware/auth';
+import { requireUser, requireStudioPermission } from '../middleware/auth';
+import { attendanceStats } from '../bookings/attendance';
+import { parseDate } from '../scheduling/timezone';
 import type { AuthenticatedRequest } from '../types';
 
 const router = Router();
@@ -22,6 +24,40 @@ const createStudioSchema = z.object({
     .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO-4217 code'),
 });
 
+// Validation schema for the cancellation policy; null hours means cancelling is always free
+const cancellationPolicySchema = z.object({
+  freeCancellationHours: z
+    .number()
+    .int()
+    .min(0)
+    .max(24 * 30)
+    .nullable(),
+  lateCancellationAction: z.enum(['charge', 'forfeit_credit']).optional(),
+});
+
+// Validation schema for the business details printed on receipts; no vatRate means VAT exempt
+const businessDetailsSchema = z.object({
+  businessName: z.string().min(1).max(200).nullable().optional(), // Defaults to the studio name
+  taxId: z.string().min(1).max(50).nullable().optional(),
+  address: z.string().min(1).max(500).nullable().optional(),
+  vatRate: z.number().min(0).max(99).nullable().optional(),
+});
+
+// Validation schema for membership plans; no weeklyLimit means unlimited classes
+const createMembershipPlanSchema = z.object({
+  name: z.string().min(1).max(100),
+  weeklyLimit: z.number().int().min(1).max(50).nullable().optional(),
+  forChildren: z.boolean().nullable().optional(), // Omitted: children's and adult classes
+});
+
+// Validation schema for attendance stats; occurrence dates, both inclusive
+const attendanceStatsQuerySchema = z
+  .object({
+    from: z.string().refine((value) => !!parseDate(value), 'Use YYYY-MM-DD'),
+    to: z.string().refine((value) => !!parseDate(value), 'Use YYYY-MM-DD'),
+  })
+  .refine((range) => range.from <= range.to, { message: 'from must not be after to' });
+
 // POST /studios - Create a new studio (requires user)
 router.post('/', requireUser(), async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -66,4 +102,223 @@ router.post('/', requireUser(), async (req: AuthenticatedRequest, res: Response)
   }
 });
 
+// GET /studios/:studioId/business-details - Get the business details printed on receipts
+router.get(
+  '/:studioId/business-details',
+  requireUser(),
+  requireStudioPermission('settings.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `SELECT business_name, business_tax_id, business_address, vat_rate, last_receipt_number
+         FROM studios WHERE id = $1`,
+        [req.params.studioId],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+      res.json(rows[0]);
+    } catch (error) {
+      console.error('Error fetching business details:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// PUT /studios/:studioId/business-details - Set the business details for receipts issued from now on
+router.put(
+  '/:studioId/business-details',
+  requireUser(),
+  requireStudioPermission('settings.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { businessName, taxId, address, vatRate } = businessDetailsSchema.parse(req.body);
+
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `UPDATE studios
+         SET business_name = $1, business_tax_id = $2, business_address = $3, vat_rate = $4
+         WHERE id = $5
+         RETURNING business_name, business_tax_id, business_address, vat_rate, last_receipt_number`,
+        [
+          businessName ?? null,
+          taxId ?? null,
+          address ?? null,
+          vatRate ?? null,
+          req.params.studioId,
+        ],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+      res.json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error updating business details:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/cancellation-policy - Get the studio's cancellation policy
+router.get(
+  '/:studioId/cancellation-policy',
+  requireUser(),
+  requireStudioPermission('settings.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const client = getDbClient();
+      const { rows } = await client.query(
+        'SELECT free_cancellation_hours, late_cancellation_action FROM studios WHERE id = $1',
+        [req.params.studioId],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+      res.json(rows[0]);
+    } catch (error) {
+      console.error('Error fetching cancellation policy:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// PUT /studios/:studioId/cancellation-policy - Set the studio's cancellation policy
+router.put(
+  '/:studioId/cancellation-policy',
+  requireUser(),
+  requireStudioPermission('settings.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { freeCancellationHours, lateCancellationAction } = cancellationPolicySchema.parse(
+        req.body,
+      );
+
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `UPDATE studios
+         SET free_cancellation_hours = $1,
+             late_cancellation_action = COALESCE($2, late_cancellation_action)
+         WHERE id = $3
+         RETURNING free_cancellation_hours, late_cancellation_action`,
+        [freeCancellationHours, lateCancellationAction ?? null, req.params.studioId],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Studio not found' });
+      }
+      res.json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error updating cancellation policy:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/attendance?from=YYYY-MM-DD&to=YYYY-MM-DD - Attendance per slot
+router.get(
+  '/:studioId/attendance',
+  requireUser(),
+  requireStudioPermission('reports.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { from, to } = attendanceStatsQuerySchema.parse(req.query);
+
+      const slots = await attendanceStats(getDbClient(), req.params.studioId, from, to);
+      const totals = { attended: 0, no_show: 0, unmarked: 0 };
+      for (const slot of slots) {
+        totals.attended += slot.attended;
+        totals.no_show += slot.no_show;
+        totals.unmarked += slot.unmarked;
+      }
+      const marked = totals.attended + totals.no_show;
+
+      res.json({
+        from,
+        to,
+        totals: {
+          ...totals,
+          // Share of checked-in bookings that attended; null until anyone is checked in
+          attendance_rate: marked > 0 ? Math.round((totals.attended / marked) * 100) / 100 : null,
+        },
+        slots,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error fetching attendance stats:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// POST /studios/:studioId/membership-plans - Create a membership plan
+router.post(
+  '/:studioId/membership-plans',
+  requireUser(),
+  requireStudioPermission('pricing.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { name, weeklyLimit, forChildren } = createMembershipPlanSchema.parse(req.body);
+
+      const client = getDbClient();
+      const { rows } = await client.query(
+        `INSERT INTO membership_plans (studio_id, name, weekly_limit, for_children)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [req.params.studioId, name, weeklyLimit ?? null, forChildren ?? null],
+      );
+      res.status(201).json(rows[0]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error creating membership plan:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/membership-plans - List the studio's membership plans
+router.get(
+  '/:studioId/membership-plans',
+  requireUser(),
+  requireStudioPermission('pricing.view'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const client = getDbClient();
+      const { rows } = await client.query(
+        'SELECT * FROM membership_plans WHERE studio_id = $1 ORDER BY created_at, id',
+        [req.params.studioId],
+      );
+      res.json(rows);
+    } catch (error) {
+      console.error('Error fetching membership plans:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
 export default router;
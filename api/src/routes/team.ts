@@ -0,0 +1,200 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import { z } from 'zod';
+import { getDbClient } from '../db';
+import { requireUser, requireStudioPermission } from '../middleware/auth';
+import {
+  acceptInvitation,
+  changeMemberRole,
+  invitationsFor,
+  inviteStaff,
+  listTeam,
+  removeMember,
+} from '../auth/team';
+import type { AuthenticatedRequest } from '../types';
+
+const router = Router();
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const roleSchema = z.enum(['owner', 'manager', 'instructor']);
+
+// Validation schema for staff invitations; the person signs in with this Google email
+const inviteSchema = z.object({
+  email: z.string().email().max(320),
+  role: roleSchema,
+});
+
+// Validation schema for role changes
+const changeRoleSchema = z.object({
+  role: roleSchema,
+});
+
+// GET /studios/invitations - Pending team invitations sent to the signed-in user's email
+router.get('/invitations', requireUser(), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await invitationsFor(getDbClient(), req.user?.userId ?? null));
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /studios/invitations/:invitationId/accept - Join the studio with the invited role
+router.post(
+  '/invitations/:invitationId/accept',
+  requireUser(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { invitationId } = req.params;
+      if (!UUID_RE.test(invitationId)) {
+        return res.status(400).json({ error: 'Invalid invitation ID' });
+      }
+
+      const result = await acceptInvitation(invitationId, req.user?.userId ?? null);
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result.member);
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// GET /studios/:studioId/team - Members and pending invitations
+router.get(
+  '/:studioId/team',
+  requireUser(),
+  requireStudioPermission('staff.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json(await listTeam(getDbClient(), req.params.studioId));
+    } catch (error) {
+      console.error('Error fetching team:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// POST /studios/:studioId/team/invitations - Invite a person by email
+router.post(
+  '/:studioId/team/invitations',
+  requireUser(),
+  requireStudioPermission('staff.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { email, role } = inviteSchema.parse(req.body);
+
+      const result = await inviteStaff(
+        getDbClient(),
+        req.params.studioId,
+        email,
+        role,
+        req.user?.userId ?? null,
+      );
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.status(201).json(result.invitation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error inviting team member:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// DELETE /studios/:studioId/team/invitations/:invitationId - Revoke a pending invitation
+router.delete(
+  '/:studioId/team/invitations/:invitationId',
+  requireUser(),
+  requireStudioPermission('staff.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, invitationId } = req.params;
+      if (!UUID_RE.test(invitationId)) {
+        return res.status(400).json({ error: 'Invalid invitation ID' });
+      }
+
+      const { rows } = await getDbClient().query(
+        `DELETE FROM staff_invitations
+         WHERE id = $1 AND studio_id = $2 AND accepted_at IS NULL
+         RETURNING *`,
+        [invitationId, studioId],
+      );
+      if (rows.length === 0) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+      res.json({ message: 'Invitation revoked successfully', deleted: rows[0] });
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// PATCH /studios/:studioId/team/:userId - Change a member's role
+router.patch(
+  '/:studioId/team/:userId',
+  requireUser(),
+  requireStudioPermission('staff.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, userId } = req.params;
+      if (!UUID_RE.test(userId)) {
+        return res.status(400).json({ error: 'Invalid user ID' });
+      }
+      const { role } = changeRoleSchema.parse(req.body);
+
+      const result = await changeMemberRole(studioId, userId, role);
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result.member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: error.issues,
+        });
+      }
+
+      console.error('Error changing team member role:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+// DELETE /studios/:studioId/team/:userId - Remove a member; the last owner cannot be removed
+router.delete(
+  '/:studioId/team/:userId',
+  requireUser(),
+  requireStudioPermission('staff.manage'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { studioId, userId } = req.params;
+      if (!UUID_RE.test(userId)) {
+        return res.status(400).json({ error: 'Invalid user ID' });
+      }
+
+      const result = await removeMember(studioId, userId);
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json({ message: 'Team member removed successfully', deleted: result.member });
+    } catch (error) {
+      console.error('Error removing team member:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { getDbClient } from '../db';
+import { handlePaymentWebhook } from '../bookings/online-payments';
+import { signMockWebhook } from '../payments/mock';
+import type { MockWebhookBody } from '../payments/mock';
+import { getPaymentProvider } from '../payments/provider';
+
+// Mounted with express.raw(): providers sign the exact bytes they send
+const router = Router();
+
+// POST /webhooks/payments/:provider - Payment outcome reported by a payment provider
+router.post('/payments/:provider', async (req, res) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ error: 'Payment provider not found' });
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    let event;
+    try {
+      event = provider.parseWebhook(rawBody, req.headers);
+    } catch {
+      return res.status(400).json({ error: 'Invalid webhook body' });
+    }
+    if (!event) {
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+
+    const result = await handlePaymentWebhook(provider, event);
+    if ('error' in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res.json({ received: true, status: result.link.status });
+  } catch (error) {
+    console.error('Error handling payment webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /webhooks/payments/mock/checkout/:ref - The mock provider's payment page: pays at once
+router.get('/payments/mock/checkout/:ref', async (req, res) => {
+  try {
+    const provider = getPaymentProvider('mock');
+    if (!provider) {
+      return res.status(404).json({ error: 'Payment provider not found' });
+    }
+
+    const { rows } = await getDbClient().query(
+      `SELECT * FROM payment_links WHERE provider = 'mock' AND provider_ref = $1`,
+      [req.params.ref],
+    );
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Payment link not found' });
+    }
+
+    // Delivered the way the provider would: signed, through the webhook parser
+    const body: MockWebhookBody = {
+      id: rows[0].provider_ref,
+      status: req.query.fail === 'true' ? 'failed' : 'succeeded',
+      amount: Number(rows[0].amount),
+      currency: rows[0].currency,
+      paid_at: new Date().toISOString(),
+    };
+    const rawBody = Buffer.from(JSON.stringify(body));
+    const event = provider.parseWebhook(rawBody, { 'x-mock-signature': signMockWebhook(rawBody) });
+    if (!event) throw new Error('Mock webhook signature did not verify');
+    const result = await handlePaymentWebhook(provider, event);
+    if ('error' in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    res
+      .type('html')
+      .send(`<!DOCTYPE html><html><body><p>Mock payment ${result.link.status}</p></body></html>`);
+  } catch (error) {
+    console.error('Error handling mock checkout:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,138 @@
+import { expandOccurrences, findOccurrence } from './recurrence';
+import { localDateOf } from './timezone';
+import type { Occurrence, RecurringSource } from './recurrence';
+import type { DbClient } from '../db';
+import type { Slot, SlotException } from '../types';
+
+type OccurrenceSlot = Pick<Slot, 'id' | 'price' | 'max_participants'> & RecurringSource;
+
+// A dated occurrence with its per-occurrence exception (if any) applied
+export interface EffectiveOccurrence extends Occurrence {
+  price: number;
+  maxParticipants: number;
+  cancelled: boolean;
+  exception: SlotException | null;
+}
+
+export type OccurrenceResolution = { occurrence: EffectiveOccurrence } | { error: string };
+
+export function applyException(
+  slot: OccurrenceSlot,
+  occurrence: Occurrence,
+  exception: SlotException | null,
+): EffectiveOccurrence {
+  return {
+    date: occurrence.date,
+    startsAt: exception?.starts_at ? new Date(exception.starts_at) : occurrence.startsAt,
+    price: exception?.price ?? slot.price,
+    maxParticipants: exception?.max_participants ?? slot.max_participants,
+    cancelled: exception?.cancelled ?? false,
+    exception,
+  };
+}
+
+export async function getException(
+  client: DbClient,
+  slotId: string,
+  occurrenceDate: string,
+): Promise<SlotException | null> {
+  const { rows } = await client.query(
+    'SELECT * FROM slot_exceptions WHERE slot_id = $1 AND occurrence_date = $2',
+    [slotId, occurrenceDate],
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Find a slot's occurrence on a local date, with any exception applied.
+ * Cancelled occurrences are returned as such; callers decide how to treat them.
+ */
+export async function findEffectiveOccurrence(
+  client: DbClient,
+  slot: OccurrenceSlot,
+  timezone: string,
+  occurrenceDate: string,
+): Promise<EffectiveOccurrence | null> {
+  const occurrence = findOccurrence(slot, timezone, occurrenceDate);
+  if (!occurrence) return null;
+  return applyException(slot, occurrence, await getException(client, slot.id, occurrence.date));
+}
+
+/**
+ * Resolve which occurrence of a slot a booking refers to.
+ * Recurring slots require an explicit date; one-time slots default to their only occurrence.
+ * Cancelled occurrences cannot be booked.
+ */
+export async function resolveOccurrence(
+  client: DbClient,
+  slot: OccurrenceSlot,
+  timezone: string,
+  occurrenceDate?: string,
+): Promise<OccurrenceResolution> {
+  if (!occurrenceDate && slot.recurrence_rule) {
+    return { error: 'occurrenceDate is required for recurring slots' };
+  }
+
+  const date = occurrenceDate || localDateOf(new Date(slot.starts_at), timezone);
+  const occurrence = await findEffectiveOccurrence(client, slot, timezone, date);
+  if (!occurrence) return { error: 'Slot has no occurrence on the requested date' };
+  if (occurrence.cancelled) return { error: 'This occurrence has been cancelled' };
+  return { occurrence };
+}
+
+/**
+ * All non-cancelled occurrences of the given slots that start within [from, to),
+ * including occurrences moved into the range from another date.
+ */
+export async function listOccurrences<T extends OccurrenceSlot>(
+  client: DbClient,
+  slots: T[],
+  timezone: string,
+  from: Date,
+  to: Date,
+): Promise<{ slot: T; occurrence: EffectiveOccurrence }[]> {
+  if (slots.length === 0) return [];
+
+  const expanded = slots.flatMap((slot) =>
+    expandOccurrences(slot, timezone, from, to).map((occurrence) => ({ slot, occurrence })),
+  );
+
+  // Exceptions on dates in range, plus any occurrence moved into the range
+  const { rows: exceptions } = await client.query(
+    `SELECT * FROM slot_exceptions
+     WHERE slot_id = ANY($1::uuid[])
+       AND (occurrence_date = ANY($2::date[]) OR (starts_at >= $3 AND starts_at < $4))`,
+    [
+      slots.map((s) => s.id),
+      Array.from(new Set(expanded.map((e) => e.occurrence.date))),
+      from.toISOString(),
+      to.toISOString(),
+    ],
+  );
+  const byKey = new Map<string, SlotException>(
+    exceptions.map((e: SlotException) => [`${e.slot_id}|${e.occurrence_date}`, e]),
+  );
+
+  const result: { slot: T; occurrence: EffectiveOccurrence }[] = [];
+  const seen = new Set<string>();
+  for (const { slot, occurrence } of expanded) {
+    const key = `${slot.id}|${occurrence.date}`;
+    seen.add(key);
+    result.push({ slot, occurrence: applyException(slot, occurrence, byKey.get(key) || null) });
+  }
+
+  // Occurrences moved in from outside the range
+  const slotsById = new Map(slots.map((s) => [s.id, s]));
+  for (const exception of exceptions as SlotException[]) {
+    const key = `${exception.slot_id}|${exception.occurrence_date}`;
+    const slot = slotsById.get(exception.slot_id);
+    if (seen.has(key) || !slot || !exception.starts_at) continue;
+    const original = findOccurrence(slot, timezone, exception.occurrence_date);
+    if (original) result.push({ slot, occurrence: applyException(slot, original, exception) });
+  }
+
+  return result
+    .filter(({ occurrence }) => !occurrence.cancelled)
+    .filter(({ occurrence }) => occurrence.startsAt >= from && occurrence.startsAt < to)
+    .sort((a, b) => a.occurrence.startsAt.getTime() - b.occurrence.startsAt.getTime());
+}
@@ -0,0 +1,331 @@
+import { formatDate, fromZoned, parseDate, toZoned } from './timezone';
+
+// RFC 5545 RRULE support for slot recurrence.
+// Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, COUNT, UNTIL, WKST.
+// Expansion happens in the studio's timezone so a 17:00 class stays at 17:00 across DST changes.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface WeekdaySpec {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  ordinal?: number; // MONTHLY only: 1 = first, -1 = last
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay: WeekdaySpec[];
+  count?: number;
+  until?: {
+    year: number;
+    month: number;
+    day: number;
+    time?: { hour: number; minute: number; second: number };
+    utc: boolean;
+  };
+  weekStart: number;
+}
+
+export interface Occurrence {
+  date: string; // Local date (YYYY-MM-DD) in the studio timezone; identifies the occurrence
+  startsAt: Date;
+}
+
+export interface RecurringSource {
+  starts_at: Date | string;
+  recurrence_rule?: string | null;
+}
+
+const WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound on generated periods, guards against rules that never match a day
+const MAX_PERIODS = 20000;
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix).
+ * Throws with a descriptive message when the rule is malformed or uses unsupported parts.
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const body = rule.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('Recurrence rule is empty');
+
+  const parts = new Map<string, string>();
+  for (const segment of body.split(';')) {
+    if (!segment) continue;
+    const [key, value] = segment.split('=');
+    if (!key || value === undefined || value === '') {
+      throw new Error(`Malformed recurrence rule part: ${segment}`);
+    }
+    const name = key.toUpperCase();
+    if (parts.has(name)) throw new Error(`Duplicate recurrence rule part: ${name}`);
+    parts.set(name, value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) throw new Error('Recurrence rule requires FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error(`Unsupported FREQ: ${freq}`);
+  }
+
+  const parsed: RecurrenceRule = { freq, interval: 1, byDay: [], weekStart: WEEKDAYS.MO };
+
+  for (const [name, value] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        parsed.interval = parsePositiveInt(name, value);
+        break;
+      case 'COUNT':
+        parsed.count = parsePositiveInt(name, value);
+        break;
+      case 'UNTIL':
+        parsed.until = parseUntil(value);
+        break;
+      case 'WKST':
+        if (!(value in WEEKDAYS)) throw new Error(`Invalid WKST: ${value}`);
+        parsed.weekStart = WEEKDAYS[value];
+        break;
+      case 'BYDAY':
+        parsed.byDay = value.split(',').map((spec) => parseWeekday(spec, freq));
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part: ${name}`);
+    }
+  }
+
+  if (parsed.count !== undefined && parsed.until) {
+    throw new Error('COUNT and UNTIL cannot be combined');
+  }
+
+  return parsed;
+}
+
+export function isValidRecurrenceRule(rule: string): boolean {
+  try {
+    parseRecurrenceRule(rule);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parsePositiveInt(name: string, value: string): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseWeekday(spec: string, freq: Frequency): WeekdaySpec {
+  const match = spec.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) throw new Error(`Invalid BYDAY value: ${spec}`);
+  const weekday = WEEKDAYS[match[2]];
+  if (!match[1]) return { weekday };
+
+  const ordinal = parseInt(match[1], 10);
+  if (freq !== 'MONTHLY') throw new Error('BYDAY ordinals are only supported with FREQ=MONTHLY');
+  if (ordinal === 0 || Math.abs(ordinal) > 5) throw new Error(`Invalid BYDAY ordinal: ${spec}`);
+  return { weekday, ordinal };
+}
+
+function parseUntil(value: string): RecurrenceRule['until'] {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  const date = match && parseDate(`${match[1]}-${match[2]}-${match[3]}`);
+  if (!match || !date) throw new Error(`Invalid UNTIL: ${value}`);
+  return {
+    ...date,
+    time: match[4]
+      ? {
+          hour: parseInt(match[4], 10),
+          minute: parseInt(match[5], 10),
+          second: parseInt(match[6], 10),
+        }
+      : undefined,
+    utc: Boolean(match[7]),
+  };
+}
+
+// Date-only UNTIL is inclusive of the whole local day; floating times are studio-local
+function resolveUntil(until: NonNullable<RecurrenceRule['until']>, timezone: string): Date {
+  if (!until.time) {
+    return fromZoned({ ...pick(until), hour: 23, minute: 59, second: 59 }, timezone);
+  }
+  if (until.utc) {
+    return new Date(
+      Date.UTC(
+        until.year,
+        until.month - 1,
+        until.day,
+        until.time.hour,
+        until.time.minute,
+        until.time.second,
+      ),
+    );
+  }
+  return fromZoned({ ...pick(until), ...until.time }, timezone);
+}
+
+function pick(d: { year: number; month: number; day: number }) {
+  return { year: d.year, month: d.month, day: d.day };
+}
+
+// Calendar arithmetic on "day numbers" (days since 1970-01-01), independent of timezone
+function dayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(n: number): { year: number; month: number; day: number } {
+  const d = new Date(n * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function weekdayOf(n: number): number {
+  // 1970-01-01 was a Thursday
+  return (((n + 4) % 7) + 7) % 7;
+}
+
+interface Period {
+  firstDay: number;
+  days: number[];
+}
+
+function periodAt(
+  rule: RecurrenceRule,
+  startDay: number,
+  start: { year: number; month: number; day: number },
+  k: number,
+): Period {
+  if (rule.freq === 'DAILY') {
+    const day = startDay + k * rule.interval;
+    const matches = rule.byDay.length === 0 || rule.byDay.some((w) => w.weekday === weekdayOf(day));
+    return { firstDay: day, days: matches ? [day] : [] };
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const weekBegin =
+      startDay - ((weekdayOf(startDay) - rule.weekStart + 7) % 7) + k * rule.interval * 7;
+    const weekdays = rule.byDay.length ? rule.byDay.map((w) => w.weekday) : [weekdayOf(startDay)];
+    const days = weekdays.map((wd) => weekBegin + ((wd - rule.weekStart + 7) % 7));
+    return { firstDay: weekBegin, days: unique(days) };
+  }
+
+  const monthIndex = start.year * 12 + (start.month - 1) + k * rule.interval;
+  const year = Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  const firstDay = dayNumber(year, month, 1);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  if (rule.byDay.length === 0) {
+    return { firstDay, days: start.day <= daysInMonth ? [firstDay + start.day - 1] : [] };
+  }
+
+  const days: number[] = [];
+  for (const spec of rule.byDay) {
+    const matching: number[] = [];
+    for (let d = 0; d < daysInMonth; d++) {
+      if (weekdayOf(firstDay + d) === spec.weekday) matching.push(firstDay + d);
+    }
+    if (spec.ordinal === undefined) {
+      days.push(...matching);
+    } else {
+      const idx = spec.ordinal > 0 ? spec.ordinal - 1 : matching.length + spec.ordinal;
+      if (idx >= 0 && idx < matching.length) days.push(matching[idx]);
+    }
+  }
+  return { firstDay, days: unique(days) };
+}
+
+function unique(days: number[]): number[] {
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+/**
+ * Expand a slot into the occurrences that start within [from, to).
+ * One-time slots (no recurrence rule) yield at most their single start.
+ */
+export function expandOccurrences(
+  slot: RecurringSource,
+  timezone: string,
+  from: Date,
+  to: Date,
+): Occurrence[] {
+  const startsAt = new Date(slot.starts_at);
+  const local = toZoned(startsAt, timezone);
+
+  if (!slot.recurrence_rule) {
+    if (startsAt >= from && startsAt < to) {
+      return [{ date: formatDate(local.year, local.month, local.day), startsAt }];
+    }
+    return [];
+  }
+
+  const rule = parseRecurrenceRule(slot.recurrence_rule);
+  const startDay = dayNumber(local.year, local.month, local.day);
+  const until = rule.until ? resolveUntil(rule.until, timezone) : null;
+  const untilDay = until ? localDayNumber(until, timezone) : null;
+  // Days this far before the range can be counted without resolving their instant
+  const fromDay = localDayNumber(from, timezone) - 1;
+  const lastDay = localDayNumber(to, timezone) + 1;
+
+  const occurrences: Occurrence[] = [];
+  let emitted = 0;
+
+  for (let k = 0; k < MAX_PERIODS; k++) {
+    const period = periodAt(rule, startDay, local, k);
+    if (period.firstDay > lastDay) break;
+
+    for (const day of period.days) {
+      if (day < startDay) continue;
+
+      if (day < fromDay) {
+        if (untilDay !== null && day > untilDay) return occurrences;
+        emitted++;
+        if (rule.count !== undefined && emitted >= rule.count) return occurrences;
+        continue;
+      }
+
+      const date = fromDayNumber(day);
+      const occurrenceStart = fromZoned(
+        { ...date, hour: local.hour, minute: local.minute, second: local.second },
+        timezone,
+      );
+      if (until && occurrenceStart > until) return occurrences;
+      if (occurrenceStart >= to) return occurrences;
+
+      emitted++;
+      if (occurrenceStart >= from) {
+        occurrences.push({
+          date: formatDate(date.year, date.month, date.day),
+          startsAt: occurrenceStart,
+        });
+      }
+      if (rule.count !== undefined && emitted >= rule.count) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Find the occurrence of a slot on a given local date (YYYY-MM-DD), if any.
+ */
+export function findOccurrence(
+  slot: RecurringSource,
+  timezone: string,
+  date: string,
+): Occurrence | null {
+  const parsed = parseDate(date);
+  if (!parsed) return null;
+  const dayStart = fromZoned({ ...parsed, hour: 0, minute: 0, second: 0 }, timezone);
+  const next = fromDayNumber(dayNumber(parsed.year, parsed.month, parsed.day) + 1);
+  const dayEnd = fromZoned({ ...next, hour: 0, minute: 0, second: 0 }, timezone);
+
+  const found = expandOccurrences(slot, timezone, dayStart, dayEnd);
+  return found.find((o) => o.date === date) || null;
+}
+
+function localDayNumber(instant: Date, timezone: string): number {
+  const z = toZoned(instant, timezone);
+  return dayNumber(z.year, z.month, z.day);
+}
@@ -0,0 +1,99 @@
+// Minimal IANA timezone helpers built on Intl, so slot times can be computed
+// in the studio's wall-clock time without pulling in a date library.
+
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock fields of an instant as seen in the given timezone.
+ */
+export function toZoned(instant: Date, timezone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// Offset (ms) of the timezone from UTC at the given instant
+function offsetAt(instant: Date, timezone: string): number {
+  const z = toZoned(instant, timezone);
+  const asUtc = Date.UTC(z.year, z.month - 1, z.day, z.hour, z.minute, z.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in the given timezone to a UTC instant.
+ * Times skipped by a DST jump resolve forward; ambiguous times pick the earlier instant.
+ */
+export function fromZoned(wall: ZonedDateTime, timezone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const firstGuess = asUtc - offsetAt(new Date(asUtc), timezone);
+  const secondOffset = offsetAt(new Date(firstGuess), timezone);
+  return new Date(asUtc - secondOffset);
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in the given timezone.
+ */
+export function localDateOf(instant: Date, timezone: string): string {
+  const z = toZoned(instant, timezone);
+  return formatDate(z.year, z.month, z.day);
+}
+
+export function formatDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string, rejecting impossible dates like 2024-02-30.
+ */
+export function parseDate(value: string): { year: number; month: number; day: number } | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  const day = parseInt(match[3], 10);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (
+    check.getUTCFullYear() !== year ||
+    check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return { year, month, day };
+}
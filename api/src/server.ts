@@ -7,13 +7,18 @@ import publicApi from './routes/public';
 import bookings from './routes/bookings';
 import studioCustomers, { customersRouter as customersByIdRouter } from './routes/customers';
 import customerChildren, { childrenRouter as childrenByIdRouter } from './routes/children';
+import payments, { paymentsRouter as paymentsById } from './routes/payments';
+import pricing from './routes/pricing';
+import team from './routes/team';
 import admin from './routes/admin';
+import webhooks from './routes/webhooks';
 import buildAuthRouter from './routes/auth';
 import { requireApiKey, optionalAuth, requestLogger, rateLimit } from './middleware/auth';
 
 const app = express();
 
 // Middleware
+app.use('/webhooks', express.raw({ type: '*/*' })); // Providers sign the exact bytes they send
 app.use(express.json());
 app.use(requestLogger);
 app.use(rateLimit(process.env.NODE_ENV === 'production' ? 60 : 200)); // More lenient in dev
@@ -35,6 +40,9 @@ buildAuthRouter().then((authRouter) => {
 app.use('/studios', requireApiKey, studios);
 app.use('/studios', requireApiKey, slots); // slots are mounted under /studios/:studioId/slots
 app.use('/studios', requireApiKey, studioCustomers); // studio-scoped customers under /studios/:studioId/customers
+app.use('/studios', requireApiKey, payments); // studio payment ledger under /studios/:studioId/payments
+app.use('/studios', requireApiKey, pricing); // pricing settings and coupons under /studios/:studioId
+app.use('/studios', requireApiKey, team); // staff under /studios/:studioId/team, invitations under /studios/invitations
 
 // Resource-by-id routes and nested children
 app.use('/customers', requireApiKey, customersByIdRouter); // customers by id: /customers/:id
@@ -43,8 +51,12 @@ app.use('/children', requireApiKey, childrenByIdRouter); // children by id: /chi
 
 app.use('/invites', requireApiKey, invites);
 app.use('/bookings', requireApiKey, bookings);
+app.use('/payments', requireApiKey, paymentsById); // payments by id: /payments/:id/receipt
 app.use('/admin', requireApiKey, admin);
 
+// Payment provider webhooks, authenticated by their signature
+app.use('/webhooks', webhooks);
+
 // Global error handler
 app.use((err: Error, req: express.Request, res: express.Response) => {
   console.error('Unhandled error:', err);
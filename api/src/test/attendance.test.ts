@@ -0,0 +1,224 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import studiosRouter from '../routes/studios';
+import slotsRouter from '../routes/slots';
+import bookingsRouter from '../routes/bookings';
+import { closeDatabase, getDbClient } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestChild,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', studiosRouter);
+  app.use('/studios', slotsRouter);
+  app.use('/bookings', bookingsRouter);
+  return app;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Attendance check-in', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+  });
+
+  // One-time slot starting the given number of hours from now, with its occurrence date
+  async function slotIn(hoursAhead: number) {
+    const slot = await createTestSlot(studio.id, {
+      title: 'Check-in class',
+      startsAt: new Date(Date.now() + hoursAhead * HOUR).toISOString(),
+      durationMin: 60,
+      price: 50,
+      minParticipants: 0,
+      maxParticipants: 2,
+      forChildren: false,
+    });
+    const { rows } = await getDbClient().query(
+      `select (s.starts_at at time zone st.timezone)::date as date
+       from slots s join studios st on s.studio_id = st.id where s.id = $1`,
+      [slot.id],
+    );
+    return { slot, date: rows[0].date as string };
+  }
+
+  async function book(
+    slotId: string,
+    date: string,
+    party: { customerId?: string; childId?: string },
+    status = 'CONFIRMED',
+  ) {
+    const { rows } = await getDbClient().query(
+      `insert into bookings (slot_id, customer_id, child_id, occurrence_date, status, waitlisted_at,
+                             list_price, price, currency)
+       select $1, $2, $3, $4, $5, case when $5 = 'WAITLISTED' then clock_timestamp() end,
+              price, price, (select currency from studios where id = slots.studio_id)
+       from slots where id = $1
+       returning id`,
+      [slotId, party.customerId ?? null, party.childId ?? null, date, status],
+    );
+    return rows[0].id as string;
+  }
+
+  it('lists the roster and checks participants in as one batch', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const { slot, date } = await slotIn(-1);
+    const adult = await createTestCustomer(studio.id, {
+      first_name: 'Avi',
+      contact_email: 'avi@attendance',
+    });
+    const parent = await createTestCustomer(studio.id, {
+      first_name: 'Rina',
+      contact_email: 'rina@attendance',
+    });
+    const child = await createTestChild(parent.id, { firstName: 'Beni', avatarKey: 'beni.png' });
+    const adultBooking = await book(slot.id, date, { customerId: adult.id });
+    const childBooking = await book(slot.id, date, { childId: child.id });
+    const cancelled = await book(slot.id, date, { customerId: parent.id }, 'CANCELLED');
+    await book(slot.id, date, { customerId: parent.id }, 'WAITLISTED');
+    const base = `/studios/${studio.id}/slots/${slot.id}/occurrences/${date}`;
+
+    const roster = await request(app).get(`${base}/roster`).set(auth).expect(200);
+    expect(roster.body.participants).toMatchObject([
+      { booking_id: adultBooking, name: 'Avi', parent_name: null, paid: false },
+      { booking_id: childBooking, name: 'Beni', avatar_key: 'beni.png', parent_name: 'Rina' },
+    ]);
+    expect(roster.body.attendance).toEqual({ attended: 0, no_show: 0, unmarked: 2 });
+
+    const checkIn = {
+      entries: [
+        { bookingId: adultBooking, status: 'ATTENDED' },
+        { bookingId: childBooking, status: 'NO_SHOW' },
+      ],
+    };
+    const res = await request(app).post(`${base}/attendance`).set(auth).send(checkIn).expect(200);
+    expect(res.body.bookings).toMatchObject([{ status: 'ATTENDED' }, { status: 'NO_SHOW' }]);
+    expect(res.body.bookings[0].attendance_recorded_at).toBeTruthy();
+    expect(res.body.attendance).toEqual({ attended: 1, no_show: 1, unmarked: 0 });
+
+    // Submitting the same check-in again changes nothing
+    await request(app).post(`${base}/attendance`).set(auth).send(checkIn).expect(200);
+    const history = await request(app)
+      .get(`/bookings/${adultBooking}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.events).toHaveLength(1);
+    expect(history.body.events[0]).toMatchObject({
+      from_status: 'CONFIRMED',
+      to_status: 'ATTENDED',
+    });
+
+    // One booking that cannot be checked in rejects the whole batch
+    const rejected = await request(app)
+      .post(`${base}/attendance`)
+      .set(auth)
+      .send({
+        entries: [
+          { bookingId: adultBooking, status: 'NO_SHOW' },
+          { bookingId: cancelled, status: 'ATTENDED' },
+        ],
+      })
+      .expect(409);
+    expect(rejected.body.booking_id).toBe(cancelled);
+    const after = await request(app).get(`${base}/roster`).set(auth).expect(200);
+    expect(after.body.participants[0].status).toBe('ATTENDED');
+
+    await request(app)
+      .post(`${base}/attendance`)
+      .set(auth)
+      .send({
+        entries: [{ bookingId: '550e8400-e29b-41d4-a716-446655440000', status: 'ATTENDED' }],
+      })
+      .expect(404);
+    await request(app)
+      .post(`${base}/attendance`)
+      .set(auth)
+      .send({ entries: [checkIn.entries[0], checkIn.entries[0]] })
+      .expect(400);
+
+    // Correcting back to CONFIRMED clears the check-in time
+    const reset = await request(app)
+      .patch(`/bookings/${adultBooking}/status`)
+      .set(auth)
+      .send({ status: 'CONFIRMED' })
+      .expect(200);
+    expect(reset.body.attendance_recorded_at).toBeNull();
+  });
+
+  it('refuses check-in before the class starts', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const { slot, date } = await slotIn(48);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Early',
+      contact_email: 'early@attendance',
+    });
+    const booking = await book(slot.id, date, { customerId: customer.id });
+
+    const res = await request(app)
+      .post(`/studios/${studio.id}/slots/${slot.id}/occurrences/${date}/attendance`)
+      .set(auth)
+      .send({ entries: [{ bookingId: booking, status: 'ATTENDED' }] })
+      .expect(409);
+    expect(res.body.error).toBe('Cannot mark ATTENDED before the class starts');
+  });
+
+  it('reports attendance per slot over a date range', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const { slot, date } = await slotIn(-1);
+    const names = ['a', 'b', 'c'];
+    const customers = [];
+    for (const name of names) {
+      customers.push(
+        await createTestCustomer(studio.id, { first_name: name, contact_email: `${name}@stats` }),
+      );
+    }
+    await book(slot.id, date, { customerId: customers[0].id }, 'ATTENDED');
+    await book(slot.id, date, { customerId: customers[1].id }, 'NO_SHOW');
+    await book(slot.id, date, { customerId: customers[2].id }, 'CANCELLED');
+
+    const res = await request(app)
+      .get(`/studios/${studio.id}/attendance`)
+      .query({ from: date, to: date })
+      .set(auth)
+      .expect(200);
+    expect(res.body.totals).toEqual({
+      attended: 1,
+      no_show: 1,
+      unmarked: 0,
+      attendance_rate: 0.5,
+    });
+    expect(res.body.slots).toEqual([
+      {
+        slot_id: slot.id,
+        title: 'Check-in class',
+        occurrences: 1,
+        attended: 1,
+        no_show: 1,
+        unmarked: 0,
+      },
+    ]);
+
+    await request(app)
+      .get(`/studios/${studio.id}/attendance`)
+      .query({ from: date, to: '2000-01-01' })
+      .set(auth)
+      .expect(400);
+    await request(app).get(`/studios/${studio.id}/attendance`).set(auth).expect(400);
+  });
+});
@@ -1,3 +1,4 @@
+import { randomUUID } from 'crypto';
 import { describe, it, expect, beforeEach } from 'vitest';
 import express from 'express';
 import request from 'supertest';
@@ -28,4 +29,19 @@ describe('Auth routes - /auth/config', () => {
       .expect(200);
     expect(ok.body.audiences).toEqual(['c1', 'c2']);
   });
+
+  it('rejects admin tokens of a signed-out session', async () => {
+    const router = await buildAuthRouter();
+    const app = express();
+    app.use('/auth', router);
+
+    const revoked = await signAccessToken(
+      { userId: 'a', isAdmin: true, sessionId: randomUUID() },
+      '5m',
+    );
+    await request(app)
+      .get('/auth/config')
+      .set('Authorization', `Bearer ${revoked}`)
+      .expect(401, { error: 'session revoked' });
+  });
 });
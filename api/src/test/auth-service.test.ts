@@ -38,4 +38,17 @@ describe('auth service: upsertUserFromGoogle', () => {
     expect(updated.email).toBe('new@example.com');
     expect(updated.name).toBe('New');
   });
+
+  it('keeps whether Google verified the email', async () => {
+    const user = await upsertUserFromGoogle({ sub: 'sub-3', email: 'three@example.com' });
+    const verified = async () =>
+      (await db.query('SELECT email_verified FROM users WHERE id = $1', [user.id])).rows[0]
+        .email_verified;
+    expect(await verified()).toBe(false);
+
+    await upsertUserFromGoogle({ sub: 'sub-3', email: 'three@example.com', email_verified: true });
+    expect(await verified()).toBe(true);
+    await upsertUserFromGoogle({ sub: 'sub-3', email: 'other@example.com', email_verified: false });
+    expect(await verified()).toBe(false);
+  });
 });
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { getDbClient } from '../db';
+import { verifyAccessToken } from '../auth/jwt';
+
+async function makeApp() {
+  const { default: buildRouter } = await import('../routes/auth');
+  const router = await buildRouter({
+    verifyGoogleIdToken: async () => ({
+      sub: 'sub-sessions',
+      email: 'sessions@example.com',
+      name: 'Sessions',
+      email_verified: true,
+    }),
+  });
+  const app = express();
+  app.use(express.json());
+  app.use('/auth', router);
+  return app;
+}
+
+// The refresh_token cookie pair set by a response, e.g. "refresh_token=abc"
+function refreshCookie(res: request.Response): string {
+  const cookies = ([] as string[]).concat(res.headers['set-cookie'] || []);
+  const cookie = cookies.find((c) => c.startsWith('refresh_token='));
+  return cookie ? cookie.split(';')[0] : '';
+}
+
+describe('Refresh sessions', () => {
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret-123';
+    process.env.GOOGLE_CLIENT_IDS = 'client-1.apps.googleusercontent.com';
+  });
+
+  it('stores only a hash of the refresh token and rotates it on refresh', async () => {
+    const app = await makeApp();
+    const signIn = await request(app)
+      .post('/auth/google/token')
+      .send({ idToken: 'fake-id-token' })
+      .expect(200);
+    const first = refreshCookie(signIn);
+    const token = first.slice('refresh_token='.length);
+    expect(token.length).toBeGreaterThan(30);
+
+    const { rows } = await getDbClient().query(
+      'select refresh_token_hash from user_sessions where user_id = $1',
+      [signIn.body.user.id],
+    );
+    expect(rows).toHaveLength(1);
+    expect(rows[0].refresh_token_hash).not.toContain(token);
+
+    const refreshed = await request(app).post('/auth/refresh').set('Cookie', first).expect(200);
+    const claims = await verifyAccessToken(refreshed.body.accessToken);
+    expect(claims.userId).toBe(signIn.body.user.id);
+    expect(refreshed.body.user.email).toBe('sessions@example.com');
+    const second = refreshCookie(refreshed);
+    expect(second).not.toBe(first);
+
+    // The rotated token keeps working
+    await request(app).post('/auth/refresh').set('Cookie', second).expect(200);
+  });
+
+  it('revokes the whole family when a rotated token is reused', async () => {
+    const app = await makeApp();
+    const signIn = await request(app).post('/auth/google/token').send({ idToken: 'fake-id-token' });
+    const stolen = refreshCookie(signIn);
+    const refreshed = await request(app).post('/auth/refresh').set('Cookie', stolen).expect(200);
+    const current = refreshCookie(refreshed);
+    // Reused after the grace window for concurrent refreshes
+    await getDbClient().query(
+      `update user_sessions set revoked_at = now() - interval '1 minute'
+       where user_id = $1 and replaced_by is not null`,
+      [signIn.body.user.id],
+    );
+
+    const reused = await request(app)
+      .post('/auth/refresh')
+      .set('Cookie', stolen)
+      .expect(401, { error: 'refresh token reused' });
+    expect(refreshCookie(reused)).toBe('refresh_token=');
+    await request(app)
+      .post('/auth/refresh')
+      .set('Cookie', current)
+      .expect(401, { error: 'refresh token reused' });
+
+    // Another sign-in is a separate family and still works
+    const other = await request(app).post('/auth/google/token').send({ idToken: 'fake-id-token' });
+    await request(app).post('/auth/refresh').set('Cookie', refreshCookie(other)).expect(200);
+  });
+
+  it('turns away the loser of concurrent refreshes without signing out', async () => {
+    const app = await makeApp();
+    const signIn = await request(app).post('/auth/google/token').send({ idToken: 'fake-id-token' });
+    const cookie = refreshCookie(signIn);
+
+    const results = await Promise.all([
+      request(app).post('/auth/refresh').set('Cookie', cookie),
+      request(app).post('/auth/refresh').set('Cookie', cookie),
+    ]);
+    const statuses = results.map((res) => res.status).sort();
+    expect(statuses).toEqual([200, 409]);
+    const lost = results.find((res) => res.status === 409)!;
+    expect(lost.body).toEqual({ error: 'refresh token already rotated' });
+    expect(refreshCookie(lost)).toBe('');
+
+    const won = results.find((res) => res.status === 200)!;
+    await request(app).post('/auth/refresh').set('Cookie', refreshCookie(won)).expect(200);
+  });
+
+  it('revokes the session on logout and rejects unknown or expired tokens', async () => {
+    const app = await makeApp();
+    const signIn = await request(app).post('/auth/google/token').send({ idToken: 'fake-id-token' });
+    const cookie = refreshCookie(signIn);
+
+    const out = await request(app).post('/auth/logout').set('Cookie', cookie).expect(200);
+    expect(refreshCookie(out)).toBe('refresh_token=');
+    await request(app).post('/auth/refresh').set('Cookie', cookie).expect(401);
+    // Logging out without a session only clears the cookie
+    await request(app).post('/auth/logout').expect(200);
+
+    await request(app).post('/auth/refresh').expect(401, { error: 'unauthorized' });
+    await request(app)
+      .post('/auth/refresh')
+      .set('Cookie', 'refresh_token=made-up')
+      .expect(401, { error: 'invalid refresh token' });
+
+    const again = await request(app).post('/auth/google/token').send({ idToken: 'fake-id-token' });
+    await getDbClient().query(
+      `update user_sessions set expires_at = now() - interval '1 minute'
+       where user_id = $1 and revoked_at is null`,
+      [again.body.user.id],
+    );
+    await request(app)
+      .post('/auth/refresh')
+      .set('Cookie', refreshCookie(again))
+      .expect(401, { error: 'invalid refresh token' });
+  });
+});
+
+describe('Session management', () => {
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret-123';
+    process.env.GOOGLE_CLIENT_IDS = 'client-1.apps.googleusercontent.com';
+  });
+
+  async function signIn(app: express.Express, userAgent: string) {
+    const res = await request(app)
+      .post('/auth/google/token')
+      .set('User-Agent', userAgent)
+      .send({ idToken: 'fake-id-token' })
+      .expect(200);
+    return {
+      cookie: refreshCookie(res),
+      auth: { Authorization: `Bearer ${res.body.accessToken}` },
+    };
+  }
+
+  it('lists the devices signed in and revokes one of them', async () => {
+    const app = await makeApp();
+    const phone = await signIn(app, 'Phone');
+    const tablet = await signIn(app, 'Studio tablet');
+
+    const list = await request(app).get('/auth/sessions').set(phone.auth).expect(200);
+    expect(
+      list.body.map((s: { user_agent: string; current: boolean }) => [s.user_agent, s.current]),
+    ).toEqual(
+      expect.arrayContaining([
+        ['Phone', true],
+        ['Studio tablet', false],
+      ]),
+    );
+    expect(list.body).toHaveLength(2);
+    const tabletSession = list.body.find((s: { current: boolean }) => !s.current);
+    expect(tabletSession).toMatchObject({ created_at: expect.any(String), ip: expect.any(String) });
+
+    // A refresh keeps the session, with a new last use
+    await request(app).post('/auth/refresh').set('Cookie', tablet.cookie).expect(200);
+    const after = await request(app).get('/auth/sessions').set(phone.auth).expect(200);
+    expect(after.body.map((s: { id: string }) => s.id)).toContain(tabletSession.id);
+
+    await request(app).delete(`/auth/sessions/${tabletSession.id}`).set(phone.auth).expect(200);
+    // The tablet's access token and refresh cookie stop working at once
+    await request(app)
+      .get('/auth/sessions')
+      .set(tablet.auth)
+      .expect(401, { error: 'session revoked' });
+    await request(app).post('/auth/refresh').set('Cookie', tablet.cookie).expect(401);
+    await request(app)
+      .delete(`/auth/sessions/${tabletSession.id}`)
+      .set(phone.auth)
+      .expect(404, { error: 'Session not found' });
+    await request(app)
+      .delete('/auth/sessions/not-a-uuid')
+      .set(phone.auth)
+      .expect(400, { error: 'Invalid session ID' });
+
+    const left = await request(app).get('/auth/sessions').set(phone.auth).expect(200);
+    expect(left.body).toHaveLength(1);
+  });
+
+  it('signs out everywhere', async () => {
+    const app = await makeApp();
+    const phone = await signIn(app, 'Phone');
+    const laptop = await signIn(app, 'Laptop');
+
+    const res = await request(app).delete('/auth/sessions').set(laptop.auth).expect(200);
+    expect(res.body.revoked).toBe(2);
+    expect(refreshCookie(res)).toBe('refresh_token=');
+
+    for (const device of [phone, laptop]) {
+      await request(app).get('/auth/sessions').set(device.auth).expect(401);
+      await request(app).post('/auth/refresh').set('Cookie', device.cookie).expect(401);
+    }
+  });
+});
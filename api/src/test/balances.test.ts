@@ -0,0 +1,197 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import paymentsRouter from '../routes/payments';
+import bookingsRouter from '../routes/bookings';
+import { customersRouter } from '../routes/customers';
+import { closeDatabase, getDbClient } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestChild,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', paymentsRouter);
+  app.use('/bookings', bookingsRouter);
+  app.use('/customers', customersRouter);
+  return app;
+}
+
+// Noon UTC, which is the same calendar day in New York
+function daysFromNow(days: number) {
+  const date = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  return `${date.toISOString().slice(0, 10)}T12:00:00Z`;
+}
+
+describe('Customer balances', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+  });
+
+  async function pastBooking(
+    days: number,
+    price: number,
+    party: { customerId?: string; childId?: string },
+    status = 'ATTENDED',
+    lateCancellation = false,
+  ) {
+    const slot = await createTestSlot(studio.id, {
+      title: `Class ${days} days ago`,
+      startsAt: daysFromNow(-days),
+      durationMin: 60,
+      price,
+      minParticipants: 0,
+      maxParticipants: 10,
+      forChildren: !!party.childId,
+    });
+    const { rows } = await getDbClient().query(
+      `insert into bookings (slot_id, occurrence_date, customer_id, child_id, status,
+                             late_cancellation, late_cancellation_charged, list_price, price,
+                             currency)
+       values ($1, $2, $3, $4, $5, $6, $6, $7, $7, $8) returning id`,
+      [
+        slot.id,
+        daysFromNow(-days).slice(0, 10),
+        party.customerId ?? null,
+        party.childId ?? null,
+        status,
+        lateCancellation,
+        price,
+        studio.currency,
+      ],
+    );
+    return rows[0].id as string;
+  }
+
+  it('ages what customers owe and lists a statement with a running balance', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const parent = await createTestCustomer(studio.id, {
+      first_name: 'Owing',
+      contact_email: 'owing@balances',
+    });
+    const child = await createTestChild(parent.id, { firstName: 'Kid', avatarKey: 'kid.png' });
+    const prepaid = await createTestCustomer(studio.id, {
+      first_name: 'Prepaid',
+      contact_email: 'prepaid@balances',
+    });
+    const settled = await createTestCustomer(studio.id, {
+      first_name: 'Settled',
+      contact_email: 'settled@balances',
+    });
+
+    await pastBooking(90, 40, { childId: child.id }, 'NO_SHOW');
+    const partial = await pastBooking(45, 30, { customerId: parent.id });
+    await pastBooking(10, 50, { customerId: parent.id }, 'CONFIRMED');
+    await pastBooking(5, 12, { customerId: parent.id }, 'CANCELLED', true);
+    await pastBooking(20, 99, { customerId: parent.id }, 'CANCELLED');
+    await request(app)
+      .patch(`/bookings/${partial}/payment`)
+      .set(auth)
+      .send({ paidMethod: 'cash', amount: 10 })
+      .expect(200);
+    // Paid ahead for a future class and on account: both pay off the oldest debt
+    const future = await createTestSlot(studio.id, {
+      title: 'Next week',
+      startsAt: daysFromNow(7),
+      durationMin: 60,
+      price: 25,
+      minParticipants: 0,
+      maxParticipants: 10,
+      forChildren: false,
+    });
+    const upcoming = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: future.id, customerId: parent.id })
+      .expect(201);
+    await request(app)
+      .patch(`/bookings/${upcoming.body.id}/payment`)
+      .set(auth)
+      .send({ paidMethod: 'bit' })
+      .expect(200);
+    await request(app)
+      .post(`/studios/${studio.id}/payments`)
+      .set(auth)
+      .send({ amount: 15, method: 'cash', customerId: parent.id, note: 'On account' })
+      .expect(201);
+
+    await request(app)
+      .post(`/studios/${studio.id}/payments`)
+      .set(auth)
+      .send({ amount: 60, method: 'transfer', customerId: prepaid.id })
+      .expect(201);
+    const settledBooking = await pastBooking(3, 20, { customerId: settled.id });
+    await request(app)
+      .patch(`/bookings/${settledBooking}/payment`)
+      .set(auth)
+      .send({ paidMethod: 'cash' })
+      .expect(200);
+
+    const report = await request(app).get(`/studios/${studio.id}/balances`).set(auth).expect(200);
+    expect(report.body.currency).toBe(studio.currency);
+    expect(report.body.customers).toEqual([
+      expect.objectContaining({
+        customer_id: parent.id,
+        balance: 82,
+        unpaid_bookings: 3,
+        aging: { days_0_30: 62, days_31_60: 20, days_over_60: 0 },
+      }),
+      expect.objectContaining({
+        customer_id: prepaid.id,
+        balance: -60,
+        unpaid_bookings: 0,
+      }),
+    ]);
+    expect(report.body.totals).toEqual({
+      owed: 82,
+      credit: 60,
+      aging: { days_0_30: 62, days_31_60: 20, days_over_60: 0 },
+    });
+
+    const statement = await request(app)
+      .get(`/customers/${parent.id}/statement`)
+      .set(auth)
+      .expect(200);
+    expect(statement.body).toMatchObject({ balance: 82, currency: studio.currency });
+    expect(statement.body.lines.map((line: { type: string }) => line.type)).toEqual([
+      'charge',
+      'charge',
+      'charge',
+      'charge',
+      'payment',
+      'payment',
+      'payment',
+    ]);
+    expect(statement.body.lines[0]).toMatchObject({
+      description: 'Class 90 days ago (Kid)',
+      amount: 40,
+      balance: 40,
+    });
+    expect(statement.body.lines[3].description).toBe('Class 5 days ago - late cancellation');
+    expect(statement.body.lines.at(-1).balance).toBe(82);
+
+    // The late cancellation stays charged when the studio changes its policy afterwards
+    await getDbClient().query(
+      `update studios set late_cancellation_action = 'forfeit_credit' where id = $1`,
+      [studio.id],
+    );
+    const after = await request(app).get(`/customers/${parent.id}/statement`).set(auth).expect(200);
+    expect(after.body.balance).toBe(82);
+
+    await request(app).get(`/studios/${studio.id}/balances`).expect(401);
+    await request(app).get('/customers/not-a-uuid/statement').set(auth).expect(400);
+  });
+});
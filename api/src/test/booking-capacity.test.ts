@@ -0,0 +1,140 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import bookingsRouter from '../routes/bookings';
+import publicRouter from '../routes/public';
+import {
+  closeDatabase,
+  getDbClient,
+  setTestTransactionClient,
+  clearTestTransactionClient,
+} from '../db';
+import { testTransaction } from './transaction-manager';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/bookings', bookingsRouter);
+  app.use('/public', publicRouter);
+  return app;
+}
+
+const futureSlot = {
+  title: 'Last seats',
+  startsAt: '2030-05-01T10:00:00Z',
+  durationMin: 60,
+  price: 50,
+  minParticipants: 0,
+  maxParticipants: 3,
+  forChildren: false,
+};
+
+async function createCustomers(studioId: string, n: number) {
+  const customers = [];
+  for (let i = 0; i < n; i++) {
+    customers.push(
+      await createTestCustomer(studioId, { first_name: `Racer${i}`, contact_email: `r${i}@cap` }),
+    );
+  }
+  return customers;
+}
+
+async function createInvite(studioId: string, customerId: string, hash: string) {
+  await getDbClient().query(
+    `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+     values ($1, $2, $3, now(), now() + interval '1 day')`,
+    [studioId, customerId, hash],
+  );
+  return `/public/invites/${hash}/bookings`;
+}
+
+describe('Booking capacity', () => {
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  it('never overbooks under parallel requests on separate connections', async () => {
+    const app = makeApp();
+    // Real concurrency needs committed data visible to every pooled connection,
+    // so this test runs outside the per-test transaction and cleans up after itself.
+    clearTestTransactionClient();
+    const studio = await createTestStudio({
+      slug: 'race',
+      name: 'Race',
+      timezone: 'UTC',
+      currency: 'ILS',
+    });
+    try {
+      const auth = await createTestOwner(studio.id);
+      const slot = await createTestSlot(studio.id, futureSlot);
+      const customers = await createCustomers(studio.id, 6);
+      const inviteUrls = await Promise.all(
+        customers
+          .slice(3)
+          .map((c, i) => createInvite(studio.id, c.id, `race-${studio.id.slice(0, 8)}-${i}`)),
+      );
+
+      const responses = await Promise.all([
+        ...customers
+          .slice(0, 3)
+          .map((c) =>
+            request(app).post('/bookings').set(auth).send({ slotId: slot.id, customerId: c.id }),
+          ),
+        ...inviteUrls.map((url) => request(app).post(url).send({ slotId: slot.id })),
+      ]);
+
+      const statuses = responses.map((r) => r.status).sort();
+      expect(statuses).toEqual([201, 201, 201, 409, 409, 409]);
+
+      const { rows } = await getDbClient().query(
+        `select count(*)::int as count from bookings where slot_id = $1`,
+        [slot.id],
+      );
+      expect(rows[0].count).toBe(3);
+    } finally {
+      await getDbClient().query('delete from studios where id = $1', [studio.id]);
+      await getDbClient().query(`delete from users where google_sub = 'sub-test-owner'`);
+      setTestTransactionClient(testTransaction.getClient());
+    }
+  });
+
+  it('enforces capacity on invite bookings and frees seats when bookings are cancelled', async () => {
+    const app = makeApp();
+    const studio = await createTestStudio();
+    const auth = await createTestOwner(studio.id);
+    const slot = await createTestSlot(studio.id, { ...futureSlot, maxParticipants: 2 });
+    const customers = await createCustomers(studio.id, 3);
+    const urls = await Promise.all(
+      customers.map((c, i) => createInvite(studio.id, c.id, `cap-${studio.id.slice(0, 8)}-${i}`)),
+    );
+
+    const responses = await Promise.all(
+      urls.map((url) => request(app).post(url).send({ slotId: slot.id })),
+    );
+    expect(responses.map((r) => r.status).sort()).toEqual([201, 201, 409]);
+    const rejected = responses.find((r) => r.status === 409)!;
+    expect(rejected.body.error).toBe('Slot capacity reached. Cannot create booking.');
+
+    // A cancelled booking no longer takes a seat, in either booking path
+    const booked = responses.find((r) => r.status === 201)!;
+    await getDbClient().query(`update bookings set status = 'CANCELLED' where id = $1`, [
+      booked.body.id,
+    ]);
+    const late = await createTestCustomer(studio.id, {
+      first_name: 'Late',
+      contact_email: 'late@cap',
+    });
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: late.id })
+      .expect(201);
+    await request(app).post(urls[0]).send({ slotId: slot.id }).expect(409);
+  });
+});
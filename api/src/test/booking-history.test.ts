@@ -0,0 +1,193 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import bookingsRouter from '../routes/bookings';
+import { closeDatabase, getDbClient } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/bookings', bookingsRouter);
+  return app;
+}
+
+const slotData = {
+  title: 'History class',
+  durationMin: 60,
+  price: 40,
+  minParticipants: 0,
+  maxParticipants: 1,
+  forChildren: false,
+};
+
+describe('Booking status transitions and history', () => {
+  let studio: TestStudio;
+  let auth: { Authorization: string };
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+    auth = await createTestOwner(studio.id);
+  });
+
+  async function customer(name: string) {
+    return createTestCustomer(studio.id, { first_name: name, contact_email: `${name}@hist` });
+  }
+
+  it('rejects disallowed transitions', async () => {
+    const app = makeApp();
+    const future = await createTestSlot(studio.id, {
+      ...slotData,
+      startsAt: '2030-06-01T09:00:00Z',
+    });
+    const [a, b] = [await customer('a'), await customer('b')];
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: future.id, customerId: a.id })
+      .expect(201);
+    const url = `/bookings/${booking.body.id}/status`;
+
+    const early = await request(app).patch(url).set(auth).send({ status: 'NO_SHOW' }).expect(409);
+    expect(early.body.error).toBe('Cannot mark NO_SHOW before the class starts');
+    await request(app).patch(url).set(auth).send({ status: 'CONFIRMED' }).expect(409);
+    await request(app).patch(url).set(auth).send({ status: 'WAITLISTED' }).expect(400);
+
+    // The freed seat is taken, so the booking cannot be un-cancelled
+    await request(app).patch(url).set(auth).send({ status: 'CANCELLED' }).expect(200);
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: future.id, customerId: b.id })
+      .expect(201);
+    const full = await request(app).patch(url).set(auth).send({ status: 'CONFIRMED' }).expect(409);
+    expect(full.body.error).toBe('Slot capacity reached. Cannot confirm booking.');
+
+    await request(app)
+      .patch('/bookings/550e8400-e29b-41d4-a716-446655440000/status')
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(404);
+  });
+
+  it('allows NO_SHOW after the class started and correcting it back', async () => {
+    const app = makeApp();
+    const past = await createTestSlot(studio.id, { ...slotData, startsAt: '2024-06-01T09:00:00Z' });
+    const a = await customer('a');
+    await getDbClient().query(
+      `insert into bookings (slot_id, customer_id, occurrence_date, list_price, price, currency)
+       select $1, $2, '2024-06-01', price, price, (select currency from studios where id = slots.studio_id)
+       from slots where id = $1`,
+      [past.id, a.id],
+    );
+    const { rows } = await getDbClient().query('select id from bookings where slot_id = $1', [
+      past.id,
+    ]);
+    const url = `/bookings/${rows[0].id}/status`;
+
+    await request(app).patch(url).set(auth).send({ status: 'NO_SHOW' }).expect(200);
+    await request(app).patch(url).set(auth).send({ status: 'CANCELLED' }).expect(409);
+    const corrected = await request(app)
+      .patch(url)
+      .set(auth)
+      .send({ status: 'CONFIRMED' })
+      .expect(200);
+    expect(corrected.body.status).toBe('CONFIRMED');
+  });
+
+  it('records creation, status changes and waitlist promotions with their actor', async () => {
+    const { rows: users } = await getDbClient().query(
+      `select id from users where google_sub = 'sub-test-owner'`,
+    );
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, { ...slotData, startsAt: '2030-06-01T09:00:00Z' });
+    const [a, b] = [await customer('a'), await customer('b')];
+
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: a.id })
+      .expect(201);
+    const queued = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: b.id, waitlist: true })
+      .expect(201);
+    await request(app)
+      .patch(`/bookings/${booking.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+
+    const history = await request(app)
+      .get(`/bookings/${booking.body.id}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.status).toBe('CANCELLED');
+    expect(history.body.events).toMatchObject([
+      {
+        event_type: 'CREATED',
+        from_status: null,
+        to_status: 'CONFIRMED',
+        source: 'admin',
+        actor_user_id: users[0].id,
+        actor_email: 'owner@test',
+      },
+      { event_type: 'STATUS_CHANGED', from_status: 'CONFIRMED', to_status: 'CANCELLED' },
+    ]);
+
+    const promoted = await request(app)
+      .get(`/bookings/${queued.body.id}/history`)
+      .set(auth)
+      .expect(200);
+    expect(promoted.body.events).toMatchObject([
+      { event_type: 'CREATED', to_status: 'WAITLISTED' },
+      {
+        event_type: 'STATUS_CHANGED',
+        from_status: 'WAITLISTED',
+        to_status: 'CONFIRMED',
+        source: 'system',
+        actor_user_id: null,
+        details: { reason: 'waitlist_promotion' },
+      },
+    ]);
+
+    await request(app).get('/bookings/not-a-uuid/history').set(auth).expect(400);
+    await request(app)
+      .get('/bookings/550e8400-e29b-41d4-a716-446655440000/history')
+      .set(auth)
+      .expect(404);
+  });
+
+  it('keeps deleted bookings as cancelled with their history', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, { ...slotData, startsAt: '2030-06-01T09:00:00Z' });
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: (await customer('del')).id })
+      .expect(201);
+
+    const deleted = await request(app).delete(`/bookings/${booking.body.id}`).set(auth).expect(200);
+    expect(deleted.body).toMatchObject({ id: booking.body.id, status: 'CANCELLED' });
+
+    const history = await request(app)
+      .get(`/bookings/${booking.body.id}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.events).toMatchObject([
+      { event_type: 'CREATED' },
+      { event_type: 'STATUS_CHANGED', from_status: 'CONFIRMED', to_status: 'CANCELLED' },
+    ]);
+  });
+});
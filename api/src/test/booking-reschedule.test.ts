@@ -0,0 +1,285 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import bookingsRouter from '../routes/bookings';
+import { closeDatabase, getDbClient } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/bookings', bookingsRouter);
+  return app;
+}
+
+const slotData = {
+  title: 'Tuesday class',
+  startsAt: '2030-06-04T16:00:00Z',
+  durationMin: 60,
+  price: 40,
+  minParticipants: 0,
+  maxParticipants: 1,
+  forChildren: false,
+};
+
+describe('Booking reschedule', () => {
+  let studio: TestStudio;
+  let auth: { Authorization: string };
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+    auth = await createTestOwner(studio.id);
+  });
+
+  async function customer(name: string) {
+    return createTestCustomer(studio.id, { first_name: name, contact_email: `${name}@move` });
+  }
+
+  it('moves a paid booking with its payment state and hands the old seat to the waitlist', async () => {
+    const app = makeApp();
+    const tuesday = await createTestSlot(studio.id, slotData);
+    const thursday = await createTestSlot(studio.id, {
+      ...slotData,
+      title: 'Thursday class',
+      startsAt: '2030-06-06T16:00:00Z',
+    });
+    const [a, b] = [await customer('a'), await customer('b')];
+
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: tuesday.id, customerId: a.id })
+      .expect(201);
+    await request(app)
+      .patch(`/bookings/${booking.body.id}/payment`)
+      .set(auth)
+      .send({ paidMethod: 'bit' })
+      .expect(200);
+    const queued = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: tuesday.id, customerId: b.id, waitlist: true })
+      .expect(201);
+
+    const moved = await request(app)
+      .post(`/bookings/${booking.body.id}/reschedule`)
+      .set(auth)
+      .send({ targetSlotId: thursday.id })
+      .expect(200);
+    expect(moved.body).toMatchObject({
+      id: booking.body.id,
+      slot_id: thursday.id,
+      occurrence_date: '2030-06-06',
+      status: 'CONFIRMED',
+      paid: true,
+      paid_method: 'bit',
+    });
+    expect(moved.body.promoted_bookings).toMatchObject([{ id: queued.body.id }]);
+
+    const history = await request(app)
+      .get(`/bookings/${booking.body.id}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.events.at(-1)).toMatchObject({
+      event_type: 'RESCHEDULED',
+      from_status: 'CONFIRMED',
+      to_status: 'CONFIRMED',
+      source: 'admin',
+      details: {
+        from_slot_id: tuesday.id,
+        from_occurrence_date: '2030-06-04',
+        to_slot_id: thursday.id,
+        to_occurrence_date: '2030-06-06',
+      },
+    });
+
+    // Thursday is now full, and the promoted booking cannot follow
+    const full = await request(app)
+      .post(`/bookings/${queued.body.id}/reschedule`)
+      .set(auth)
+      .send({ targetSlotId: thursday.id })
+      .expect(409);
+    expect(full.body.error).toBe('Slot capacity reached. Cannot reschedule booking.');
+    await request(app)
+      .post(`/bookings/${booking.body.id}/reschedule`)
+      .set(auth)
+      .send({ targetSlotId: thursday.id })
+      .expect(409);
+  });
+
+  it('only moves confirmed bookings to a suitable upcoming occurrence of the same studio', async () => {
+    const app = makeApp();
+    const weekly = await createTestSlot(studio.id, {
+      ...slotData,
+      maxParticipants: 5,
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=TU',
+    });
+    const kids = await createTestSlot(studio.id, { ...slotData, forChildren: true });
+    const past = await createTestSlot(studio.id, { ...slotData, startsAt: '2024-06-04T16:00:00Z' });
+    const elsewhere = await createTestSlot((await createTestStudio()).id, slotData);
+    const a = await customer('a');
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: weekly.id, occurrenceDate: '2030-06-04', customerId: a.id })
+      .expect(201);
+    const url = `/bookings/${booking.body.id}/reschedule`;
+
+    await request(app).post(url).set(auth).send({ targetSlotId: kids.id }).expect(400);
+    await request(app).post(url).set(auth).send({ targetSlotId: elsewhere.id }).expect(400);
+    await request(app).post(url).set(auth).send({ targetSlotId: weekly.id }).expect(400);
+    const started = await request(app)
+      .post(url)
+      .set(auth)
+      .send({ targetSlotId: past.id })
+      .expect(409);
+    expect(started.body.error).toBe('Cannot reschedule to a class that has already started');
+    await request(app)
+      .post(url)
+      .set(auth)
+      .send({ targetSlotId: weekly.id, occurrenceDate: '2030-06-04' })
+      .expect(409);
+    await request(app).post(url).set(auth).send({ targetSlotId: 'not-a-uuid' }).expect(400);
+
+    // Next week's occurrence of the same series is fine
+    const nextWeek = await request(app)
+      .post(url)
+      .set(auth)
+      .send({ targetSlotId: weekly.id, occurrenceDate: '2030-06-11' })
+      .expect(200);
+    expect(nextWeek.body.occurrence_date).toBe('2030-06-11');
+
+    await getDbClient().query(`update bookings set status = 'CANCELLED' where id = $1`, [
+      booking.body.id,
+    ]);
+    await request(app)
+      .post(url)
+      .set(auth)
+      .send({ targetSlotId: weekly.id, occurrenceDate: '2030-06-18' })
+      .expect(409);
+    await request(app)
+      .post('/bookings/550e8400-e29b-41d4-a716-446655440000/reschedule')
+      .set(auth)
+      .send({ targetSlotId: weekly.id })
+      .expect(404);
+  });
+
+  it('gives the credit back when the booking moves past its package expiry', async () => {
+    const app = makeApp();
+    const tuesday = await createTestSlot(studio.id, slotData);
+    const thursday = await createTestSlot(studio.id, {
+      ...slotData,
+      title: 'Thursday class',
+      startsAt: '2030-06-06T16:00:00Z',
+    });
+    const early = await createTestSlot(studio.id, {
+      ...slotData,
+      title: 'Early Tuesday class',
+      startsAt: '2030-06-04T06:00:00Z',
+    });
+    const a = await customer('a');
+    const { rows: packages } = await getDbClient().query(
+      `insert into credit_packages (studio_id, customer_id, name, credits, expires_at)
+       values ($1, $2, 'Card', 1, '2030-06-05T00:00:00Z') returning id`,
+      [studio.id, a.id],
+    );
+
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: tuesday.id, customerId: a.id })
+      .expect(201);
+    expect(booking.body).toMatchObject({ credit_package_id: packages[0].id, covered: true });
+
+    const moved = await request(app)
+      .post(`/bookings/${booking.body.id}/reschedule`)
+      .set(auth)
+      .send({ targetSlotId: thursday.id })
+      .expect(200);
+    expect(moved.body).toMatchObject({ credit_package_id: null, covered: false, paid: false });
+    const history = await request(app)
+      .get(`/bookings/${booking.body.id}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.events.at(-1).details).toMatchObject({
+      credit_refunded: packages[0].id,
+    });
+
+    // Moving back within the expiry uses the credit again
+    const back = await request(app)
+      .post(`/bookings/${booking.body.id}/reschedule`)
+      .set(auth)
+      .send({ targetSlotId: early.id })
+      .expect(200);
+    expect(back.body).toMatchObject({ credit_package_id: packages[0].id, covered: true });
+  });
+
+  it('prices and covers the booking again for the target occurrence', async () => {
+    const app = makeApp();
+    const at = (startsAt: string, overrides: Record<string, unknown> = {}) =>
+      createTestSlot(studio.id, { ...slotData, startsAt, maxParticipants: 5, ...overrides });
+    const [tuesday, thursday, nextTuesday] = [
+      await at('2030-06-04T16:00:00Z'),
+      await at('2030-06-06T16:00:00Z'),
+      await at('2030-06-11T16:00:00Z'),
+    ];
+    const pricier = await at('2030-06-13T16:00:00Z', { price: 55 });
+    const a = await customer('a');
+    const client = getDbClient();
+    const { rows: plans } = await client.query(
+      `insert into membership_plans (studio_id, name, weekly_limit)
+       values ($1, 'Once a week', 1) returning id`,
+      [studio.id],
+    );
+    const { rows: memberships } = await client.query(
+      `insert into memberships (plan_id, customer_id, starts_on, ends_on)
+       values ($1, $2, '2030-06-01', '2030-06-12') returning id`,
+      [plans[0].id, a.id],
+    );
+
+    const book = (slotId: string) =>
+      request(app).post('/bookings').set(auth).send({ slotId, customerId: a.id }).expect(201);
+    const move = (bookingId: string, targetSlotId: string) =>
+      request(app)
+        .post(`/bookings/${bookingId}/reschedule`)
+        .set(auth)
+        .send({ targetSlotId })
+        .expect(200);
+    const first = await book(tuesday.id);
+    const second = await book(nextTuesday.id);
+    expect(first.body.membership_id).toBe(memberships[0].id);
+    expect(second.body.membership_id).toBe(memberships[0].id);
+
+    // The first booking already uses this week's class
+    const sameWeek = await move(second.body.id, thursday.id);
+    expect(sameWeek.body).toMatchObject({ membership_id: null, covered: false, paid: false });
+
+    // Past the membership's end, at the target's own price
+    const afterEnd = await move(first.body.id, pricier.id);
+    expect(afterEnd.body).toMatchObject({
+      occurrence_date: '2030-06-13',
+      membership_id: null,
+      covered: false,
+      list_price: '55.00',
+      price: '55.00',
+      paid: false,
+    });
+    const history = await request(app)
+      .get(`/bookings/${first.body.id}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.events.at(-1).details).toMatchObject({
+      membership_released: memberships[0].id,
+    });
+  });
+});
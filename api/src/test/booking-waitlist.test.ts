@@ -0,0 +1,239 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import bookingsRouter from '../routes/bookings';
+import publicRouter from '../routes/public';
+import slotsRouter from '../routes/slots';
+import { closeDatabase, getDbClient } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio, TestSlot } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/bookings', bookingsRouter);
+  app.use('/public', publicRouter);
+  app.use('/studios', slotsRouter);
+  return app;
+}
+
+describe('Booking waitlist', () => {
+  let studio: TestStudio;
+  let auth: { Authorization: string };
+  let slot: TestSlot;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+    auth = await createTestOwner(studio.id);
+    slot = await createTestSlot(studio.id, {
+      title: 'One seat',
+      startsAt: '2030-05-01T10:00:00Z',
+      durationMin: 60,
+      price: 50,
+      minParticipants: 0,
+      maxParticipants: 1,
+      forChildren: false,
+    });
+  });
+
+  async function customer(name: string) {
+    return createTestCustomer(studio.id, { first_name: name, contact_email: `${name}@wait` });
+  }
+
+  it('queues bookings for a full slot and promotes them in order on cancellation', async () => {
+    const app = makeApp();
+    const [a, b, c] = [await customer('a'), await customer('b'), await customer('c')];
+
+    const confirmed = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: a.id })
+      .expect(201);
+    expect(confirmed.body.status).toBe('CONFIRMED');
+
+    // Without opting in, a full slot still rejects
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: b.id })
+      .expect(409);
+
+    const first = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: b.id, waitlist: true })
+      .expect(201);
+    expect(first.body).toMatchObject({ status: 'WAITLISTED', waitlist_position: 1 });
+    const second = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: c.id, waitlist: true })
+      .expect(201);
+    expect(second.body).toMatchObject({ status: 'WAITLISTED', waitlist_position: 2 });
+
+    const cancelled = await request(app)
+      .patch(`/bookings/${confirmed.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    expect(cancelled.body.promoted_bookings).toHaveLength(1);
+    expect(cancelled.body.promoted_bookings[0]).toMatchObject({
+      id: first.body.id,
+      status: 'CONFIRMED',
+    });
+
+    const moved = await request(app).get(`/bookings/${second.body.id}`).set(auth).expect(200);
+    expect(moved.body).toMatchObject({ status: 'WAITLISTED', waitlist_position: 1 });
+
+    const deleted = await request(app).delete(`/bookings/${first.body.id}`).set(auth).expect(200);
+    expect(deleted.body.promoted_bookings.map((p: { id: string }) => p.id)).toEqual([
+      second.body.id,
+    ]);
+
+    // Cancelling a waitlisted booking frees nothing
+    const d = await customer('d');
+    const waiting = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: d.id, waitlist: true })
+      .expect(201);
+    const left = await request(app)
+      .patch(`/bookings/${waiting.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    expect(left.body.promoted_bookings).toEqual([]);
+  });
+
+  it('serves the waitlist before new bookings when seats open up', async () => {
+    const app = makeApp();
+    const [a, b, c] = [await customer('a'), await customer('b'), await customer('c')];
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: a.id })
+      .expect(201);
+    const queued = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: b.id, waitlist: true })
+      .expect(201);
+
+    await getDbClient().query('update slots set max_participants = 2 where id = $1', [slot.id]);
+
+    // The freed seat goes to the waitlisted booking, not the newcomer
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: c.id })
+      .expect(409);
+    const promoted = await request(app).get(`/bookings/${queued.body.id}`).set(auth).expect(200);
+    expect(promoted.body.status).toBe('CONFIRMED');
+  });
+
+  it('promotes waitlisted bookings when the slot or occurrence capacity is raised', async () => {
+    const app = makeApp();
+    const [a, b, c, d] = [
+      await customer('a'),
+      await customer('b'),
+      await customer('c'),
+      await customer('d'),
+    ];
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: a.id })
+      .expect(201);
+    const queued = [];
+    for (const who of [b, c, d]) {
+      const res = await request(app)
+        .post('/bookings')
+        .set(auth)
+        .send({ slotId: slot.id, customerId: who.id, waitlist: true })
+        .expect(201);
+      queued.push(res.body.id);
+    }
+    const slotUrl = `/studios/${studio.id}/slots/${slot.id}`;
+    const ids = (res: request.Response) =>
+      res.body.promoted_bookings.map((p: { id: string }) => p.id);
+
+    const raised = await request(app).patch(slotUrl).set(auth).send({ maxParticipants: 2 });
+    expect(raised.status).toBe(200);
+    expect(ids(raised)).toEqual([queued[0]]);
+
+    const overridden = await request(app)
+      .put(`${slotUrl}/occurrences/2030-05-01`)
+      .set(auth)
+      .send({ maxParticipants: 3 })
+      .expect(200);
+    expect(ids(overridden)).toEqual([queued[1]]);
+    expect(overridden.body.booked_count).toBe(3);
+
+    // The override still caps the occurrence until it is removed
+    const series = await request(app).patch(slotUrl).set(auth).send({ maxParticipants: 4 });
+    expect(ids(series)).toEqual([]);
+    const restored = await request(app)
+      .delete(`${slotUrl}/occurrences/2030-05-01`)
+      .set(auth)
+      .expect(200);
+    expect(ids(restored)).toEqual([queued[2]]);
+    expect(restored.body.booked_count).toBe(4);
+
+    const { rows } = await getDbClient().query(
+      `SELECT COUNT(*)::int as count FROM bookings WHERE slot_id = $1 AND status = 'CONFIRMED'`,
+      [slot.id],
+    );
+    expect(rows[0].count).toBe(4);
+  });
+
+  it('lets invited customers join and leave the waitlist', async () => {
+    const app = makeApp();
+    const [a, b] = [await customer('a'), await customer('b')];
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: a.id })
+      .expect(201);
+
+    const client = getDbClient();
+    const invites = [];
+    for (const c of [a, b]) {
+      const { rows } = await client.query(
+        `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+         values ($1, $2, $3, now(), now() + interval '1 day') returning short_hash`,
+        [studio.id, c.id, `wl-${c.id.slice(0, 8)}`],
+      );
+      invites.push(rows[0].short_hash);
+    }
+    const [inviteA, inviteB] = invites;
+
+    await request(app)
+      .post(`/public/invites/${inviteB}/bookings`)
+      .send({ slotId: slot.id })
+      .expect(409);
+    const joined = await request(app)
+      .post(`/public/invites/${inviteB}/bookings`)
+      .send({ slotId: slot.id, waitlist: true })
+      .expect(201);
+    expect(joined.body).toMatchObject({ status: 'WAITLISTED', waitlist_position: 1 });
+
+    // Another customer's invite cannot touch the booking
+    await request(app).delete(`/public/invites/${inviteA}/waitlist/${joined.body.id}`).expect(404);
+    await request(app).delete(`/public/invites/${inviteB}/waitlist/not-a-uuid`).expect(400);
+
+    const left = await request(app)
+      .delete(`/public/invites/${inviteB}/waitlist/${joined.body.id}`)
+      .expect(200);
+    expect(left.body.booking.status).toBe('CANCELLED');
+    await request(app).delete(`/public/invites/${inviteB}/waitlist/${joined.body.id}`).expect(409);
+  });
+});
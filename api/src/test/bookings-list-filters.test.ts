@@ -2,7 +2,12 @@ import { describe, it, expect } from 'vitest';
 import express from 'express';
 import request from 'supertest';
 import bookingsRouter from '../routes/bookings';
-import { createTestStudio, createTestSlot, createTestCustomer } from './test-helpers';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
 
 function appFactory() {
   const app = express();
@@ -15,6 +20,7 @@ describe('Bookings list filters', () => {
   it('filters by studioId, customerId, childId, slotId, status, paid', async () => {
     const app = appFactory();
     const studio = await createTestStudio();
+    const auth = await createTestOwner(studio.id);
     const adultSlot = await createTestSlot(studio.id, {
       title: 'Adult',
       startsAt: new Date().toISOString(),
@@ -40,6 +46,7 @@ describe('Bookings list filters', () => {
 
     const b1 = await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: adultSlot.id, customerId: customer.id })
       .expect(201);
 
@@ -53,31 +60,50 @@ describe('Bookings list filters', () => {
     const child = childInsert.rows[0];
     const b2 = await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: childSlot.id, childId: child.id })
       .expect(201);
 
     // pay b1
     await request(app)
       .patch(`/bookings/${b1.body.id}/payment`)
+      .set(auth)
       .send({ paidMethod: 'cash' })
       .expect(200);
 
-    const q1 = await request(app).get('/bookings').query({ studioId: studio.id }).expect(200);
+    const q1 = await request(app)
+      .get('/bookings')
+      .set(auth)
+      .query({ studioId: studio.id })
+      .expect(200);
     expect(q1.body.length).toBeGreaterThanOrEqual(2);
 
-    const q2 = await request(app).get('/bookings').query({ customerId: customer.id }).expect(200);
+    const q2 = await request(app)
+      .get('/bookings')
+      .set(auth)
+      .query({ customerId: customer.id })
+      .expect(200);
     expect(q2.body.find((r: { id: string }) => r.id === b1.body.id)).toBeTruthy();
 
-    const q3 = await request(app).get('/bookings').query({ childId: child.id }).expect(200);
+    const q3 = await request(app)
+      .get('/bookings')
+      .set(auth)
+      .query({ childId: child.id })
+      .expect(200);
     expect(q3.body.find((r: { id: string }) => r.id === b2.body.id)).toBeTruthy();
 
     const q4 = await request(app)
       .get('/bookings')
+      .set(auth)
       .query({ slotId: adultSlot.id, paid: 'true' })
       .expect(200);
     expect(q4.body.find((r: { id: string }) => r.id === b1.body.id)).toBeTruthy();
 
-    const q5 = await request(app).get('/bookings').query({ status: 'CONFIRMED' }).expect(200);
+    const q5 = await request(app)
+      .get('/bookings')
+      .set(auth)
+      .query({ status: 'CONFIRMED' })
+      .expect(200);
     expect(q5.body.length).toBeGreaterThanOrEqual(2);
   });
 });
@@ -2,7 +2,12 @@ import { describe, it, expect } from 'vitest';
 import express from 'express';
 import request from 'supertest';
 import bookingsRouter from '../routes/bookings';
-import { createTestStudio, createTestSlot, createTestCustomer } from './test-helpers';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
 import { getDbClient } from '../db';
 
 function appFactory() {
@@ -16,6 +21,7 @@ describe('Bookings routes - validations and 404s', () => {
   it('returns Zod 400 on invalid payloads and 404 on studio mismatches', async () => {
     const app = appFactory();
     const studio = await createTestStudio();
+    const auth = await createTestOwner(studio.id);
     const slot = await createTestSlot(studio.id, {
       title: 'Adult',
       startsAt: new Date().toISOString(),
@@ -26,16 +32,18 @@ describe('Bookings routes - validations and 404s', () => {
       forChildren: false,
     });
     const otherStudio = await createTestStudio();
+    await createTestOwner(otherStudio.id);
     const otherCustomer = await createTestCustomer(otherStudio.id, {
       first_name: 'X',
       contact_email: 'x@y.z',
     });
 
-    await request(app).post('/bookings').send({}).expect(400);
+    await request(app).post('/bookings').set(auth).send({}).expect(400);
 
     // require customerId when providing childData
     await request(app)
       .post('/bookings')
+      .set(auth)
       .send({
         slotId: slot.id,
         childData: { firstName: 'Kid', avatarKey: 'k' },
@@ -45,6 +53,7 @@ describe('Bookings routes - validations and 404s', () => {
     // 404 when customer not in slot studio
     await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: slot.id, customerId: otherCustomer.id })
       .expect(404);
   });
@@ -53,6 +62,7 @@ describe('Bookings routes - validations and 404s', () => {
     const app = appFactory();
     // Studio A with children slot
     const studioA = await createTestStudio();
+    const auth = await createTestOwner(studioA.id);
     const slotAChild = await createTestSlot(studioA.id, {
       title: 'Kids',
       startsAt: new Date().toISOString(),
@@ -64,6 +74,7 @@ describe('Bookings routes - validations and 404s', () => {
     });
     // Studio B with parent+child
     const studioB = await createTestStudio();
+    await createTestOwner(studioB.id);
     const parentB = await createTestCustomer(studioB.id, {
       first_name: 'PB',
       contact_email: 'pb@b',
@@ -80,6 +91,7 @@ describe('Bookings routes - validations and 404s', () => {
     // Attempt to book slot in A with child from B -> 404
     await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: slotAChild.id, childId: childB.id })
       .expect(404);
 
@@ -99,15 +111,18 @@ describe('Bookings routes - validations and 404s', () => {
     });
     const booking2 = await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: slotAAdult.id, customerId: parentA.id })
       .expect(201);
     await request(app)
       .patch(`/bookings/${booking2.body.id}/payment`)
+      .set(auth)
       .send({ paidMethod: 'cash' })
       .expect(200);
 
     const listPaid = await request(app)
       .get('/bookings')
+      .set(auth)
       .query({ slotId: slotAAdult.id, paid: 'true' })
       .expect(200);
     expect(Array.isArray(listPaid.body)).toBe(true);
@@ -3,7 +3,12 @@ import express from 'express';
 import request from 'supertest';
 import bookingsRouter from '../routes/bookings';
 import { closeDatabase } from '../db';
-import { createTestStudio, createTestSlot, createTestCustomer } from './test-helpers';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
 
 function makeApp() {
   const app = express();
@@ -20,6 +25,7 @@ describe('Bookings routes', () => {
   it('POST /bookings creates booking; GET list filters; GET by id; PATCH status; PATCH payment; DELETE', async () => {
     const app = makeApp();
     const studio = await createTestStudio();
+    const auth = await createTestOwner(studio.id);
     const slot = await createTestSlot(studio.id, {
       title: 'Adult',
       startsAt: new Date().toISOString(),
@@ -36,51 +42,64 @@ describe('Bookings routes', () => {
 
     const created = await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: slot.id, customerId: customer.id })
       .expect(201);
     expect(created.body).toHaveProperty('id');
 
-    const getOne = await request(app).get(`/bookings/${created.body.id}`).expect(200);
+    const getOne = await request(app).get(`/bookings/${created.body.id}`).set(auth).expect(200);
     expect(getOne.body.slot_id).toBe(slot.id);
 
-    const list = await request(app).get('/bookings').query({ slotId: slot.id }).expect(200);
+    const list = await request(app)
+      .get('/bookings')
+      .set(auth)
+      .query({ slotId: slot.id })
+      .expect(200);
     expect(Array.isArray(list.body)).toBe(true);
     expect(list.body.length).toBeGreaterThan(0);
 
-    const status = await request(app)
-      .patch(`/bookings/${created.body.id}/status`)
-      .send({ status: 'CANCELLED' })
-      .expect(200);
-    expect(status.body.status).toBe('CANCELLED');
-
     const payment = await request(app)
       .patch(`/bookings/${created.body.id}/payment`)
+      .set(auth)
       .send({ paidMethod: 'cash' })
       .expect(200);
     expect(payment.body.paid).toBe(true);
 
-    const del = await request(app).delete(`/bookings/${created.body.id}`).expect(200);
-    expect(del.body).toHaveProperty('deleted');
+    const status = await request(app)
+      .patch(`/bookings/${created.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    expect(status.body.status).toBe('CANCELLED');
+
+    // Deleting keeps the booking and its payment; an already cancelled booking stays as it is
+    const del = await request(app).delete(`/bookings/${created.body.id}`).set(auth).expect(200);
+    expect(del.body).toMatchObject({ id: created.body.id, status: 'CANCELLED', paid: true });
+    await request(app).get(`/bookings/${created.body.id}`).set(auth).expect(200);
   });
 
   it('validates ids and returns 404/400 where appropriate', async () => {
     const app = makeApp();
-    await request(app).get('/bookings/not-a-uuid').expect(400);
+    const auth = await createTestOwner();
+    await request(app).get('/bookings/not-a-uuid').set(auth).expect(400);
     await request(app)
       .patch('/bookings/not-a-uuid/status')
+      .set(auth)
       .send({ status: 'CONFIRMED' })
       .expect(400);
     await request(app)
       .patch('/bookings/not-a-uuid/payment')
+      .set(auth)
       .send({ paidMethod: 'cash' })
       .expect(400);
-    await request(app).delete('/bookings/not-a-uuid').expect(400);
+    await request(app).delete('/bookings/not-a-uuid').set(auth).expect(400);
   });
 
   it('handles capacity reached and cross-studio constraints', async () => {
     const app = makeApp();
     // Studio A with slot capacity 1
     const studioA = await createTestStudio();
+    const auth = await createTestOwner(studioA.id);
     const slotA = await createTestSlot(studioA.id, {
       title: 'Cap1',
       startsAt: new Date().toISOString(),
@@ -101,29 +120,83 @@ describe('Bookings routes', () => {
     // First booking succeeds
     await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: slotA.id, customerId: customerA1.id })
       .expect(201);
     // Second booking hits capacity
     await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: slotA.id, customerId: customerA2.id })
       .expect(409);
 
     // Cross-studio check: customer from B cannot book slot in A
     const studioB = await createTestStudio();
+    await createTestOwner(studioB.id);
     const customerB = await createTestCustomer(studioB.id, {
       first_name: 'B',
       contact_email: 'b@b.b',
     });
     await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: slotA.id, customerId: customerB.id })
       .expect(404);
   });
 
+  it('attaches bookings to a single occurrence and counts capacity per occurrence', async () => {
+    const app = makeApp();
+    const studio = await createTestStudio();
+    const auth = await createTestOwner(studio.id);
+    const slot = await createTestSlot(studio.id, {
+      title: 'Weekly',
+      startsAt: '2025-01-06T15:00:00Z', // Monday in New York
+      durationMin: 60,
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
+      price: 10,
+      minParticipants: 0,
+      maxParticipants: 1,
+      forChildren: false,
+    });
+    const c1 = await createTestCustomer(studio.id, { first_name: 'O1', contact_email: 'o1@o' });
+    const c2 = await createTestCustomer(studio.id, { first_name: 'O2', contact_email: 'o2@o' });
+
+    const missing = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: c1.id })
+      .expect(400);
+    expect(missing.body.error).toMatch(/occurrenceDate/);
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: c1.id, occurrenceDate: '2025-01-07' })
+      .expect(400);
+
+    const first = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: c1.id, occurrenceDate: '2025-01-13' })
+      .expect(201);
+    expect(first.body.occurrence_date).toBe('2025-01-13');
+
+    // Same occurrence is full, the following week is not
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: c2.id, occurrenceDate: '2025-01-13' })
+      .expect(409);
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: c2.id, occurrenceDate: '2025-01-20' })
+      .expect(201);
+  });
+
   it('covers paid-twice, non-existent resources, inactive slot, invalid status', async () => {
     const app = makeApp();
     const studio = await createTestStudio();
+    const auth = await createTestOwner(studio.id);
     const slot = await createTestSlot(studio.id, {
       title: 'Adult',
       startsAt: new Date().toISOString(),
@@ -140,32 +213,37 @@ describe('Bookings routes', () => {
 
     const created = await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: slot.id, customerId: customer.id })
       .expect(201);
 
     // Pay once ok
     await request(app)
       .patch(`/bookings/${created.body.id}/payment`)
+      .set(auth)
       .send({ paidMethod: 'cash' })
       .expect(200);
     // Pay again -> 400
     await request(app)
       .patch(`/bookings/${created.body.id}/payment`)
+      .set(auth)
       .send({ paidMethod: 'cash' })
       .expect(400);
 
     // Non-existent get/status/delete
     const missingId = '550e8400-e29b-41d4-a716-446655440099';
-    await request(app).get(`/bookings/${missingId}`).expect(404);
+    await request(app).get(`/bookings/${missingId}`).set(auth).expect(404);
     await request(app)
       .patch(`/bookings/${missingId}/status`)
+      .set(auth)
       .send({ status: 'CONFIRMED' })
       .expect(404);
-    await request(app).delete(`/bookings/${missingId}`).expect(404);
+    await request(app).delete(`/bookings/${missingId}`).set(auth).expect(404);
 
     // Invalid status value
     await request(app)
       .patch(`/bookings/${created.body.id}/status`)
+      .set(auth)
       .send({ status: 'WHATEVER' })
       .expect(400);
 
@@ -176,6 +254,7 @@ describe('Bookings routes', () => {
     await client.query('update slots set active=false where id=$1', [slot.id]);
     await request(app)
       .post('/bookings')
+      .set(auth)
       .send({ slotId: slot.id, customerId: customer.id })
       .expect(404);
   });
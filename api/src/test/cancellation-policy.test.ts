@@ -0,0 +1,203 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import studiosRouter from '../routes/studios';
+import bookingsRouter from '../routes/bookings';
+import publicRouter from '../routes/public';
+import { closeDatabase, getDbClient } from '../db';
+import { isLateCancellation } from '../bookings/policy';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', studiosRouter);
+  app.use('/bookings', bookingsRouter);
+  app.use('/public', publicRouter);
+  return app;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Cancellation policy', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+  });
+
+  // One-time slot starting the given number of hours from now, with one booking and an invite
+  async function bookedSlot(hoursAhead: number) {
+    const slot = await createTestSlot(studio.id, {
+      title: `In ${hoursAhead}h`,
+      startsAt: new Date(Date.now() + hoursAhead * HOUR).toISOString(),
+      durationMin: 60,
+      price: 70,
+      minParticipants: 0,
+      maxParticipants: 5,
+      forChildren: false,
+    });
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Parent',
+      contact_email: `p${hoursAhead}@policy`,
+    });
+    const client = getDbClient();
+    const { rows: bookings } = await client.query(
+      `insert into bookings (slot_id, customer_id, occurrence_date, list_price, price, currency)
+       select $1, $2, (starts_at at time zone 'Asia/Jerusalem')::date, price, price,
+              (select currency from studios where id = slots.studio_id)
+       from slots where id = $1
+       returning id`,
+      [slot.id, customer.id],
+    );
+    const hash = `pol-${slot.id.slice(0, 8)}`;
+    await client.query(
+      `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+       values ($1, $2, $3, now(), now() + interval '1 day')`,
+      [studio.id, customer.id, hash],
+    );
+    return { bookingId: bookings[0].id, hash };
+  }
+
+  it('decides lateness from the free cancellation window', () => {
+    const startsAt = new Date('2030-01-10T10:00:00Z');
+    const policy = { free_cancellation_hours: 24, late_cancellation_action: 'charge' as const };
+    expect(isLateCancellation(policy, startsAt, new Date('2030-01-09T09:59:00Z'))).toBe(false);
+    expect(isLateCancellation(policy, startsAt, new Date('2030-01-09T10:01:00Z'))).toBe(true);
+    expect(
+      isLateCancellation(
+        { ...policy, free_cancellation_hours: null },
+        startsAt,
+        new Date('2030-01-10T09:59:00Z'),
+      ),
+    ).toBe(false);
+  });
+
+  it('lets owners read and update the policy', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const url = `/studios/${studio.id}/cancellation-policy`;
+
+    const initial = await request(app).get(url).set(auth).expect(200);
+    expect(initial.body).toEqual({
+      free_cancellation_hours: null,
+      late_cancellation_action: 'charge',
+    });
+
+    const updated = await request(app)
+      .put(url)
+      .set(auth)
+      .send({ freeCancellationHours: 24, lateCancellationAction: 'forfeit_credit' })
+      .expect(200);
+    expect(updated.body).toEqual({
+      free_cancellation_hours: 24,
+      late_cancellation_action: 'forfeit_credit',
+    });
+
+    await request(app).put(url).set(auth).send({ freeCancellationHours: -1 }).expect(400);
+    await request(app).put(url).set(auth).send({ lateCancellationAction: 'charge' }).expect(400);
+
+    const other = await createTestStudio();
+    await request(app)
+      .put(`/studios/${other.id}/cancellation-policy`)
+      .set(auth)
+      .send({ freeCancellationHours: 1 })
+      .expect(403);
+    await request(app).get(url).expect(401);
+  });
+
+  it('marks studio cancellations inside the window as late and un-cancelling clears it', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    await getDbClient().query(
+      `update studios set free_cancellation_hours = 24, late_cancellation_action = 'forfeit_credit'
+       where id = $1`,
+      [studio.id],
+    );
+    const late = await bookedSlot(2);
+    const early = await bookedSlot(72);
+
+    const lateRes = await request(app)
+      .patch(`/bookings/${late.bookingId}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    expect(lateRes.body).toMatchObject({
+      status: 'CANCELLED',
+      late_cancellation: true,
+      late_cancellation_charged: false,
+    });
+    expect(lateRes.body.cancelled_at).toBeTruthy();
+
+    const history = await request(app)
+      .get(`/bookings/${late.bookingId}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.events.at(-1).details).toEqual({
+      late_cancellation: true,
+      action: 'forfeit_credit',
+    });
+
+    const earlyRes = await request(app)
+      .patch(`/bookings/${early.bookingId}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    expect(earlyRes.body.late_cancellation).toBe(false);
+
+    const restored = await request(app)
+      .patch(`/bookings/${late.bookingId}/status`)
+      .set(auth)
+      .send({ status: 'CONFIRMED' })
+      .expect(200);
+    expect(restored.body).toMatchObject({ late_cancellation: false, cancelled_at: null });
+  });
+
+  it('lets parents cancel from their invite link only within the free window', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    await getDbClient().query('update studios set free_cancellation_hours = 24 where id = $1', [
+      studio.id,
+    ]);
+    const late = await bookedSlot(2);
+    const early = await bookedSlot(72);
+
+    const refused = await request(app)
+      .delete(`/public/invites/${late.hash}/bookings/${late.bookingId}`)
+      .expect(409);
+    expect(refused.body.error).toMatch(/free cancellation window has passed/);
+
+    // A booking of another customer is not reachable through this invite
+    await request(app)
+      .delete(`/public/invites/${late.hash}/bookings/${early.bookingId}`)
+      .expect(404);
+
+    const cancelled = await request(app)
+      .delete(`/public/invites/${early.hash}/bookings/${early.bookingId}`)
+      .expect(200);
+    expect(cancelled.body.booking).toMatchObject({
+      status: 'CANCELLED',
+      late_cancellation: false,
+    });
+
+    const history = await request(app)
+      .get(`/bookings/${early.bookingId}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.events.at(-1)).toMatchObject({ source: 'invite', to_status: 'CANCELLED' });
+
+    await request(app)
+      .delete(`/public/invites/${early.hash}/bookings/${early.bookingId}`)
+      .expect(409);
+  });
+});
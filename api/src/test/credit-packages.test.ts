@@ -0,0 +1,277 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { customersRouter } from '../routes/customers';
+import bookingsRouter from '../routes/bookings';
+import publicRouter from '../routes/public';
+import { closeDatabase, getDbClient } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestChild,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/customers', customersRouter);
+  app.use('/bookings', bookingsRouter);
+  app.use('/public', publicRouter);
+  return app;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Credit packages', () => {
+  let studio: TestStudio;
+  let auth: { Authorization: string };
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+    auth = await createTestOwner(studio.id);
+    await getDbClient().query('update studios set free_cancellation_hours = 24 where id = $1', [
+      studio.id,
+    ]);
+  });
+
+  async function slotIn(hoursAhead: number, overrides: Record<string, unknown> = {}) {
+    return createTestSlot(studio.id, {
+      title: `In ${hoursAhead}h`,
+      startsAt: new Date(Date.now() + hoursAhead * HOUR).toISOString(),
+      durationMin: 60,
+      price: 50,
+      minParticipants: 0,
+      maxParticipants: 5,
+      forChildren: false,
+      ...overrides,
+    });
+  }
+
+  it('sells packages and lists their remaining credits', async () => {
+    const app = makeApp();
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Buyer',
+      contact_email: 'buyer@credits',
+    });
+
+    const sold = await request(app)
+      .post(`/customers/${customer.id}/credit-packages`)
+      .set(auth)
+      .send({ name: '10-class card', credits: 10, expiresAt: '2031-01-01T00:00:00Z' })
+      .expect(201);
+    expect(sold.body).toMatchObject({
+      studio_id: studio.id,
+      customer_id: customer.id,
+      credits: 10,
+      used: 0,
+      remaining: 10,
+    });
+
+    await request(app)
+      .post(`/customers/${customer.id}/credit-packages`)
+      .set(auth)
+      .send({ name: 'Empty', credits: 0 })
+      .expect(400);
+    await request(app)
+      .post('/customers/550e8400-e29b-41d4-a716-446655440000/credit-packages')
+      .set(auth)
+      .send({ name: 'Nobody', credits: 5 })
+      .expect(404);
+
+    const list = await request(app)
+      .get(`/customers/${customer.id}/credit-packages`)
+      .set(auth)
+      .expect(200);
+    expect(list.body).toHaveLength(1);
+    const details = await request(app).get(`/customers/${customer.id}`).set(auth).expect(200);
+    expect(details.body.credits.available).toBe(10);
+  });
+
+  it('spends a credit per booking for the family and refunds it on in-policy cancellation', async () => {
+    const app = makeApp();
+    const parent = await createTestCustomer(studio.id, {
+      first_name: 'Parent',
+      contact_email: 'parent@credits',
+    });
+    const child = await createTestChild(parent.id, { firstName: 'Kid', avatarKey: 'kid.png' });
+    // Expires before the far-away class, so only the card is usable for it
+    await request(app)
+      .post(`/customers/${parent.id}/credit-packages`)
+      .set(auth)
+      .send({
+        name: 'Short trial',
+        credits: 5,
+        expiresAt: new Date(Date.now() + 24 * HOUR).toISOString(),
+      })
+      .expect(201);
+    const card = await request(app)
+      .post(`/customers/${parent.id}/credit-packages`)
+      .set(auth)
+      .send({ name: 'Card', credits: 2 })
+      .expect(201);
+
+    const adultSlot = await slotIn(72);
+    const kidsSlot = await slotIn(72, { forChildren: true });
+    const soonSlot = await slotIn(2);
+
+    const own = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: adultSlot.id, customerId: parent.id })
+      .expect(201);
+    expect(own.body.credit_package_id).toBe(card.body.id);
+    const kids = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: kidsSlot.id, childId: child.id })
+      .expect(201);
+    expect(kids.body.credit_package_id).toBe(card.body.id);
+
+    // The class starting soon uses the short trial; the card is now used up
+    const soon = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: soonSlot.id, customerId: parent.id })
+      .expect(201);
+    expect(soon.body.credit_package_id).not.toBe(card.body.id);
+    expect(soon.body.credit_package_id).toBeTruthy();
+
+    let summary = await request(app).get(`/customers/${parent.id}`).set(auth).expect(200);
+    expect(summary.body.credits.available).toBe(4);
+
+    // Cancelling in time gives the credit back ...
+    const cancelled = await request(app)
+      .patch(`/bookings/${own.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    expect(cancelled.body.credit_package_id).toBeNull();
+    const history = await request(app)
+      .get(`/bookings/${own.body.id}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.events.at(-1).details).toEqual({ credit_refunded: card.body.id });
+
+    // ... a late cancellation keeps it spent
+    const late = await request(app)
+      .patch(`/bookings/${soon.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    expect(late.body).toMatchObject({
+      late_cancellation: true,
+      credit_package_id: soon.body.credit_package_id,
+    });
+
+    summary = await request(app).get(`/customers/${parent.id}`).set(auth).expect(200);
+    expect(summary.body.credits.available).toBe(5);
+    expect(
+      summary.body.credits.packages.find((pkg: { id: string }) => pkg.id === card.body.id),
+    ).toMatchObject({ used: 1, remaining: 1 });
+
+    // Un-cancelling spends a credit again
+    const restored = await request(app)
+      .patch(`/bookings/${own.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CONFIRMED' })
+      .expect(200);
+    expect(restored.body.credit_package_id).toBe(card.body.id);
+  });
+
+  it('pays waitlist promotions with credits and shows the balance on the invite', async () => {
+    const app = makeApp();
+    const first = await createTestCustomer(studio.id, {
+      first_name: 'First',
+      contact_email: 'first@credits',
+    });
+    const queued = await createTestCustomer(studio.id, {
+      first_name: 'Queued',
+      contact_email: 'queued@credits',
+    });
+    const card = await request(app)
+      .post(`/customers/${queued.id}/credit-packages`)
+      .set(auth)
+      .send({ name: 'Card', credits: 3 })
+      .expect(201);
+    const slot = await slotIn(72, { maxParticipants: 1 });
+
+    const taken = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: first.id })
+      .expect(201);
+    expect(taken.body.credit_package_id).toBeNull();
+    const waiting = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: queued.id, waitlist: true })
+      .expect(201);
+    expect(waiting.body).toMatchObject({ status: 'WAITLISTED', credit_package_id: null });
+
+    const cancelled = await request(app)
+      .patch(`/bookings/${taken.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    expect(cancelled.body.promoted_bookings).toMatchObject([
+      { id: waiting.body.id, status: 'CONFIRMED', credit_package_id: card.body.id },
+    ]);
+
+    await getDbClient().query(
+      `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+       values ($1, $2, 'credits-invite', now(), now() + interval '1 day')`,
+      [studio.id, queued.id],
+    );
+    const portal = await request(app).get('/public/invites/credits-invite').expect(200);
+    expect(portal.body.credits).toMatchObject({
+      available: 2,
+      packages: [{ id: card.body.id, used: 1, remaining: 2 }],
+    });
+  });
+
+  it("does not book another family's child through an invite or spend their credits", async () => {
+    const app = makeApp();
+    const parent = await createTestCustomer(studio.id, {
+      first_name: 'Parent',
+      contact_email: 'parent@credits',
+    });
+    const stranger = await createTestCustomer(studio.id, {
+      first_name: 'Stranger',
+      contact_email: 'stranger@credits',
+    });
+    const kid = await createTestChild(parent.id, { firstName: 'Kid' });
+    const card = await request(app)
+      .post(`/customers/${parent.id}/credit-packages`)
+      .set(auth)
+      .send({ name: 'Card', credits: 3 })
+      .expect(201);
+    const slot = await slotIn(72, { forChildren: true });
+    await getDbClient().query(
+      `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+       values ($1, $2, 'stranger-invite', now(), now() + interval '1 day')`,
+      [studio.id, stranger.id],
+    );
+
+    await request(app)
+      .post('/public/invites/stranger-invite/bookings')
+      .send({ slotId: slot.id, childId: kid.id })
+      .expect(404, { error: 'Child not found' });
+    const { rows } = await getDbClient().query(
+      'select count(*)::int as count from bookings where child_id = $1',
+      [kid.id],
+    );
+    expect(rows[0].count).toBe(0);
+    const packages = await request(app)
+      .get(`/customers/${parent.id}/credit-packages`)
+      .set(auth)
+      .expect(200);
+    expect(packages.body).toMatchObject([{ id: card.body.id, used: 0, remaining: 3 }]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import paymentsRouter from '../routes/payments';
+import adminRouter from '../routes/admin';
+import bookingsRouter from '../routes/bookings';
+import { customersRouter } from '../routes/customers';
+import { closeDatabase, getDbClient } from '../db';
+import { signAccessToken } from '../auth/jwt';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', paymentsRouter);
+  app.use('/admin', adminRouter);
+  app.use('/bookings', bookingsRouter);
+  app.use('/customers', customersRouter);
+  return app;
+}
+
+async function adminAuth() {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret-123';
+  const token = await signAccessToken({ userId: 'admin', isAdmin: true }, '5m');
+  return { Authorization: `Bearer ${token}` };
+}
+
+describe('Booking currency', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+    await getDbClient().query(`update studios set currency = 'USD' where id = $1`, [studio.id]);
+  });
+
+  it('keeps the booked currency when the studio changes its currency', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Traveller',
+      contact_email: 'traveller@currency',
+    });
+    const slot = await createTestSlot(studio.id, {
+      title: 'Class',
+      startsAt: '2030-09-01T15:00:00Z',
+      durationMin: 60,
+      price: 40,
+      minParticipants: 0,
+      maxParticipants: 10,
+      forChildren: false,
+    });
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: customer.id })
+      .expect(201);
+    expect(booking.body).toMatchObject({ price: '40.00', currency: 'USD' });
+
+    await getDbClient().query(`update studios set currency = 'EUR' where id = $1`, [studio.id]);
+    const paid = await request(app)
+      .patch(`/bookings/${booking.body.id}/payment`)
+      .set(auth)
+      .send({ paidMethod: 'cash' })
+      .expect(200);
+    expect(paid.body).toMatchObject({ paid: true, currency: 'USD' });
+    expect(paid.body.payment).toMatchObject({ amount: '40.00', currency: 'USD' });
+    const onAccount = await request(app)
+      .post(`/studios/${studio.id}/payments`)
+      .set(auth)
+      .send({ amount: 15, method: 'cash', customerId: customer.id })
+      .expect(201);
+    expect(onAccount.body.currency).toBe('EUR');
+    const refund = await request(app)
+      .post(`/studios/${studio.id}/payments/${paid.body.payment.id}/refund`)
+      .set(auth)
+      .send({ amount: 5 })
+      .expect(201);
+    expect(refund.body.currency).toBe('USD');
+
+    const ledger = await request(app).get(`/studios/${studio.id}/payments`).set(auth).expect(200);
+    expect(ledger.body.totals).toEqual([
+      { currency: 'EUR', received: 15, refunded: 0, net: 15 },
+      { currency: 'USD', received: 40, refunded: 5, net: 35 },
+    ]);
+
+    // Reports are in one currency, the studio's unless asked for another
+    const balances = `/studios/${studio.id}/balances`;
+    const current = await request(app).get(balances).set(auth).expect(200);
+    expect(current.body.currency).toBe('EUR');
+    expect(current.body.customers).toEqual([expect.objectContaining({ balance: -15 })]);
+    const previous = await request(app).get(balances).set(auth).query({ currency: 'USD' });
+    expect(previous.body.customers).toEqual([expect.objectContaining({ balance: -35 })]);
+    await request(app).get(balances).set(auth).query({ currency: 'usd' }).expect(400);
+    const statement = await request(app)
+      .get(`/customers/${customer.id}/statement`)
+      .set(auth)
+      .query({ currency: 'USD' })
+      .expect(200);
+    expect(statement.body).toMatchObject({ currency: 'USD', balance: -35 });
+    expect(statement.body.lines).toHaveLength(2);
+
+    const metrics = await request(app)
+      .get('/admin/metrics')
+      .set(await adminAuth())
+      .expect(200);
+    const revenue = metrics.body.revenue_last_30_days;
+    const usd = revenue.find((row: { currency: string }) => row.currency === 'USD');
+    const eur = revenue.find((row: { currency: string }) => row.currency === 'EUR');
+    expect(usd.total).toBeGreaterThanOrEqual(35);
+    expect(eur.total).toBeGreaterThanOrEqual(15);
+  });
+});
@@ -6,6 +6,8 @@ import path from 'path';
 
 // const execAsync = promisify(exec); // Future use for database operations
 
+const INITIAL_MIGRATION = '20250101000000_initial_schema.sql';
+
 /**
  * Global test setup - runs once before all tests
  */
@@ -74,7 +76,6 @@ async function verifyTestDatabase() {
 async function ensureDatabaseSchema() {
   try {
     const initialTables = ['studios', 'customers', 'slots', 'invites', 'children', 'bookings'];
-    const authTables = ['users', 'studio_owners'];
 
     const tablesQuery = `
       SELECT table_name 
@@ -85,38 +86,30 @@ async function ensureDatabaseSchema() {
     const existingTables = new Set(result.rows.map((row) => row.table_name));
 
     const missingInitial = initialTables.filter((t) => !existingTables.has(t));
-    const missingAuth = authTables.filter((t) => !existingTables.has(t));
 
-    if (missingInitial.length || missingAuth.length) {
+    if (missingInitial.length) {
       console.log('📦 Missing tables detected, applying schema...');
-      await applyDatabaseSchema({
-        applyInitial: !!missingInitial.length,
-        applyAuth: !!missingAuth.length,
-      });
-    } else {
-      console.log('✅ Database schema is up to date');
     }
+    await applyDatabaseSchema({ applyInitial: !!missingInitial.length });
   } catch (error) {
     throw new Error(`Failed to verify database schema: ${error}`);
   }
 }
 
 /**
- * Apply database schema from migration file
+ * Apply database schema from migration files.
+ * Migrations after the initial schema are idempotent, so they are re-applied on every run
+ * to pick up newly added ones.
  */
-async function applyDatabaseSchema(opts: { applyInitial: boolean; applyAuth: boolean }) {
+async function applyDatabaseSchema(opts: { applyInitial: boolean }) {
   try {
-    const initialPath = await resolveRepoPath(
-      'supabase/migrations/20250101000000_initial_schema.sql',
-    );
-    const authPath = await resolveRepoPath('supabase/migrations/20250102000000_auth_schema.sql');
-    if (opts.applyInitial) {
-      const initialSQL = await fs.readFile(initialPath, 'utf-8');
-      await db.query(initialSQL);
-    }
-    if (opts.applyAuth && (await fileExists(authPath))) {
-      const authSQL = await fs.readFile(authPath, 'utf-8');
-      await db.query(authSQL);
+    const migrationsDir = await resolveRepoPath('supabase/migrations');
+    const files = (await fs.readdir(migrationsDir)).filter((f) => f.endsWith('.sql')).sort();
+    for (const file of files) {
+      const isInitial = file === INITIAL_MIGRATION;
+      if (isInitial && !opts.applyInitial) continue;
+      const sql = await fs.readFile(path.join(migrationsDir, file), 'utf-8');
+      await db.query(sql);
     }
     console.log('✅ Database schema applied successfully');
   } catch (error) {
@@ -0,0 +1,227 @@
+import { createHash } from 'crypto';
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import bookingsRouter from '../routes/bookings';
+import publicRouter from '../routes/public';
+import { closeDatabase, getDbClient } from '../db';
+import { signAccessToken } from '../auth/jwt';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/bookings', bookingsRouter);
+  app.use('/public', publicRouter);
+  return app;
+}
+
+const slotInput = {
+  title: 'Yoga',
+  startsAt: '2030-06-01T08:00:00Z',
+  durationMin: 60,
+  price: 45,
+  minParticipants: 0,
+  maxParticipants: 10,
+  forChildren: false,
+};
+
+describe('Idempotency keys', () => {
+  let studio: TestStudio;
+  let auth: { Authorization: string };
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+    auth = await createTestOwner(studio.id);
+  });
+
+  const countBookings = async (slotId: string) => {
+    const { rows } = await getDbClient().query(
+      'select count(*)::int as n from bookings where slot_id = $1',
+      [slotId],
+    );
+    return rows[0].n;
+  };
+
+  it('replays the stored response of a retried booking', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, slotInput);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Dana',
+      contact_email: 'dana@idem',
+    });
+    const body = { slotId: slot.id, customerId: customer.id };
+
+    const first = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .set('Idempotency-Key', 'book-1')
+      .send(body)
+      .expect(201);
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    const retry = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .set('Idempotency-Key', 'book-1')
+      .send(body)
+      .expect(201);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.body).toEqual(first.body);
+    expect(await countBookings(slot.id)).toBe(1);
+
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .set('Idempotency-Key', 'book-1')
+      .send({ ...body, occurrenceDate: '2030-06-01' })
+      .expect(422, { error: 'Idempotency-Key was already used with a different request' });
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .set('Idempotency-Key', '')
+      .send(body)
+      .expect(400);
+
+    // Payments: the retry does not record a second payment
+    const pay = () =>
+      request(app)
+        .patch(`/bookings/${first.body.id}/payment`)
+        .set(auth)
+        .set('Idempotency-Key', 'book-1') // Keys are scoped to the route
+        .send({ paidMethod: 'cash', amount: 20 });
+    const paid = await pay().expect(200);
+    const repaid = await pay().expect(200);
+    expect(repaid.body).toEqual(paid.body);
+    const { rows } = await getDbClient().query('select amount_paid from bookings where id = $1', [
+      first.body.id,
+    ]);
+    expect(rows[0].amount_paid).toBe('20.00');
+  });
+
+  it('does not book twice when a parent double-taps through an invite', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, slotInput);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Noa',
+      contact_email: 'noa@idem',
+    });
+    await getDbClient().query(
+      `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+       values ($1, $2, 'idem-noa', now(), now() + interval '1 day')`,
+      [studio.id, customer.id],
+    );
+
+    const book = () =>
+      request(app)
+        .post('/public/invites/idem-noa/bookings')
+        .set('Idempotency-Key', 'tap-1')
+        .send({ slotId: slot.id });
+    const first = await book().expect(201);
+    const second = await book().expect(201);
+    expect(second.body.id).toBe(first.body.id);
+    expect(await countBookings(slot.id)).toBe(1);
+
+    // Without a key every request writes
+    await request(app).post('/public/invites/idem-noa/bookings').send({ slotId: slot.id });
+    expect(await countBookings(slot.id)).toBe(2);
+  });
+
+  it('rejects keys still in progress and claims expired or abandoned ones anew', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, slotInput);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Tal',
+      contact_email: 'tal@idem',
+    });
+    const body = { slotId: slot.id, customerId: customer.id };
+    const hash = createHash('sha256').update(JSON.stringify(body)).digest('hex');
+    const { rows: users } = await getDbClient().query(
+      `select id from users where google_sub = 'sub-test-owner'`,
+    );
+    await getDbClient().query(
+      `insert into idempotency_keys (scope, key, method, path, request_hash, created_at)
+       values ($1, 'running', 'POST', '/bookings', $2, now()),
+              ($1, 'abandoned', 'POST', '/bookings', $2, now() - interval '5 minutes'),
+              ($1, 'stale', 'POST', '/bookings', 'old', now() - interval '2 days')`,
+      [`${users[0].id}:${studio.id}`, hash],
+    );
+
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .set('Idempotency-Key', 'running')
+      .send(body)
+      .expect(409, { error: 'A request with this Idempotency-Key is still in progress' });
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .set('Idempotency-Key', 'stale')
+      .send(body)
+      .expect(201);
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .set('Idempotency-Key', 'abandoned')
+      .send(body)
+      .expect(201);
+    expect(await countBookings(slot.id)).toBe(2);
+  });
+
+  it('keeps keys of different users apart and does not store rejected requests', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, slotInput);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Gal',
+      contact_email: 'gal@idem',
+    });
+    const other = await createTestStudio();
+    const otherSlot = await createTestSlot(other.id, slotInput);
+    const otherCustomer = await createTestCustomer(other.id, {
+      first_name: 'Lior',
+      contact_email: 'lior@idem',
+    });
+    const { rows: users } = await getDbClient().query(
+      `insert into users (google_sub, email) values ('sub-idem-other', 'other@idem') returning id`,
+    );
+    await getDbClient().query(
+      `insert into studio_owners (studio_id, user_id, role) values ($1, $2, 'owner')`,
+      [other.id, users[0].id],
+    );
+    const token = await signAccessToken({ userId: users[0].id, isAdmin: false }, '5m');
+
+    // A booking for a customer of another studio is rejected, and may be corrected
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .set('Idempotency-Key', 'shared')
+      .send({ slotId: slot.id, customerId: otherCustomer.id })
+      .expect(404);
+    const mine = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .set('Idempotency-Key', 'shared')
+      .send({ slotId: slot.id, customerId: customer.id })
+      .expect(201);
+    expect(mine.headers['idempotent-replayed']).toBeUndefined();
+
+    const theirs = await request(app)
+      .post('/bookings')
+      .set({ Authorization: `Bearer ${token}` })
+      .set('Idempotency-Key', 'shared')
+      .send({ slotId: otherSlot.id, customerId: otherCustomer.id })
+      .expect(201);
+    expect(theirs.headers['idempotent-replayed']).toBeUndefined();
+    expect(theirs.body.id).not.toBe(mine.body.id);
+    expect(await countBookings(otherSlot.id)).toBe(1);
+  });
+});
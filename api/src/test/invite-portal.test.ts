@@ -0,0 +1,137 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import publicRouter from '../routes/public';
+import { closeDatabase, getDbClient } from '../db';
+import { createTestStudio, createTestSlot, createTestCustomer } from './test-helpers';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/public', publicRouter);
+  return app;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Invite portal', () => {
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  it('shows studio, customer, children and upcoming bookings, and cancels through the invite', async () => {
+    const app = makeApp();
+    const client = getDbClient();
+    const studio = await createTestStudio();
+    await client.query('update studios set free_cancellation_hours = 24 where id = $1', [
+      studio.id,
+    ]);
+    const parent = await createTestCustomer(studio.id, {
+      first_name: 'Dana',
+      contact_email: 'dana@portal',
+    });
+    const { rows: kids } = await client.query(
+      `insert into children (customer_id, first_name, avatar_key) values ($1, 'Noa', 'noa.png')
+       returning id`,
+      [parent.id],
+    );
+    const other = await createTestCustomer(studio.id, {
+      first_name: 'Other',
+      contact_email: 'other@portal',
+    });
+    const { rows: invites } = await client.query(
+      `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+       values ($1, $2, 'portal-dana', now(), now() + interval '7 days') returning short_hash`,
+      [studio.id, parent.id],
+    );
+    const hash = invites[0].short_hash;
+
+    const slotAt = async (hoursAhead: number, forChildren: boolean, max = 5) =>
+      createTestSlot(studio.id, {
+        title: `${forChildren ? 'Kids' : 'Adults'} in ${hoursAhead}h`,
+        startsAt: new Date(Date.now() + hoursAhead * HOUR).toISOString(),
+        durationMin: 60,
+        price: 60,
+        minParticipants: 0,
+        maxParticipants: max,
+        forChildren,
+      });
+    const book = async (
+      slotId: string,
+      party: { customer?: string; child?: string },
+      status = 'CONFIRMED',
+    ) => {
+      const { rows } = await client.query(
+        `insert into bookings (slot_id, customer_id, child_id, status, occurrence_date, waitlisted_at,
+                               list_price, price, currency)
+         select $1, $2, $3, $4, (s.starts_at at time zone st.timezone)::date,
+                case when $4 = 'WAITLISTED' then clock_timestamp() end, s.price, s.price, st.currency
+         from slots s join studios st on s.studio_id = st.id where s.id = $1
+         returning id`,
+        [slotId, party.customer ?? null, party.child ?? null, status],
+      );
+      return rows[0].id as string;
+    };
+
+    const adultSoon = await slotAt(2, false);
+    const kidsLater = await slotAt(72, true, 1);
+    const past = await slotAt(-72, false);
+
+    const soonId = await book(adultSoon.id, { customer: parent.id });
+    // The only seat of the kids class goes to another family's child
+    const { rows: otherKids } = await client.query(
+      `insert into children (customer_id, first_name, avatar_key) values ($1, 'Other kid', 'x.png')
+       returning id`,
+      [other.id],
+    );
+    await book(kidsLater.id, { child: otherKids[0].id });
+    const waitlistedId = await book(kidsLater.id, { child: kids[0].id }, 'WAITLISTED');
+    await book(past.id, { customer: parent.id });
+    await book(adultSoon.id, { customer: parent.id }, 'CANCELLED');
+
+    const res = await request(app).get(`/public/invites/${hash}`).expect(200);
+    expect(res.body.studio).toMatchObject({ name: studio.name, free_cancellation_hours: 24 });
+    expect(res.body.customer).toMatchObject({ id: parent.id, first_name: 'Dana' });
+    expect(res.body.children).toEqual([
+      { id: kids[0].id, first_name: 'Noa', avatar_key: 'noa.png' },
+    ]);
+    expect(res.body.upcoming_bookings).toHaveLength(2);
+    expect(res.body.upcoming_bookings[0]).toMatchObject({
+      id: soonId,
+      status: 'CONFIRMED',
+      slot_title: 'Adults in 2h',
+      child_id: null,
+      can_cancel: false,
+    });
+    expect(res.body.upcoming_bookings[1]).toMatchObject({
+      id: waitlistedId,
+      status: 'WAITLISTED',
+      child_name: 'Noa',
+      waitlist_position: 1,
+      can_cancel: true,
+    });
+
+    // Outside the free window the portal refuses; a cancelled booking drops off the list
+    await request(app).delete(`/public/invites/${hash}/bookings/${soonId}`).expect(409);
+    await request(app).delete(`/public/invites/${hash}/bookings/${waitlistedId}`).expect(200);
+    const after = await request(app).get(`/public/invites/${hash}`).expect(200);
+    expect(after.body.upcoming_bookings.map((b: { id: string }) => b.id)).toEqual([soonId]);
+  });
+
+  it('returns 404 for unknown or expired invites', async () => {
+    const app = makeApp();
+    const studio = await createTestStudio();
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Gone',
+      contact_email: 'gone@portal',
+    });
+    await getDbClient().query(
+      `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+       values ($1, $2, 'portal-expired', now() - interval '8 days', now() - interval '1 day')`,
+      [studio.id, customer.id],
+    );
+
+    await request(app).get('/public/invites/portal-expired').expect(404);
+    await request(app).get('/public/invites/does-not-exist').expect(404);
+  });
+});
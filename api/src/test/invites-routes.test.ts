@@ -2,7 +2,7 @@ import { describe, it, expect } from 'vitest';
 import express from 'express';
 import request from 'supertest';
 import invitesRouter from '../routes/invites';
-import { createTestStudio } from './test-helpers';
+import { createTestStudio, createTestOwner } from './test-helpers';
 
 function makeApp() {
   const app = express();
@@ -15,9 +15,11 @@ describe('Invites routes', () => {
   it('POST /invites creates invite and returns URL', async () => {
     const app = makeApp();
     const studio = await createTestStudio();
+    const auth = await createTestOwner(studio.id);
 
     const res = await request(app)
       .post('/invites')
+      .set(auth)
       .send({
         studioId: studio.id,
         customer: { firstName: 'Alice', email: 'alice@example.com' },
@@ -30,6 +32,7 @@ describe('Invites routes', () => {
     // Creating again with same contact should 409 if customer already exists, but route allows reuse.
     const res2 = await request(app)
       .post('/invites')
+      .set(auth)
       .send({
         studioId: studio.id,
         customer: { firstName: 'Alice', email: 'alice@example.com' },
@@ -40,6 +43,7 @@ describe('Invites routes', () => {
     // Unknown studio
     await request(app)
       .post('/invites')
+      .set(auth)
       .send({
         studioId: '550e8400-e29b-41d4-a716-446655440000',
         customer: { firstName: 'A', email: 'a@b.co' },
@@ -49,12 +53,14 @@ describe('Invites routes', () => {
     // Validation
     await request(app)
       .post('/invites')
+      .set(auth)
       .send({ studioId: studio.id, customer: { firstName: '' } })
       .expect(400);
 
     // Phone-only is allowed
     const res3 = await request(app)
       .post('/invites')
+      .set(auth)
       .send({
         studioId: studio.id,
         customer: { firstName: 'Bob', phone: '+15550123' },
@@ -0,0 +1,246 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import studiosRouter from '../routes/studios';
+import { customersRouter } from '../routes/customers';
+import bookingsRouter from '../routes/bookings';
+import publicRouter from '../routes/public';
+import { closeDatabase, getDbClient } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestChild,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', studiosRouter);
+  app.use('/customers', customersRouter);
+  app.use('/bookings', bookingsRouter);
+  app.use('/public', publicRouter);
+  return app;
+}
+
+// Mondays and Wednesdays from September 2030 (New York time)
+const classData = {
+  startsAt: '2030-09-02T14:00:00Z',
+  recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+  durationMin: 60,
+  price: 45,
+  minParticipants: 0,
+  maxParticipants: 10,
+};
+
+describe('Memberships', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+  });
+
+  it('lets owners manage plans and subscribes customers or their children', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const plans = `/studios/${studio.id}/membership-plans`;
+
+    const plan = await request(app)
+      .post(plans)
+      .set(auth)
+      .send({ name: 'Kids unlimited', forChildren: true })
+      .expect(201);
+    expect(plan.body).toMatchObject({ weekly_limit: null, for_children: true });
+    await request(app).post(plans).set(auth).send({ name: 'Bad', weeklyLimit: 0 }).expect(400);
+    const listed = await request(app).get(plans).set(auth).expect(200);
+    expect(listed.body).toHaveLength(1);
+
+    const parent = await createTestCustomer(studio.id, {
+      first_name: 'Parent',
+      contact_email: 'parent@members',
+    });
+    const child = await createTestChild(parent.id, { firstName: 'Kid', avatarKey: 'kid.png' });
+    const stranger = await createTestCustomer(studio.id, {
+      first_name: 'Stranger',
+      contact_email: 'stranger@members',
+    });
+    const url = `/customers/${parent.id}/memberships`;
+    const september = { startsOn: '2030-09-01', endsOn: '2030-09-30' };
+
+    const membership = await request(app)
+      .post(url)
+      .set(auth)
+      .send({ planId: plan.body.id, childId: child.id, ...september })
+      .expect(201);
+    expect(membership.body).toMatchObject({
+      customer_id: null,
+      child_id: child.id,
+      starts_on: '2030-09-01',
+      ends_on: '2030-09-30',
+    });
+
+    await request(app)
+      .post(`/customers/${stranger.id}/memberships`)
+      .set(auth)
+      .send({ planId: plan.body.id, childId: child.id, ...september })
+      .expect(404);
+    const otherStudio = await createTestStudio();
+    const foreignPlan = await getDbClient().query(
+      `insert into membership_plans (studio_id, name) values ($1, 'Elsewhere') returning id`,
+      [otherStudio.id],
+    );
+    await request(app)
+      .post(url)
+      .set(auth)
+      .send({ planId: foreignPlan.rows[0].id, ...september })
+      .expect(404);
+    await request(app)
+      .post(url)
+      .set(auth)
+      .send({ planId: plan.body.id, startsOn: '2030-09-30', endsOn: '2030-09-01' })
+      .expect(400);
+
+    const customer = await request(app).get(`/customers/${parent.id}`).set(auth).expect(200);
+    expect(customer.body.memberships).toMatchObject([
+      { id: membership.body.id, name: 'Kids unlimited', child_id: child.id },
+    ]);
+  });
+
+  it('covers bookings within the date range and weekly limit', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const client = getDbClient();
+    const { rows: plans } = await client.query(
+      `insert into membership_plans (studio_id, name, weekly_limit, for_children)
+       values ($1, 'Once a week', 1, true) returning id`,
+      [studio.id],
+    );
+    const parent = await createTestCustomer(studio.id, {
+      first_name: 'Parent',
+      contact_email: 'weekly@members',
+    });
+    const child = await createTestChild(parent.id, { firstName: 'Kid', avatarKey: 'kid.png' });
+    const { rows: memberships } = await client.query(
+      `insert into memberships (plan_id, child_id, starts_on, ends_on)
+       values ($1, $2, '2030-09-01', '2030-09-30') returning id`,
+      [plans[0].id, child.id],
+    );
+    const kids = await createTestSlot(studio.id, {
+      ...classData,
+      title: 'Kids',
+      forChildren: true,
+    });
+    const adults = await createTestSlot(studio.id, {
+      ...classData,
+      title: 'Adults',
+      forChildren: false,
+    });
+
+    const book = (slotId: string, occurrenceDate: string, party: Record<string, string>) =>
+      request(app)
+        .post('/bookings')
+        .set(auth)
+        .send({ slotId, occurrenceDate, ...party })
+        .expect(201);
+
+    const monday = await book(kids.id, '2030-09-02', { childId: child.id });
+    expect(monday.body).toMatchObject({ membership_id: memberships[0].id, covered: true });
+    const wednesday = await book(kids.id, '2030-09-04', { childId: child.id });
+    expect(wednesday.body).toMatchObject({ membership_id: null, covered: false });
+    const nextWeek = await book(kids.id, '2030-09-09', { childId: child.id });
+    expect(nextWeek.body.membership_id).toBe(memberships[0].id);
+    const october = await book(kids.id, '2030-10-07', { childId: child.id });
+    expect(october.body.covered).toBe(false);
+    // The child's membership does not cover the parent's own classes
+    const parentClass = await book(adults.id, '2030-09-11', { customerId: parent.id });
+    expect(parentClass.body.covered).toBe(false);
+
+    const history = await request(app)
+      .get(`/bookings/${monday.body.id}/history`)
+      .set(auth)
+      .expect(200);
+    expect(history.body.events[0].details).toEqual({ membership_id: memberships[0].id });
+
+    // Cancelling in time frees the week's class for another booking
+    const cancelled = await request(app)
+      .patch(`/bookings/${monday.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    expect(cancelled.body).toMatchObject({ membership_id: null, covered: false });
+    await request(app)
+      .patch(`/bookings/${wednesday.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    const rebooked = await request(app)
+      .patch(`/bookings/${wednesday.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CONFIRMED' })
+      .expect(200);
+    expect(rebooked.body).toMatchObject({ membership_id: memberships[0].id, covered: true });
+
+    const uncovered = await request(app)
+      .get('/bookings')
+      .set(auth)
+      .query({ studioId: studio.id, covered: 'false', status: 'CONFIRMED' })
+      .expect(200);
+    expect(uncovered.body.map((b: { id: string }) => b.id).sort()).toEqual(
+      [october.body.id, parentClass.body.id].sort(),
+    );
+  });
+
+  it('prefers a membership over credits, also for invite bookings', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const client = getDbClient();
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Member',
+      contact_email: 'member@members',
+    });
+    const { rows: plans } = await client.query(
+      `insert into membership_plans (studio_id, name) values ($1, 'Unlimited') returning id`,
+      [studio.id],
+    );
+    const { rows: memberships } = await client.query(
+      `insert into memberships (plan_id, customer_id, starts_on, ends_on)
+       values ($1, $2, '2030-09-01', '2030-09-30') returning id`,
+      [plans[0].id, customer.id],
+    );
+    await request(app)
+      .post(`/customers/${customer.id}/credit-packages`)
+      .set(auth)
+      .send({ name: 'Card', credits: 5 })
+      .expect(201);
+    await client.query(
+      `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+       values ($1, $2, 'member-invite', now(), now() + interval '1 day')`,
+      [studio.id, customer.id],
+    );
+    const slot = await createTestSlot(studio.id, {
+      ...classData,
+      title: 'Open class',
+      forChildren: false,
+    });
+
+    const booked = await request(app)
+      .post('/public/invites/member-invite/bookings')
+      .send({ slotId: slot.id, occurrenceDate: '2030-09-02' })
+      .expect(201);
+    expect(booked.body).toMatchObject({
+      membership_id: memberships[0].id,
+      credit_package_id: null,
+      covered: true,
+    });
+
+    const portal = await request(app).get('/public/invites/member-invite').expect(200);
+    expect(portal.body.credits.available).toBe(5);
+    expect(portal.body.memberships).toMatchObject([{ id: memberships[0].id, name: 'Unlimited' }]);
+  });
+});
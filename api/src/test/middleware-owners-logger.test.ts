@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import express from 'express';
 import request from 'supertest';
-import { requireStudioOwner, requestLogger } from '../middleware/auth';
+import { requireStudioPermission, requestLogger } from '../middleware/auth';
 import { getDbClient } from '../db';
 
 function appWithOwnerRoute() {
@@ -17,7 +17,7 @@ function appWithOwnerRoute() {
         : undefined;
       next();
     },
-    requireStudioOwner(),
+    requireStudioPermission('customers.view'),
     (_req, res) => res.json({ ok: true }),
   );
   return app;
@@ -31,8 +31,8 @@ function appWithLogger() {
   return app;
 }
 
-describe('middleware: requireStudioOwner and requestLogger', () => {
-  it('requireStudioOwner: 403 without user; 403 when not owner; 200 when owner', async () => {
+describe('middleware: requireStudioPermission and requestLogger', () => {
+  it('requireStudioPermission: 403 without user; 403 when not owner; 200 when owner', async () => {
     const app = appWithOwnerRoute();
     const studioId = '550e8400-e29b-41d4-a716-446655440000';
     // No user
@@ -65,6 +65,15 @@ describe('middleware: requireStudioOwner and requestLogger', () => {
       .get(`/studios/${studioId}/owners-only`)
       .set('X-USER', 'b9d5f7f0-0000-4000-8000-000000000001')
       .expect(200);
+
+    // Instructors lack the permission, which the 403 names
+    await client.query(`update studio_owners set role = 'instructor' where studio_id = $1`, [
+      studioId,
+    ]);
+    await request(app)
+      .get(`/studios/${studioId}/owners-only`)
+      .set('X-USER', 'b9d5f7f0-0000-4000-8000-000000000001')
+      .expect(403, { error: 'forbidden', permission: 'customers.view' });
   });
 
   it('requestLogger covers success and error branches', async () => {
@@ -0,0 +1,280 @@
+import { describe, it, expect, afterAll, beforeEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import publicRouter from '../routes/public';
+import webhooksRouter from '../routes/webhooks';
+import { closeDatabase, getDbClient } from '../db';
+import { signMockWebhook } from '../payments/mock';
+import { createTestStudio, createTestSlot, createTestCustomer } from './test-helpers';
+import type { TestStudio } from '../types';
+
+// Lets a test make the mock provider fail to create payment links
+const provider = vi.hoisted(() => ({ down: false }));
+vi.mock('../payments/mock', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../payments/mock')>();
+  return {
+    ...actual,
+    createMockProvider: () => {
+      const mock = actual.createMockProvider();
+      return {
+        ...mock,
+        createPaymentLink: (request: Parameters<typeof mock.createPaymentLink>[0]) =>
+          provider.down
+            ? Promise.reject(new Error('provider unavailable'))
+            : mock.createPaymentLink(request),
+      };
+    },
+  };
+});
+
+function makeApp() {
+  const app = express();
+  app.use('/webhooks', express.raw({ type: '*/*' }));
+  app.use(express.json());
+  app.use('/public', publicRouter);
+  app.use('/webhooks', webhooksRouter);
+  return app;
+}
+
+const adultsSlot = {
+  title: 'Salsa',
+  startsAt: '2030-04-04T18:00:00Z',
+  durationMin: 60,
+  price: 70,
+  minParticipants: 0,
+  maxParticipants: 10,
+  forChildren: false,
+};
+
+function webhook(app: express.Express, body: object, signature?: string) {
+  const raw = JSON.stringify(body);
+  return request(app)
+    .post('/webhooks/payments/mock')
+    .set('Content-Type', 'application/json')
+    .set('x-mock-signature', signature ?? signMockWebhook(raw))
+    .send(raw);
+}
+
+describe('Online payments', () => {
+  let studio: TestStudio;
+  let hash: string;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Dana',
+      contact_email: 'dana@online',
+    });
+    const { rows } = await getDbClient().query(
+      `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+       values ($1, $2, $3, now(), now() + interval '1 day') returning short_hash`,
+      [studio.id, customer.id, `online-${studio.id.slice(0, 8)}`],
+    );
+    hash = rows[0].short_hash;
+  });
+
+  it('books with pay-now and marks the booking paid once the webhook arrives', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, adultsSlot);
+    const booked = await request(app)
+      .post(`/public/invites/${hash}/bookings`)
+      .send({ slotId: slot.id, payNow: true })
+      .expect(201);
+    expect(booked.body.status).toBe('CONFIRMED');
+    expect(booked.body.payment_url).toMatch(/\/webhooks\/payments\/mock\/checkout\/mock_/);
+    const ref = booked.body.payment_url.split('/').pop();
+
+    // Asking again returns the same pending link
+    const again = await request(app)
+      .post(`/public/invites/${hash}/bookings/${booked.body.id}/pay`)
+      .expect(201);
+    expect(again.body).toEqual({
+      payment_url: booked.body.payment_url,
+      amount: '70.00',
+      currency: studio.currency,
+    });
+
+    const event = {
+      id: ref,
+      status: 'succeeded',
+      amount: 70,
+      currency: studio.currency,
+      paid_at: '2030-04-01T10:00:00Z',
+    };
+    const res = await webhook(app, event).expect(200);
+    expect(res.body).toEqual({ received: true, status: 'paid' });
+    // Providers retry deliveries: the payment is recorded once
+    await webhook(app, event).expect(200);
+
+    const client = getDbClient();
+    const { rows: bookings } = await client.query(
+      'select paid, paid_method, amount_paid from bookings where id = $1',
+      [booked.body.id],
+    );
+    expect(bookings[0]).toEqual({ paid: true, paid_method: 'online', amount_paid: '70.00' });
+    const { rows: payments } = await client.query(
+      `select p.method, p.reference, r.number from payments p
+       left join receipts r on r.payment_id = p.id
+       where p.booking_id = $1`,
+      [booked.body.id],
+    );
+    expect(payments).toEqual([{ method: 'online', reference: ref, number: 1 }]);
+
+    await request(app)
+      .post(`/public/invites/${hash}/bookings/${booked.body.id}/pay`)
+      .expect(400, { error: 'Booking has nothing to pay' });
+  });
+
+  it('takes online payment for a late cancellation the studio charges for', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, adultsSlot);
+    const booked = await request(app)
+      .post(`/public/invites/${hash}/bookings`)
+      .send({ slotId: slot.id })
+      .expect(201);
+    await getDbClient().query(
+      `update bookings set status = 'CANCELLED', late_cancellation = true where id = $1`,
+      [booked.body.id],
+    );
+    await request(app)
+      .post(`/public/invites/${hash}/bookings/${booked.body.id}/pay`)
+      .expect(400, { error: 'Only confirmed bookings can be paid online' });
+
+    await getDbClient().query(
+      'update bookings set late_cancellation_charged = true where id = $1',
+      [booked.body.id],
+    );
+    const link = await request(app)
+      .post(`/public/invites/${hash}/bookings/${booked.body.id}/pay`)
+      .expect(201);
+    expect(link.body.amount).toBe('70.00');
+    await webhook(app, {
+      id: link.body.payment_url.split('/').pop(),
+      status: 'succeeded',
+      amount: 70,
+      currency: studio.currency,
+      paid_at: '2030-04-05T10:00:00Z',
+    }).expect(200, { received: true, status: 'paid' });
+    const { rows } = await getDbClient().query('select paid from bookings where id = $1', [
+      booked.body.id,
+    ]);
+    expect(rows[0].paid).toBe(true);
+  });
+
+  it('rejects webhooks with a bad signature or an unknown link', async () => {
+    const app = makeApp();
+    const event = {
+      id: 'mock_unknown',
+      status: 'succeeded',
+      amount: 70,
+      currency: studio.currency,
+      paid_at: '2030-04-01T10:00:00Z',
+    };
+    await webhook(app, event, 'not-a-signature').expect(401, { error: 'Invalid signature' });
+    await webhook(app, event).expect(404, { error: 'Payment link not found' });
+    await request(app)
+      .post('/webhooks/payments/stripe')
+      .send('{}')
+      .expect(404, { error: 'Payment provider not found' });
+  });
+
+  it('rejects webhooks whose amount or currency differ from the link', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, adultsSlot);
+    const booked = await request(app)
+      .post(`/public/invites/${hash}/bookings`)
+      .send({ slotId: slot.id, payNow: true })
+      .expect(201);
+    const event = {
+      id: booked.body.payment_url.split('/').pop(),
+      status: 'succeeded',
+      amount: 70,
+      currency: studio.currency,
+      paid_at: '2030-04-01T10:00:00Z',
+    };
+
+    await webhook(app, { ...event, amount: 0.7 }).expect(400, {
+      error: 'Amount does not match the payment link',
+    });
+    await webhook(app, { ...event, currency: studio.currency === 'USD' ? 'EUR' : 'USD' }).expect(
+      400,
+      { error: 'Currency does not match the payment link' },
+    );
+    const client = getDbClient();
+    const { rows: payments } = await client.query(
+      'select count(*)::int as count from payments where booking_id = $1',
+      [booked.body.id],
+    );
+    expect(payments[0].count).toBe(0);
+    const { rows: links } = await client.query(
+      'select status from payment_links where provider_ref = $1',
+      [event.id],
+    );
+    expect(links[0].status).toBe('pending');
+
+    await webhook(app, event).expect(200, { received: true, status: 'paid' });
+  });
+
+  it('pays or fails through the mock checkout page', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, adultsSlot);
+    const first = await request(app)
+      .post(`/public/invites/${hash}/bookings`)
+      .send({ slotId: slot.id, payNow: true })
+      .expect(201);
+    const failedRef = first.body.payment_url.split('/').pop();
+
+    const failed = await request(app)
+      .get(`/webhooks/payments/mock/checkout/${failedRef}?fail=true`)
+      .expect(200);
+    expect(failed.text).toContain('Mock payment failed');
+
+    // A failed link is not reused
+    const retry = await request(app)
+      .post(`/public/invites/${hash}/bookings/${first.body.id}/pay`)
+      .expect(201);
+    expect(retry.body.payment_url).not.toBe(first.body.payment_url);
+    const paid = await request(app)
+      .get(`/webhooks/payments/mock/checkout/${retry.body.payment_url.split('/').pop()}`)
+      .expect(200);
+    expect(paid.text).toContain('Mock payment paid');
+
+    const { rows } = await getDbClient().query('select paid from bookings where id = $1', [
+      first.body.id,
+    ]);
+    expect(rows[0].paid).toBe(true);
+  });
+
+  it('keeps the booking when the payment link cannot be created', async () => {
+    const app = makeApp();
+    const slot = await createTestSlot(studio.id, adultsSlot);
+    const errSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    provider.down = true;
+    try {
+      const booked = await request(app)
+        .post(`/public/invites/${hash}/bookings`)
+        .send({ slotId: slot.id, payNow: true })
+        .expect(201);
+      expect(booked.body).toMatchObject({
+        status: 'CONFIRMED',
+        payment_url: null,
+        payment_link_error: 'Online payment is not available right now, please try again later',
+      });
+      expect(errSpy).toHaveBeenCalledWith('Error creating payment link:', expect.any(Error));
+
+      // Once the provider is back the link can be asked for again
+      provider.down = false;
+      const retry = await request(app)
+        .post(`/public/invites/${hash}/bookings/${booked.body.id}/pay`)
+        .expect(201);
+      expect(retry.body.payment_url).toMatch(/\/webhooks\/payments\/mock\/checkout\/mock_/);
+    } finally {
+      provider.down = false;
+      errSpy.mockRestore();
+    }
+  });
+});
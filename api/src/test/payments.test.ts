@@ -0,0 +1,248 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import paymentsRouter from '../routes/payments';
+import bookingsRouter from '../routes/bookings';
+import { customersRouter } from '../routes/customers';
+import { closeDatabase, getDbClient } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', paymentsRouter);
+  app.use('/bookings', bookingsRouter);
+  app.use('/customers', customersRouter);
+  return app;
+}
+
+const slotData = {
+  title: 'Evening class',
+  startsAt: '2030-05-07T16:00:00Z',
+  durationMin: 60,
+  price: 50,
+  minParticipants: 0,
+  maxParticipants: 10,
+  forChildren: false,
+};
+
+describe('Payment ledger', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+  });
+
+  it('derives the paid state of a booking from partial payments and refunds', async () => {
+    const app = makeApp();
+    const owner = await createTestOwner(studio.id);
+    const { rows: users } = await getDbClient().query(
+      `select id from users where google_sub = 'sub-test-owner'`,
+    );
+    const slot = await createTestSlot(studio.id, slotData);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Payer',
+      contact_email: 'payer@ledger',
+    });
+    const booking = await request(app)
+      .post('/bookings')
+      .set(owner)
+      .send({ slotId: slot.id, customerId: customer.id })
+      .expect(201);
+    const url = `/bookings/${booking.body.id}/payment`;
+
+    const deposit = await request(app)
+      .patch(url)
+      .set(owner)
+      .send({ paidMethod: 'cash', amount: 20 })
+      .expect(200);
+    expect(deposit.body).toMatchObject({ paid: false, amount_paid: '20.00', paid_method: null });
+    expect(deposit.body.payment).toMatchObject({
+      amount: '20.00',
+      currency: studio.currency,
+      customer_id: customer.id,
+    });
+
+    // Without an amount the outstanding rest is paid
+    const rest = await request(app)
+      .patch(url)
+      .set(owner)
+      .send({ paidMethod: 'bit', paidAt: '2030-05-01T10:00:00Z' })
+      .expect(200);
+    expect(rest.body).toMatchObject({ paid: true, amount_paid: '50.00', paid_method: 'bit' });
+    expect(rest.body.payment.amount).toBe('30.00');
+    expect(new Date(rest.body.paid_at).toISOString()).toBe('2030-05-01T10:00:00.000Z');
+    await request(app).patch(url).set(owner).send({ paidMethod: 'cash' }).expect(400);
+
+    const refundUrl = `/studios/${studio.id}/payments/${rest.body.payment.id}/refund`;
+    const refund = await request(app).post(refundUrl).set(owner).send({ amount: 10 }).expect(201);
+    expect(refund.body).toMatchObject({
+      amount: '-10.00',
+      method: 'bit',
+      refund_of: rest.body.payment.id,
+      booking_id: booking.body.id,
+      recorded_by: users[0].id,
+    });
+    expect(refund.body.booking).toMatchObject({ paid: false, amount_paid: '40.00' });
+
+    await request(app).post(refundUrl).set(owner).send({ amount: 25 }).expect(400);
+    await request(app)
+      .post(`/studios/${studio.id}/payments/${refund.body.id}/refund`)
+      .set(owner)
+      .send({})
+      .expect(400);
+    // The rest of the payment is refunded by default
+    const full = await request(app).post(refundUrl).set(owner).send({}).expect(201);
+    expect(full.body.amount).toBe('-20.00');
+    await request(app).post(refundUrl).set(owner).send({}).expect(400);
+
+    const details = await request(app).get(`/bookings/${booking.body.id}`).set(owner).expect(200);
+    expect(details.body).toMatchObject({ paid: false, amount_paid: '20.00' });
+    expect(details.body.payments).toHaveLength(4);
+  });
+
+  it('only records payments for bookings that owe their price', async () => {
+    const app = makeApp();
+    const owner = await createTestOwner(studio.id);
+    const slot = await createTestSlot(studio.id, { ...slotData, maxParticipants: 1 });
+    const free = await createTestSlot(studio.id, { ...slotData, title: 'Open day', price: 0 });
+    const customer = (name: string) =>
+      createTestCustomer(studio.id, { first_name: name, contact_email: `${name}@owes` });
+    const [a, b, c] = [await customer('a'), await customer('b'), await customer('c')];
+    await getDbClient().query(
+      `insert into credit_packages (studio_id, customer_id, name, credits)
+       values ($1, $2, 'Card', 5)`,
+      [studio.id, c.id],
+    );
+    const book = (slotId: string, customerId: string, waitlist = false) =>
+      request(app).post('/bookings').set(owner).send({ slotId, customerId, waitlist }).expect(201);
+    const pay = (bookingId: string) =>
+      request(app).patch(`/bookings/${bookingId}/payment`).set(owner).send({ paidMethod: 'cash' });
+
+    const confirmed = await book(slot.id, a.id);
+    const waitlisted = await book(slot.id, b.id, true);
+    await pay(waitlisted.body.id).expect(409, {
+      error: 'Cannot record a payment for a WAITLISTED booking',
+    });
+    await getDbClient().query(`update bookings set status = 'CANCELLED' where id = $1`, [
+      confirmed.body.id,
+    ]);
+    await pay(confirmed.body.id).expect(409, {
+      error: 'Cannot record a payment for a CANCELLED booking',
+    });
+    // A late cancellation charged under the studio's policy is owed, and can be paid
+    await getDbClient().query('update bookings set late_cancellation = true where id = $1', [
+      confirmed.body.id,
+    ]);
+    await pay(confirmed.body.id).expect(409);
+    await getDbClient().query(
+      'update bookings set late_cancellation_charged = true where id = $1',
+      [confirmed.body.id],
+    );
+    const late = await pay(confirmed.body.id).expect(200);
+    expect(late.body).toMatchObject({ status: 'CANCELLED', paid: true });
+
+    const credited = await book(free.id, c.id);
+    expect(credited.body.covered).toBe(true);
+    await pay(credited.body.id).expect(409, {
+      error: 'Booking is covered by a membership or credit',
+    });
+    const gratis = await book(free.id, a.id);
+    await pay(gratis.body.id).expect(400, { error: 'Booking is free of charge' });
+  });
+
+  it('records studio payments for credit packages and lists the ledger with totals', async () => {
+    const app = makeApp();
+    const owner = await createTestOwner(studio.id);
+    const url = `/studios/${studio.id}/payments`;
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Card',
+      contact_email: 'card@ledger',
+    });
+    const pkg = await request(app)
+      .post(`/customers/${customer.id}/credit-packages`)
+      .set(owner)
+      .send({ name: '10 classes', credits: 10 })
+      .expect(201);
+
+    const sale = await request(app)
+      .post(url)
+      .set(owner)
+      .send({
+        amount: 400,
+        method: 'transfer',
+        creditPackageId: pkg.body.id,
+        receivedAt: '2030-03-10T12:00:00Z',
+      })
+      .expect(201);
+    expect(sale.body).toMatchObject({
+      customer_id: customer.id,
+      credit_package_id: pkg.body.id,
+      booking: null,
+    });
+    await request(app)
+      .post(`${url}/${sale.body.id}/refund`)
+      .set(owner)
+      .send({ amount: 40, receivedAt: '2030-03-12T12:00:00Z' })
+      .expect(201);
+    await request(app)
+      .post(url)
+      .set(owner)
+      .send({ amount: 15, method: 'cash', note: 'Mat rental', receivedAt: '2030-04-01T12:00:00Z' })
+      .expect(201);
+
+    const march = await request(app)
+      .get(url)
+      .set(owner)
+      .query({ from: '2030-03-01', to: '2030-03-31' })
+      .expect(200);
+    expect(march.body.payments).toHaveLength(2);
+    expect(march.body.totals).toEqual([
+      { currency: studio.currency, received: 400, refunded: 40, net: 360 },
+    ]);
+    const byCustomer = await request(app)
+      .get(url)
+      .set(owner)
+      .query({ customerId: customer.id })
+      .expect(200);
+    expect(byCustomer.body.totals[0].net).toBe(360);
+
+    // The payer must belong to the studio and match the linked package
+    const other = await createTestStudio();
+    const stranger = await createTestCustomer(other.id, {
+      first_name: 'Stranger',
+      contact_email: 'stranger@ledger',
+    });
+    await request(app)
+      .post(url)
+      .set(owner)
+      .send({ amount: 5, method: 'cash', customerId: stranger.id })
+      .expect(404);
+    const otherCustomer = await createTestCustomer(studio.id, {
+      first_name: 'Other',
+      contact_email: 'other@ledger',
+    });
+    await request(app)
+      .post(url)
+      .set(owner)
+      .send({
+        amount: 5,
+        method: 'cash',
+        creditPackageId: pkg.body.id,
+        customerId: otherCustomer.id,
+      })
+      .expect(400);
+    await request(app).post(url).set(owner).send({ amount: -5, method: 'cash' }).expect(400);
+    await request(app).get(url).expect(401);
+  });
+});
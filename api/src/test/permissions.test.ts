@@ -0,0 +1,182 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import studioCustomers, { customersRouter } from '../routes/customers';
+import bookingsRouter from '../routes/bookings';
+import slotsRouter from '../routes/slots';
+import paymentsRouter from '../routes/payments';
+import pricingRouter from '../routes/pricing';
+import { closeDatabase, getDbClient } from '../db';
+import { signAccessToken } from '../auth/jwt';
+import { hasPermission, rolesWith } from '../auth/permissions';
+import { createTestStudio, createTestSlot, createTestCustomer } from './test-helpers';
+import type { StudioRole, TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', studioCustomers);
+  app.use('/studios', slotsRouter);
+  app.use('/studios', paymentsRouter);
+  app.use('/studios', pricingRouter);
+  app.use('/customers', customersRouter);
+  app.use('/bookings', bookingsRouter);
+  return app;
+}
+
+async function staffAuth(studioId: string, role: StudioRole) {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret-123';
+  const client = getDbClient();
+  const { rows } = await client.query(
+    `insert into users (google_sub, email) values ($1, $2)
+     on conflict (google_sub) do update set email = excluded.email
+     returning id`,
+    [`sub-${role}-perms`, `${role}@perms`],
+  );
+  await client.query(
+    `insert into studio_owners (studio_id, user_id, role) values ($1, $2, $3)
+     on conflict (studio_id, user_id) do update set role = excluded.role`,
+    [studioId, rows[0].id, role],
+  );
+  const token = await signAccessToken({ userId: rows[0].id, isAdmin: false }, '5m');
+  return { Authorization: `Bearer ${token}` };
+}
+
+const slotData = {
+  title: 'Contemporary',
+  startsAt: '2030-08-01T09:00:00Z',
+  durationMin: 60,
+  price: 60,
+  minParticipants: 0,
+  maxParticipants: 10,
+  forChildren: false,
+};
+
+describe('Role permissions', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+  });
+
+  it('gives owners every permission and instructors only schedules and rosters', () => {
+    expect(hasPermission('owner', 'staff.manage')).toBe(true);
+    expect(hasPermission('manager', 'staff.manage')).toBe(false);
+    expect(hasPermission('instructor', 'rosters.view')).toBe(true);
+    expect(hasPermission('instructor', 'customers.view')).toBe(false);
+    expect(rolesWith('bookings.manage')).toEqual(['owner', 'manager']);
+  });
+
+  it('lets managers book and take payments but not delete customers, refund or change prices', async () => {
+    const app = makeApp();
+    const auth = await staffAuth(studio.id, 'manager');
+    const slot = await createTestSlot(studio.id, slotData);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Dana',
+      contact_email: 'dana@perms',
+    });
+
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: customer.id })
+      .expect(201);
+    const paid = await request(app)
+      .patch(`/bookings/${booking.body.id}/payment`)
+      .set(auth)
+      .send({ paidMethod: 'cash' })
+      .expect(200);
+    await request(app).get(`/studios/${studio.id}/payments`).set(auth).expect(200);
+    await request(app).get(`/studios/${studio.id}/pricing`).set(auth).expect(200);
+
+    await request(app)
+      .delete(`/customers/${customer.id}`)
+      .set(auth)
+      .expect(403, { error: 'forbidden', permission: 'customers.delete' });
+    await request(app)
+      .post(`/studios/${studio.id}/payments/${paid.body.payment.id}/refund`)
+      .set(auth)
+      .send({})
+      .expect(403, { error: 'forbidden', permission: 'payments.refund' });
+    await request(app)
+      .put(`/studios/${studio.id}/pricing`)
+      .set(auth)
+      .send({ siblingDiscountPercent: 50 })
+      .expect(403, { error: 'forbidden', permission: 'pricing.manage' });
+    await request(app)
+      .put(`/customers/${customer.id}/prices`)
+      .set(auth)
+      .send({ price: 10 })
+      .expect(403, { error: 'forbidden', permission: 'pricing.manage' });
+
+    // Managers run the schedule but cannot reprice a slot or one of its occurrences
+    await request(app)
+      .patch(`/studios/${studio.id}/slots/${slot.id}`)
+      .set(auth)
+      .send({ price: 10 })
+      .expect(403, { error: 'forbidden', permission: 'pricing.manage' });
+    await request(app)
+      .put(`/studios/${studio.id}/slots/${slot.id}/occurrences/2030-08-01`)
+      .set(auth)
+      .send({ price: null })
+      .expect(403, { error: 'forbidden', permission: 'pricing.manage' });
+    await request(app)
+      .patch(`/studios/${studio.id}/slots/${slot.id}`)
+      .set(auth)
+      .send({ title: 'Contemporary II' })
+      .expect(200);
+    await request(app)
+      .put(`/studios/${studio.id}/slots/${slot.id}/occurrences/2030-08-01`)
+      .set(auth)
+      .send({ maxParticipants: 12 })
+      .expect(200);
+  });
+
+  it('lets instructors see rosters but nothing else', async () => {
+    const app = makeApp();
+    const owner = await staffAuth(studio.id, 'owner');
+    const auth = await staffAuth(studio.id, 'instructor');
+    const slot = await createTestSlot(studio.id, slotData);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Noa',
+      contact_email: 'noa@perms',
+    });
+    await request(app)
+      .post('/bookings')
+      .set(owner)
+      .send({ slotId: slot.id, customerId: customer.id })
+      .expect(201);
+
+    const roster = await request(app)
+      .get(`/studios/${studio.id}/slots/${slot.id}/occurrences/2030-08-01/roster`)
+      .set(auth)
+      .expect(200);
+    expect(JSON.stringify(roster.body)).toContain('Noa');
+    await request(app).get(`/studios/${studio.id}/slots`).set(auth).expect(200);
+
+    await request(app)
+      .post(`/studios/${studio.id}/slots/${slot.id}/occurrences/2030-08-01/attendance`)
+      .set(auth)
+      .send({ attendees: [] })
+      .expect(403, { error: 'forbidden', permission: 'attendance.record' });
+    await request(app)
+      .post(`/studios/${studio.id}/slots`)
+      .set(auth)
+      .send(slotData)
+      .expect(403, { error: 'forbidden', permission: 'slots.manage' });
+    await request(app)
+      .get(`/studios/${studio.id}/customers`)
+      .set(auth)
+      .expect(403, { error: 'forbidden', permission: 'customers.view' });
+    await request(app)
+      .get(`/customers/${customer.id}`)
+      .set(auth)
+      .expect(403, { error: 'forbidden', permission: 'customers.view' });
+    const bookings = await request(app).get('/bookings').set(auth).expect(200);
+    expect(bookings.body).toEqual([]);
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import pricingRouter from '../routes/pricing';
+import bookingsRouter from '../routes/bookings';
+import { customersRouter } from '../routes/customers';
+import { closeDatabase, getDbClient } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestChild,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', pricingRouter);
+  app.use('/bookings', bookingsRouter);
+  app.use('/customers', customersRouter);
+  return app;
+}
+
+const slotData = {
+  startsAt: '2030-07-01T15:00:00Z',
+  durationMin: 60,
+  price: 40,
+  minParticipants: 0,
+  maxParticipants: 10,
+};
+
+describe('Pricing rules', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+  });
+
+  it('gives a second child the sibling discount and keeps the booked price', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    await request(app)
+      .put(`/studios/${studio.id}/pricing`)
+      .set(auth)
+      .send({ siblingDiscountPercent: 10 })
+      .expect(200);
+    const parent = await createTestCustomer(studio.id, {
+      first_name: 'Parent',
+      contact_email: 'parent@pricing',
+    });
+    const first = await createTestChild(parent.id, { firstName: 'First', avatarKey: 'a.png' });
+    const second = await createTestChild(parent.id, { firstName: 'Second', avatarKey: 'b.png' });
+    const slot = await createTestSlot(studio.id, {
+      ...slotData,
+      title: 'Kids',
+      forChildren: true,
+    });
+
+    const full = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, childId: first.id })
+      .expect(201);
+    expect(full.body).toMatchObject({ list_price: '40.00', price: '40.00', price_rule: null });
+    const sibling = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, childId: second.id })
+      .expect(201);
+    expect(sibling.body).toMatchObject({
+      list_price: '40.00',
+      price: '36.00',
+      price_rule: 'sibling',
+    });
+
+    // Changing the slot's price later does not rewrite the booking
+    await getDbClient().query('update slots set price = 55 where id = $1', [slot.id]);
+    const details = await request(app).get(`/bookings/${sibling.body.id}`).set(auth).expect(200);
+    expect(details.body.price).toBe('36.00');
+    const paid = await request(app)
+      .patch(`/bookings/${sibling.body.id}/payment`)
+      .set(auth)
+      .send({ paidMethod: 'cash' })
+      .expect(200);
+    expect(paid.body).toMatchObject({ paid: true, amount_paid: '36.00' });
+  });
+
+  it('applies coupons within their dates and usage limit', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const coupons = `/studios/${studio.id}/coupons`;
+    const holiday = await request(app)
+      .post(coupons)
+      .set(auth)
+      .send({ code: 'HOLIDAY', percentOff: 25, maxUses: 1, validFrom: '2020-01-01' })
+      .expect(201);
+    await request(app).post(coupons).set(auth).send({ code: 'holiday', amountOff: 5 }).expect(409);
+    await request(app)
+      .post(coupons)
+      .set(auth)
+      .send({ code: 'BOTH', amountOff: 5, percentOff: 5 })
+      .expect(400);
+    await request(app)
+      .post(coupons)
+      .set(auth)
+      .send({ code: 'OVER', amountOff: 5, validUntil: '2020-12-31' })
+      .expect(201);
+
+    const slot = await createTestSlot(studio.id, {
+      ...slotData,
+      title: 'Adults',
+      forChildren: false,
+    });
+    const customer = async (name: string) =>
+      createTestCustomer(studio.id, { first_name: name, contact_email: `${name}@pricing` });
+    const [a, b] = [await customer('a'), await customer('b')];
+
+    const discounted = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: a.id, couponCode: 'holiday' })
+      .expect(201);
+    expect(discounted.body).toMatchObject({
+      price: '30.00',
+      price_rule: 'coupon',
+      coupon_id: holiday.body.id,
+    });
+
+    const book = (couponCode: string) =>
+      request(app)
+        .post('/bookings')
+        .set(auth)
+        .send({ slotId: slot.id, customerId: b.id, couponCode });
+    expect((await book('HOLIDAY').expect(400)).body.error).toBe('Coupon usage limit reached');
+    expect((await book('OVER').expect(400)).body.error).toBe('Coupon is not valid today');
+    expect((await book('NOPE').expect(400)).body.error).toBe('Coupon not found');
+
+    // A cancelled booking gives its use back; deactivated coupons are not found
+    await request(app)
+      .patch(`/bookings/${discounted.body.id}/status`)
+      .set(auth)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+    const listed = await request(app).get(coupons).set(auth).expect(200);
+    expect(listed.body.find((c: { code: string }) => c.code === 'HOLIDAY').uses).toBe(0);
+    await request(app)
+      .patch(`${coupons}/${holiday.body.id}`)
+      .set(auth)
+      .send({ active: false })
+      .expect(200);
+    await book('HOLIDAY').expect(400);
+    await request(app).get(coupons).expect(401);
+  });
+
+  it('uses fixed customer prices as the base for discounts', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Regular',
+      contact_email: 'regular@pricing',
+    });
+    const morning = await createTestSlot(studio.id, {
+      ...slotData,
+      title: 'Morning',
+      forChildren: false,
+    });
+    const evening = await createTestSlot(studio.id, {
+      ...slotData,
+      title: 'Evening',
+      startsAt: '2030-07-01T22:00:00Z',
+      forChildren: false,
+    });
+    const prices = `/customers/${customer.id}/prices`;
+    await request(app).put(prices).set(auth).send({ price: 30 }).expect(200);
+    await request(app).put(prices).set(auth).send({ price: 20 }).expect(200);
+    await request(app).put(prices).set(auth).send({ price: 35, slotId: evening.id }).expect(200);
+    const listed = await request(app).get(prices).set(auth).expect(200);
+    expect(listed.body).toMatchObject([
+      { slot_id: null, price: '20.00' },
+      { slot_id: evening.id, slot_title: 'Evening', price: '35.00' },
+    ]);
+
+    const morningBooking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: morning.id, customerId: customer.id })
+      .expect(201);
+    expect(morningBooking.body).toMatchObject({ price: '20.00', price_rule: 'customer_price' });
+
+    await request(app)
+      .post(`/studios/${studio.id}/coupons`)
+      .set(auth)
+      .send({ code: 'TENOFF', amountOff: 10 })
+      .expect(201);
+    const eveningBooking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: evening.id, customerId: customer.id, couponCode: 'TENOFF' })
+      .expect(201);
+    expect(eveningBooking.body).toMatchObject({ price: '25.00', price_rule: 'coupon' });
+
+    await request(app).delete(`${prices}/${listed.body[0].id}`).set(auth).expect(200);
+    await request(app).delete(`${prices}/${listed.body[0].id}`).set(auth).expect(404);
+    await request(app)
+      .put(prices)
+      .set(auth)
+      .send({ price: 10, slotId: '00000000-0000-0000-0000-000000000000' })
+      .expect(404);
+  });
+});
@@ -3,7 +3,7 @@ import express from 'express';
 import request from 'supertest';
 import publicRouter from '../routes/public';
 import { getDbClient } from '../db';
-import { createTestStudio, createTestSlot, createTestCustomer } from './test-helpers';
+import { createTestStudio, createTestSlot, createTestCustomer, testData } from './test-helpers';
 
 function makeApp() {
   const app = express();
@@ -59,6 +59,71 @@ describe('Public routes', () => {
       await request(app).get(`/public/${slug}/slots`).query({ week: '2024-54' }).expect(400);
     });
 
+    it('expands recurring slots into the requested week', async () => {
+      const app = makeApp();
+      const studio = await createTestStudio(testData.studio.withIls);
+      await createTestSlot(studio.id, {
+        title: 'Kids Tuesday',
+        startsAt: '2025-01-07T15:00:00Z', // Tuesday 17:00 in Jerusalem
+        durationMin: 90,
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=TU',
+        price: 100,
+        minParticipants: 1,
+        maxParticipants: 8,
+        forChildren: true,
+      });
+
+      // 2025-W10 starts on Monday 2025-03-03
+      const res = await request(app)
+        .get(`/public/${studio.slug}/slots`)
+        .query({ week: '2025-10' })
+        .expect(200);
+      expect(Object.keys(res.body.slotsByDay)).toEqual(['2025-03-04']);
+      const [occurrence] = res.body.slotsByDay['2025-03-04'];
+      expect(occurrence.occurrence_date).toBe('2025-03-04');
+      expect(occurrence.starts_at).toBe('2025-03-04T15:00:00.000Z');
+    });
+
+    it("bounds the week at midnight in the studio's timezone, with moved occurrences", async () => {
+      const app = makeApp();
+      const studio = await createTestStudio(testData.studio.withIls);
+      const oneTime = (title: string, startsAt: string) =>
+        createTestSlot(studio.id, {
+          title,
+          startsAt,
+          durationMin: 60,
+          price: 50,
+          minParticipants: 0,
+          maxParticipants: 8,
+          forChildren: false,
+        });
+      await oneTime('Monday early', '2025-03-02T22:30:00Z'); // Monday 00:30 in Jerusalem
+      await oneTime('Sunday late', '2025-03-09T21:30:00Z'); // Sunday 23:30
+      await oneTime('Next Monday early', '2025-03-09T22:30:00Z'); // Monday 00:30, next week
+      const moved = await oneTime('Moved in', '2025-03-20T10:00:00Z');
+      await getDbClient().query(
+        `insert into slot_exceptions (slot_id, occurrence_date, starts_at)
+         values ($1, '2025-03-20', '2025-03-05T10:00:00Z')`,
+        [moved.id],
+      );
+
+      const res = await request(app)
+        .get(`/public/${studio.slug}/slots`)
+        .query({ week: '2025-10' })
+        .expect(200);
+      const titles = Object.fromEntries(
+        Object.entries(res.body.slotsByDay).map(([day, entries]) => [
+          day,
+          (entries as { title: string }[]).map((e) => e.title),
+        ]),
+      );
+      expect(titles).toEqual({
+        '2025-03-03': ['Monday early'],
+        '2025-03-05': ['Moved in'],
+        '2025-03-09': ['Sunday late'],
+      });
+    });
+
     it('404 for unknown studio', async () => {
       const app = makeApp();
       await request(app).get(`/public/does-not-exist/slots`).query({ week: '2024-01' }).expect(404);
@@ -131,13 +196,51 @@ describe('Public routes', () => {
         .expect(400);
 
       // Provide child data -> 201
-      await request(app)
+      const created = await request(app)
         .post(`/public/invites/${inv.rows[0].short_hash}/bookings`)
         .send({
           slotId: slot.id,
           child: { firstName: 'Kiddo', avatarKey: 'av1' },
         })
         .expect(201);
+      expect(created.body.occurrence_date).toBeDefined();
+    });
+
+    it('books a specific occurrence of a recurring slot', async () => {
+      const app = makeApp();
+      const studio = await createTestStudio(testData.studio.withIls);
+      const customer = await createTestCustomer(studio.id, {
+        first_name: 'Rec',
+        contact_email: 'rec@e.x',
+      });
+      const slot = await createTestSlot(studio.id, {
+        title: 'Weekly',
+        startsAt: '2025-01-07T15:00:00Z',
+        durationMin: 60,
+        recurrenceRule: 'FREQ=WEEKLY;BYDAY=TU',
+        price: 10,
+        minParticipants: 0,
+        maxParticipants: 5,
+        forChildren: false,
+      });
+      const client = getDbClient();
+      const inv = await client.query(
+        `insert into invites (studio_id, customer_id, short_hash, created_at, expires_at)
+         values ($1, $2, 'shortrec', now(), now() + interval '1 day') returning *`,
+        [studio.id, customer.id],
+      );
+      const url = `/public/invites/${inv.rows[0].short_hash}/bookings`;
+
+      await request(app).post(url).send({ slotId: slot.id }).expect(400);
+      await request(app)
+        .post(url)
+        .send({ slotId: slot.id, occurrenceDate: '2025-03-05' })
+        .expect(400);
+      const res = await request(app)
+        .post(url)
+        .send({ slotId: slot.id, occurrenceDate: '2025-03-04' })
+        .expect(201);
+      expect(res.body.occurrence_date).toBe('2025-03-04');
     });
 
     it('returns 404 for unknown/expired invite and when slot belongs to different studio', async () => {
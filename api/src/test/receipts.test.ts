@@ -0,0 +1,232 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import studiosRouter from '../routes/studios';
+import paymentsRouter, { paymentsRouter as paymentsById } from '../routes/payments';
+import bookingsRouter from '../routes/bookings';
+import { closeDatabase, getDbClient } from '../db';
+import { signAccessToken } from '../auth/jwt';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+// The lines of text a PDF receipt shows, in drawing order, read back through its fonts'
+// ToUnicode maps
+function pdfLines(pdf: Buffer): string[] {
+  const text = pdf.toString('latin1');
+  const object = (ref: string) => text.split(`\n${ref} 0 obj\n`)[1].split('\nendobj\n')[0];
+  const fonts = new Map<string, Map<string, string>>();
+  for (const [, name, ref] of text.matchAll(/\/(F\d) (\d+) 0 R/g)) {
+    const toUnicode = object(object(ref).match(/\/ToUnicode (\d+) 0 R/)![1]);
+    const glyphs = [...toUnicode.matchAll(/<([0-9A-F]{4})> <([0-9A-F]+)>/g)];
+    fonts.set(
+      name,
+      new Map(
+        glyphs.map(([, gid, utf16]) => [
+          gid,
+          Buffer.from(utf16, 'hex').swap16().toString('utf16le'),
+        ]),
+      ),
+    );
+  }
+  return [...text.matchAll(/\/(F\d) \d+ Tf [\d.]+ [\d.]+ Td <([0-9A-F]*)> Tj/g)].map(
+    ([, font, hex]) =>
+      (hex.match(/.{4}/g) ?? []).map((gid) => fonts.get(font)?.get(gid) ?? '?').join(''),
+  );
+}
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', studiosRouter);
+  app.use('/studios', paymentsRouter);
+  app.use('/payments', paymentsById);
+  app.use('/bookings', bookingsRouter);
+  return app;
+}
+
+describe('Receipts', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+  });
+
+  it('numbers receipts per studio and renders them with VAT', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const details = await request(app)
+      .put(`/studios/${studio.id}/business-details`)
+      .set(auth)
+      .send({ businessName: 'Dance Ltd', taxId: '514000000', address: 'Tel Aviv', vatRate: 18 })
+      .expect(200);
+    expect(details.body).toMatchObject({ vat_rate: '18.00', last_receipt_number: 0 });
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Dana',
+      contact_email: 'dana@receipts',
+    });
+    const slot = await createTestSlot(studio.id, {
+      title: 'Ballet',
+      startsAt: '2030-03-03T16:00:00Z',
+      durationMin: 60,
+      price: 59,
+      minParticipants: 0,
+      maxParticipants: 10,
+      forChildren: false,
+    });
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: customer.id })
+      .expect(201);
+
+    const paid = await request(app)
+      .patch(`/bookings/${booking.body.id}/payment`)
+      .set(auth)
+      .send({ paidMethod: 'bit' })
+      .expect(200);
+    expect(paid.body.receipt).toMatchObject({
+      number: 1,
+      business_name: 'Dance Ltd',
+      customer_name: 'Dana',
+      method: 'bit',
+      lines: [{ description: 'Ballet 2030-03-03', amount: 59 }],
+      subtotal: '50.00',
+      vat_amount: '9.00',
+      total: '59.00',
+    });
+
+    // Refunds get no receipt and do not use up a number
+    const refund = await request(app)
+      .post(`/studios/${studio.id}/payments/${paid.body.payment.id}/refund`)
+      .set(auth)
+      .send({ amount: 9 })
+      .expect(201);
+    expect(refund.body.receipt).toBeUndefined();
+    await request(app).get(`/payments/${refund.body.id}/receipt`).set(auth).expect(404);
+    const onAccount = await request(app)
+      .post(`/studios/${studio.id}/payments`)
+      .set(auth)
+      .send({ amount: 100, method: 'transfer', customerId: customer.id, note: 'March' })
+      .expect(201);
+    expect(onAccount.body.receipt).toMatchObject({
+      number: 2,
+      lines: [{ description: 'Payment on account - March', amount: 100 }],
+    });
+
+    const url = `/payments/${paid.body.payment.id}/receipt`;
+    const json = await request(app).get(url).set(auth).expect(200);
+    expect(json.body).toMatchObject({ number: 1, issued_on: expect.any(String) });
+    const html = await request(app).get(url).set(auth).query({ format: 'html' }).expect(200);
+    expect(html.headers['content-type']).toMatch(/text\/html/);
+    expect(html.text).toContain('Tax Invoice / Receipt No. 1');
+    expect(html.text).toContain('VAT 18%');
+    const pdf = await request(app)
+      .get(url)
+      .set(auth)
+      .query({ format: 'pdf' })
+      .responseType('blob')
+      .expect(200);
+    expect(pdf.headers['content-type']).toBe('application/pdf');
+    expect(pdf.body.subarray(0, 8).toString()).toBe('%PDF-1.4');
+    expect(pdfLines(pdf.body)).toContain('Received from: Dana');
+
+    await request(app).get(url).set(auth).query({ format: 'doc' }).expect(400);
+    await request(app).get('/payments/not-a-uuid/receipt').set(auth).expect(400);
+    await request(app)
+      .get('/payments/550e8400-e29b-41d4-a716-446655440000/receipt')
+      .set(auth)
+      .expect(404, { error: 'Receipt not found' });
+
+    // Only the studio's own team can see its receipts
+    await request(app).get(url).expect(401);
+    const { rows: users } = await getDbClient().query(
+      `insert into users (google_sub, email) values ('sub-receipts-stranger', 'stranger@test')
+       returning id`,
+    );
+    await getDbClient().query(
+      `insert into studio_owners (studio_id, user_id, role) values ($1, $2, 'owner')`,
+      [(await createTestStudio()).id, users[0].id],
+    );
+    const token = await signAccessToken({ userId: users[0].id, isAdmin: false }, '5m');
+    await request(app)
+      .get(url)
+      .set({ Authorization: `Bearer ${token}` })
+      .expect(403, { error: 'forbidden', permission: 'payments.view' });
+  });
+
+  it('issues plain receipts under the studio name when VAT exempt', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: '<Noa>',
+      contact_email: 'noa@receipts',
+    });
+    const payment = await request(app)
+      .post(`/studios/${studio.id}/payments`)
+      .set(auth)
+      .send({ amount: 80, method: 'cash', customerId: customer.id })
+      .expect(201);
+    expect(payment.body.receipt).toMatchObject({
+      number: 1,
+      business_name: studio.name,
+      vat_rate: null,
+      vat_amount: '0.00',
+      subtotal: '80.00',
+    });
+
+    const html = await request(app)
+      .get(`/payments/${payment.body.id}/receipt`)
+      .set(auth)
+      .query({ format: 'html' })
+      .expect(200);
+    expect(html.text).toContain('Receipt No. 1');
+    expect(html.text).not.toContain('VAT');
+    expect(html.text).toContain('&lt;Noa&gt;');
+  });
+
+  it('prints Hebrew names and addresses in the PDF, right to left', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    await request(app)
+      .put(`/studios/${studio.id}/business-details`)
+      .set(auth)
+      .send({ businessName: 'סטודיו מחול', address: 'רחוב הרצל 12, תל אביב', vatRate: null })
+      .expect(200);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'דנה כהן',
+      contact_email: 'dana@hebrew',
+    });
+    const payment = await request(app)
+      .post(`/studios/${studio.id}/payments`)
+      .set(auth)
+      .send({ amount: 80, method: 'cash', customerId: customer.id, note: 'מנוי (מרץ)' })
+      .expect(201);
+
+    const pdf = await request(app)
+      .get(`/payments/${payment.body.id}/receipt`)
+      .set(auth)
+      .query({ format: 'pdf' })
+      .responseType('blob')
+      .expect(200);
+    const lines = pdfLines(pdf.body);
+    // Drawn left to right: Hebrew runs backwards, Latin text and numbers forwards
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'לוחמ וידוטס',
+        'ביבא לת ,12 לצרה בוחר',
+        'Received from: ןהכ הנד',
+        'Payment on account - (ץרמ) יונמ',
+      ]),
+    );
+    expect(lines.join('')).not.toContain('?');
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import paymentsRouter from '../routes/payments';
+import bookingsRouter from '../routes/bookings';
+import { closeDatabase } from '../db';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestChild,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', paymentsRouter);
+  app.use('/bookings', bookingsRouter);
+  return app;
+}
+
+const bitExport = [
+  'Account,12-345-678',
+  'תאריך,סכום,שם,טלפון,אסמכתא',
+  '01/04/2030,"₪60.00",Dana Cohen,+972501234567,BIT-1',
+  '02/04/2030,45,Yossi Levi,052-7654321,BIT-2',
+  '03/04/2030,45,Avi,,BIT-3',
+  '04/04/2030,-20,Refund,,BIT-4',
+  '05/04/2030,"1,000",Danna,,BIT-5',
+].join('\r\n');
+
+describe('Statement reconciliation', () => {
+  let studio: TestStudio;
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+  });
+
+  it('suggests matches for a bit export and records confirmed rows once', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const dana = await createTestCustomer(studio.id, {
+      first_name: 'Dana',
+      contact_email: 'dana@reconcile',
+      contact_phone: '050-123-4567',
+    });
+    const yossi = await createTestCustomer(studio.id, {
+      first_name: 'Yossi',
+      contact_email: 'yossi@reconcile',
+      contact_phone: '0527654321',
+    });
+    const noam = await createTestChild(yossi.id, { firstName: 'Noam', avatarKey: 'noam.png' });
+    const avi = await createTestCustomer(studio.id, {
+      first_name: 'Avi',
+      contact_email: 'avi@reconcile',
+    });
+    const slot = async (title: string, price: number, forChildren = false) =>
+      createTestSlot(studio.id, {
+        title,
+        startsAt: '2030-04-01T15:00:00Z',
+        durationMin: 60,
+        price,
+        minParticipants: 0,
+        maxParticipants: 10,
+        forChildren,
+      });
+    const book = async (body: object) =>
+      (await request(app).post('/bookings').set(auth).send(body).expect(201)).body.id as string;
+    const danaBooking = await book({ slotId: (await slot('Adults', 60)).id, customerId: dana.id });
+    const noamBooking = await book({ slotId: (await slot('Kids', 45, true)).id, childId: noam.id });
+    const aviBooking = await book({ slotId: (await slot('Evening', 45)).id, customerId: avi.id });
+
+    const url = `/studios/${studio.id}/reconciliation`;
+    const { body } = await request(app)
+      .post(url)
+      .set(auth)
+      .send({ method: 'bit', csv: bitExport })
+      .expect(200);
+    const [first, second, third, refund, onAccount] = body.suggestions;
+    expect(first.row).toMatchObject({
+      line: 3,
+      date: '2030-04-01',
+      amount: 60,
+      payer_phone: '0501234567',
+      reference: 'BIT-1',
+    });
+    expect(first).toMatchObject({ confidence: 'high', already_recorded: false });
+    expect(first.match).toMatchObject({
+      booking_id: danaBooking,
+      customer_id: dana.id,
+      reasons: ['amount', 'phone', 'name', 'date'],
+    });
+    expect(second.match).toMatchObject({ booking_id: noamBooking, customer_id: yossi.id });
+    // Same amount as Noam's booking, but only Avi's name matches
+    expect(third).toMatchObject({ confidence: 'medium' });
+    expect(third.match).toMatchObject({
+      booking_id: aviBooking,
+      reasons: ['amount', 'name', 'date'],
+    });
+    expect(refund).toMatchObject({ match: null, row: { error: 'Not an incoming payment' } });
+    // A misspelt name and no open booking for the amount: a payment on account
+    expect(onAccount.row.amount).toBe(1000);
+    expect(onAccount).toMatchObject({ confidence: 'low' });
+    expect(onAccount.match).toMatchObject({ booking_id: null, customer_id: dana.id });
+
+    const confirm = (rows: typeof body.suggestions) =>
+      request(app)
+        .post(`${url}/confirm`)
+        .set(auth)
+        .send({
+          method: 'bit',
+          payments: rows.map((suggestion: typeof first) => ({
+            amount: suggestion.row.amount,
+            receivedAt: suggestion.received_at,
+            bookingId: suggestion.match.booking_id ?? undefined,
+            customerId: suggestion.match.customer_id,
+            reference: suggestion.row.reference,
+          })),
+        })
+        .expect(200);
+    const confirmed = await confirm([first, second, third, onAccount]);
+    expect(confirmed.body.recorded).toBe(4);
+    expect(confirmed.body.results[0]).toMatchObject({
+      reference: 'BIT-1',
+      method: 'bit',
+      booking: { paid: true },
+      receipt: { number: 1 },
+    });
+    expect(confirmed.body.results[3].booking).toBeNull();
+
+    // Importing the same export again finds the rows already recorded
+    const again = await request(app)
+      .post(url)
+      .set(auth)
+      .send({ method: 'bit', csv: bitExport })
+      .expect(200);
+    expect(again.body.suggestions[0]).toMatchObject({ already_recorded: true, match: null });
+    const duplicate = await confirm([first]);
+    expect(duplicate.body).toMatchObject({ recorded: 0, results: [{ status: 409 }] });
+
+    await request(app)
+      .post(url)
+      .set(auth)
+      .send({ method: 'bit', csv: 'just,some\ntext,here' })
+      .expect(400);
+    await request(app).post(url).send({ method: 'bit', csv: bitExport }).expect(401);
+  });
+});
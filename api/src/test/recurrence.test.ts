@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseRecurrenceRule,
+  isValidRecurrenceRule,
+  expandOccurrences,
+  findOccurrence,
+} from '../scheduling/recurrence';
+import { fromZoned, localDateOf } from '../scheduling/timezone';
+
+const TZ = 'Asia/Jerusalem';
+// Tuesday 2025-07-29 17:00 in Jerusalem (UTC+3 in summer)
+const kidsTuesday = { starts_at: '2025-07-29T14:00:00Z', recurrence_rule: 'FREQ=WEEKLY;BYDAY=TU' };
+
+function dates(list: { date: string }[]) {
+  return list.map((o) => o.date);
+}
+
+describe('recurrence: parseRecurrenceRule', () => {
+  it('parses supported parts', () => {
+    const rule = parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5;WKST=SU');
+    expect(rule).toMatchObject({ freq: 'WEEKLY', interval: 2, count: 5, weekStart: 0 });
+    expect(rule.byDay.map((d) => d.weekday)).toEqual([1, 3]);
+  });
+
+  it('rejects malformed or unsupported rules', () => {
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;BYDAY=TU')).toBe(true);
+    expect(isValidRecurrenceRule('')).toBe(false);
+    expect(isValidRecurrenceRule('BYDAY=TU')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=HOURLY')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;BYDAY=XX')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;BYDAY=1TU')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;INTERVAL=0')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;COUNT=3;UNTIL=20250901')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;BYMONTH=1')).toBe(false);
+    expect(isValidRecurrenceRule('FREQ=WEEKLY;UNTIL=20250231')).toBe(false);
+  });
+});
+
+describe('recurrence: expandOccurrences', () => {
+  it('returns the single start of a one-time slot when in range', () => {
+    const slot = { starts_at: '2025-07-29T14:00:00Z', recurrence_rule: null };
+    const inRange = expandOccurrences(
+      slot,
+      TZ,
+      new Date('2025-07-28T00:00:00Z'),
+      new Date('2025-08-04T00:00:00Z'),
+    );
+    expect(dates(inRange)).toEqual(['2025-07-29']);
+    expect(
+      expandOccurrences(
+        slot,
+        TZ,
+        new Date('2025-08-04T00:00:00Z'),
+        new Date('2025-08-11T00:00:00Z'),
+      ),
+    ).toEqual([]);
+  });
+
+  it('expands a weekly class every week, keeping local time across DST', () => {
+    const occurrences = expandOccurrences(
+      kidsTuesday,
+      TZ,
+      new Date('2025-10-20T00:00:00Z'),
+      new Date('2025-11-05T00:00:00Z'),
+    );
+    expect(dates(occurrences)).toEqual(['2025-10-21', '2025-10-28', '2025-11-04']);
+    // Israel leaves DST on 2025-10-26: 17:00 local is 14:00Z before and 15:00Z after
+    expect(occurrences[0].startsAt.toISOString()).toBe('2025-10-21T14:00:00.000Z');
+    expect(occurrences[1].startsAt.toISOString()).toBe('2025-10-28T15:00:00.000Z');
+  });
+
+  it('honours INTERVAL, multiple BYDAY and COUNT', () => {
+    const slot = {
+      starts_at: '2025-09-01T07:00:00Z', // Monday
+      recurrence_rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5',
+    };
+    const occurrences = expandOccurrences(
+      slot,
+      TZ,
+      new Date('2025-08-01T00:00:00Z'),
+      new Date('2026-01-01T00:00:00Z'),
+    );
+    expect(dates(occurrences)).toEqual([
+      '2025-09-01',
+      '2025-09-03',
+      '2025-09-15',
+      '2025-09-17',
+      '2025-09-29',
+    ]);
+  });
+
+  it('counts occurrences before the requested range towards COUNT', () => {
+    const slot = { starts_at: '2025-09-01T07:00:00Z', recurrence_rule: 'FREQ=DAILY;COUNT=10' };
+    const occurrences = expandOccurrences(
+      slot,
+      TZ,
+      new Date('2025-09-08T00:00:00Z'),
+      new Date('2025-09-30T00:00:00Z'),
+    );
+    expect(dates(occurrences)).toEqual(['2025-09-08', '2025-09-09', '2025-09-10']);
+  });
+
+  it('stops at UNTIL (date-only is inclusive of the local day)', () => {
+    const slot = { ...kidsTuesday, recurrence_rule: 'FREQ=WEEKLY;BYDAY=TU;UNTIL=20250812' };
+    const occurrences = expandOccurrences(
+      slot,
+      TZ,
+      new Date('2025-07-01T00:00:00Z'),
+      new Date('2025-09-01T00:00:00Z'),
+    );
+    expect(dates(occurrences)).toEqual(['2025-07-29', '2025-08-05', '2025-08-12']);
+
+    const utcUntil = { ...kidsTuesday, recurrence_rule: 'FREQ=WEEKLY;UNTIL=20250812T130000Z' };
+    expect(
+      dates(
+        expandOccurrences(
+          utcUntil,
+          TZ,
+          new Date('2025-07-01T00:00:00Z'),
+          new Date('2025-09-01T00:00:00Z'),
+        ),
+      ),
+    ).toEqual(['2025-07-29', '2025-08-05']);
+  });
+
+  it('supports daily rules filtered by BYDAY', () => {
+    const slot = { starts_at: '2025-09-01T05:00:00Z', recurrence_rule: 'FREQ=DAILY;BYDAY=SU,MO' };
+    const occurrences = expandOccurrences(
+      slot,
+      TZ,
+      new Date('2025-09-01T00:00:00Z'),
+      new Date('2025-09-15T00:00:00Z'),
+    );
+    expect(dates(occurrences)).toEqual(['2025-09-01', '2025-09-07', '2025-09-08', '2025-09-14']);
+  });
+
+  it('supports monthly rules by day of month and by ordinal weekday', () => {
+    const byMonthDay = { starts_at: '2025-01-31T08:00:00Z', recurrence_rule: 'FREQ=MONTHLY' };
+    expect(
+      dates(
+        expandOccurrences(
+          byMonthDay,
+          TZ,
+          new Date('2025-01-01T00:00:00Z'),
+          new Date('2025-06-01T00:00:00Z'),
+        ),
+      ),
+    ).toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+
+    const lastFriday = {
+      starts_at: '2025-01-31T08:00:00Z',
+      recurrence_rule: 'FREQ=MONTHLY;BYDAY=-1FR',
+    };
+    expect(
+      dates(
+        expandOccurrences(
+          lastFriday,
+          TZ,
+          new Date('2025-01-01T00:00:00Z'),
+          new Date('2025-04-01T00:00:00Z'),
+        ),
+      ),
+    ).toEqual(['2025-01-31', '2025-02-28', '2025-03-28']);
+  });
+});
+
+describe('recurrence: findOccurrence', () => {
+  it('finds occurrences by local date only when the rule produces them', () => {
+    expect(findOccurrence(kidsTuesday, TZ, '2025-08-05')?.startsAt.toISOString()).toBe(
+      '2025-08-05T14:00:00.000Z',
+    );
+    expect(findOccurrence(kidsTuesday, TZ, '2025-08-06')).toBeNull();
+    expect(findOccurrence(kidsTuesday, TZ, '2025-07-22')).toBeNull();
+    expect(findOccurrence(kidsTuesday, TZ, '2025-02-30')).toBeNull();
+  });
+
+  it('converts wall-clock times through the studio timezone', () => {
+    const instant = fromZoned(
+      { year: 2025, month: 3, day: 30, hour: 9, minute: 0, second: 0 },
+      'Europe/London',
+    );
+    expect(instant.toISOString()).toBe('2025-03-30T08:00:00.000Z');
+    expect(localDateOf(new Date('2025-03-29T23:30:00Z'), 'Asia/Tokyo')).toBe('2025-03-30');
+  });
+});
@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import slotsRouter from '../routes/slots';
+import bookingsRouter from '../routes/bookings';
+import publicRouter from '../routes/public';
+import { getDbClient } from '../db';
+import { resolveOccurrence } from '../scheduling/occurrences';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  testData,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio, TestSlot } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', slotsRouter);
+  app.use('/bookings', bookingsRouter);
+  app.use('/public', publicRouter);
+  return app;
+}
+
+describe('Slot occurrences and exceptions', () => {
+  let studio: TestStudio;
+  let slot: TestSlot;
+
+  beforeEach(async () => {
+    studio = await createTestStudio(testData.studio.withIls);
+    // Tuesdays 17:00 Jerusalem time
+    slot = await createTestSlot(studio.id, {
+      title: 'Kids Tuesday',
+      startsAt: '2025-01-07T15:00:00Z',
+      durationMin: 90,
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=TU',
+      price: 100,
+      minParticipants: 1,
+      maxParticipants: 2,
+      forChildren: false,
+    });
+  });
+
+  it('resolveOccurrence applies exceptions and rejects cancelled occurrences', async () => {
+    const client = getDbClient();
+    const source = { ...slot, recurrence_rule: 'FREQ=WEEKLY;BYDAY=TU' };
+
+    expect(await resolveOccurrence(client, source, studio.timezone)).toEqual({
+      error: 'occurrenceDate is required for recurring slots',
+    });
+    expect(await resolveOccurrence(client, source, studio.timezone, '2025-03-05')).toEqual({
+      error: 'Slot has no occurrence on the requested date',
+    });
+
+    await client.query(
+      `insert into slot_exceptions (slot_id, occurrence_date, max_participants) values ($1, '2025-03-04', 5)`,
+      [slot.id],
+    );
+    const overridden = await resolveOccurrence(client, source, studio.timezone, '2025-03-04');
+    expect(overridden).toMatchObject({ occurrence: { date: '2025-03-04', maxParticipants: 5 } });
+
+    await client.query(
+      `update slot_exceptions set cancelled = true where slot_id = $1 and occurrence_date = '2025-03-04'`,
+      [slot.id],
+    );
+    expect(await resolveOccurrence(client, source, studio.timezone, '2025-03-04')).toEqual({
+      error: 'This occurrence has been cancelled',
+    });
+  });
+
+  it('GET returns the occurrence; validates ids, dates and ownership', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const base = `/studios/${studio.id}/slots/${slot.id}/occurrences`;
+
+    const res = await request(app).get(`${base}/2025-03-04`).set(auth).expect(200);
+    expect(res.body).toMatchObject({
+      slot_id: slot.id,
+      occurrence_date: '2025-03-04',
+      starts_at: '2025-03-04T15:00:00.000Z',
+      max_participants: 2,
+      cancelled: false,
+      booked_count: 0,
+      exception: null,
+    });
+
+    await request(app).get(`${base}/2025-03-05`).set(auth).expect(404);
+    await request(app).get(`${base}/2025-13-01`).set(auth).expect(400);
+    await request(app)
+      .get(`/studios/${studio.id}/slots/not-a-uuid/occurrences/2025-03-04`)
+      .set(auth)
+      .expect(400);
+    await request(app)
+      .get(
+        `/studios/${studio.id}/slots/550e8400-e29b-41d4-a716-446655440000/occurrences/2025-03-04`,
+      )
+      .set(auth)
+      .expect(404);
+
+    // Owner of another studio cannot see this slot
+    const other = await createTestStudio();
+    await request(app)
+      .get(`/studios/${other.id}/slots/${slot.id}/occurrences/2025-03-04`)
+      .set(await createTestOwner(other.id))
+      .expect(404);
+    await request(app).get(`${base}/2025-03-04`).expect(401);
+  });
+
+  it('moves and overrides an occurrence, reflected in the public week view and bookings', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const base = `/studios/${studio.id}/slots/${slot.id}/occurrences`;
+
+    const moved = await request(app)
+      .put(`${base}/2025-03-04`)
+      .set(auth)
+      .send({ startsAt: '2025-03-04T16:00:00Z', price: 80, maxParticipants: 1 })
+      .expect(200);
+    expect(moved.body).toMatchObject({
+      starts_at: '2025-03-04T16:00:00.000Z',
+      price: '80.00',
+      max_participants: 1,
+    });
+
+    const week = await request(app)
+      .get(`/public/${studio.slug}/slots`)
+      .query({ week: '2025-10' })
+      .expect(200);
+    expect(week.body.slotsByDay['2025-03-04'][0]).toMatchObject({
+      occurrence_date: '2025-03-04',
+      starts_at: '2025-03-04T16:00:00.000Z',
+      price: '80.00',
+      max_participants: 1,
+    });
+
+    // Overridden capacity is enforced on booking
+    const c1 = await createTestCustomer(studio.id, { first_name: 'C1', contact_email: 'c1@o' });
+    const c2 = await createTestCustomer(studio.id, { first_name: 'C2', contact_email: 'c2@o' });
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: c1.id, occurrenceDate: '2025-03-04' })
+      .expect(201);
+    await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: c2.id, occurrenceDate: '2025-03-04' })
+      .expect(409);
+
+    // Partial update clears the price override and keeps the others
+    await request(app).put(`${base}/2025-03-04`).set(auth).send({ price: null }).expect(200);
+    const current = await request(app).get(`${base}/2025-03-04`).set(auth).expect(200);
+    expect(current.body).toMatchObject({
+      price: '100.00',
+      max_participants: 1,
+      starts_at: '2025-03-04T16:00:00.000Z',
+      booked_count: 1,
+    });
+
+    // Removing the exception restores series values
+    const restored = await request(app).delete(`${base}/2025-03-04`).set(auth).expect(200);
+    expect(restored.body).toMatchObject({
+      starts_at: '2025-03-04T15:00:00.000Z',
+      max_participants: 2,
+      exception: null,
+    });
+    await request(app).delete(`${base}/2025-03-04`).set(auth).expect(404);
+  });
+
+  it('rejects lowering capacity below existing bookings', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const c1 = await createTestCustomer(studio.id, { first_name: 'C1', contact_email: 'c1@o' });
+    const c2 = await createTestCustomer(studio.id, { first_name: 'C2', contact_email: 'c2@o' });
+    for (const c of [c1, c2]) {
+      await request(app)
+        .post('/bookings')
+        .set(auth)
+        .send({ slotId: slot.id, customerId: c.id, occurrenceDate: '2025-03-11' })
+        .expect(201);
+    }
+
+    const res = await request(app)
+      .put(`/studios/${studio.id}/slots/${slot.id}/occurrences/2025-03-11`)
+      .set(auth)
+      .send({ maxParticipants: 1 })
+      .expect(409);
+    expect(res.body.booked_count).toBe(2);
+
+    await request(app)
+      .put(`/studios/${studio.id}/slots/${slot.id}/occurrences/2025-03-11`)
+      .set(auth)
+      .send({})
+      .expect(400);
+  });
+
+  it('keeps a raised capacity while the extra seats are booked', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    await request(app)
+      .put(`/studios/${studio.id}/slots/${slot.id}/occurrences/2025-03-11`)
+      .set(auth)
+      .send({ maxParticipants: 3 })
+      .expect(200);
+    for (const name of ['R1', 'R2', 'R3']) {
+      const c = await createTestCustomer(studio.id, {
+        first_name: name,
+        contact_email: `${name}@o`,
+      });
+      await request(app)
+        .post('/bookings')
+        .set(auth)
+        .send({ slotId: slot.id, customerId: c.id, occurrenceDate: '2025-03-11' })
+        .expect(201);
+    }
+
+    // Back to the series capacity of 2 would overbook the occurrence
+    const cleared = await request(app)
+      .put(`/studios/${studio.id}/slots/${slot.id}/occurrences/2025-03-11`)
+      .set(auth)
+      .send({ maxParticipants: null })
+      .expect(409);
+    expect(cleared.body.booked_count).toBe(3);
+    const removed = await request(app)
+      .delete(`/studios/${studio.id}/slots/${slot.id}/occurrences/2025-03-11`)
+      .set(auth)
+      .expect(409);
+    expect(removed.body.booked_count).toBe(3);
+
+    const { rows } = await getDbClient().query(
+      `select max_participants from slot_exceptions where slot_id = $1 and occurrence_date = '2025-03-11'`,
+      [slot.id],
+    );
+    expect(rows).toEqual([{ max_participants: 3 }]);
+  });
+
+  it('cancelling an occurrence hides it, cancels its bookings and blocks new ones', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    const customer = await createTestCustomer(studio.id, {
+      first_name: 'Can',
+      contact_email: 'can@o',
+    });
+    const booking = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: customer.id, occurrenceDate: '2025-03-04' })
+      .expect(201);
+
+    const attendee = await createTestCustomer(studio.id, {
+      first_name: 'Att',
+      contact_email: 'att@o',
+    });
+    const attended = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: attendee.id, occurrenceDate: '2025-03-04' })
+      .expect(201);
+    const client = getDbClient();
+    await client.query(`update bookings set status = 'ATTENDED' where id = $1`, [attended.body.id]);
+
+    const cancelled = await request(app)
+      .put(`/studios/${studio.id}/slots/${slot.id}/occurrences/2025-03-04`)
+      .set(auth)
+      .send({ cancelled: true })
+      .expect(200);
+    expect(cancelled.body).toMatchObject({ cancelled: true, cancelled_bookings: 1 });
+
+    const { rows } = await client.query(
+      'select status from bookings where id = any($1) order by array_position($1, id)',
+      [[booking.body.id, attended.body.id]],
+    );
+    // Recorded attendance is not turned into a cancellation
+    expect(rows.map((r) => r.status)).toEqual(['CANCELLED', 'ATTENDED']);
+
+    const week = await request(app)
+      .get(`/public/${studio.slug}/slots`)
+      .query({ week: '2025-10' })
+      .expect(200);
+    expect(week.body.slotsByDay).toEqual({});
+
+    const blocked = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: slot.id, customerId: customer.id, occurrenceDate: '2025-03-04' })
+      .expect(400);
+    expect(blocked.body.error).toBe('This occurrence has been cancelled');
+  });
+
+  it('shows an occurrence moved into another week in that week', async () => {
+    const app = makeApp();
+    const auth = await createTestOwner(studio.id);
+    // Move the 2025-03-04 class to Monday 2025-03-10 (week 11)
+    await request(app)
+      .put(`/studios/${studio.id}/slots/${slot.id}/occurrences/2025-03-04`)
+      .set(auth)
+      .send({ startsAt: '2025-03-10T15:00:00Z' })
+      .expect(200);
+
+    const week10 = await request(app)
+      .get(`/public/${studio.slug}/slots`)
+      .query({ week: '2025-10' })
+      .expect(200);
+    expect(week10.body.slotsByDay).toEqual({});
+
+    const week11 = await request(app)
+      .get(`/public/${studio.slug}/slots`)
+      .query({ week: '2025-11' })
+      .expect(200);
+    expect(Object.keys(week11.body.slotsByDay)).toEqual(['2025-03-10', '2025-03-11']);
+    expect(week11.body.slotsByDay['2025-03-10'][0].occurrence_date).toBe('2025-03-04');
+  });
+});
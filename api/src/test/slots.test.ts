@@ -3,7 +3,7 @@ import request from 'supertest';
 import express from 'express';
 import { closeDatabase } from '../db';
 import slotsRouter from '../routes/slots';
-import { createTestStudio, testData } from './test-helpers';
+import { createTestStudio, createTestSlot, createTestCustomer, testData } from './test-helpers';
 import { getDbClient } from '../db';
 import type { TestStudio } from '../types';
 import { signAccessToken } from '../auth/jwt';
@@ -47,17 +47,16 @@ describe('Slots API', () => {
     );
   });
 
+  async function auth() {
+    process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret-123';
+    // derive userId for the created/ensured user
+    const client = getDbClient();
+    const { rows } = await client.query('select id from users where google_sub=$1', ['sub-u-test']);
+    const token = await signAccessToken({ userId: rows[0].id, isAdmin: false }, '5m');
+    return { Authorization: `Bearer ${token}` };
+  }
+
   describe('POST /studios/:studioId/slots', () => {
-    async function auth() {
-      process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret-123';
-      // derive userId for the created/ensured user
-      const client = getDbClient();
-      const { rows } = await client.query('select id from users where google_sub=$1', [
-        'sub-u-test',
-      ]);
-      const token = await signAccessToken({ userId: rows[0].id, isAdmin: false }, '5m');
-      return { Authorization: `Bearer ${token}` };
-    }
     it('should create a basic adult slot with valid data', async () => {
       const slotData = testData.slot.adult;
 
@@ -108,26 +107,22 @@ describe('Slots API', () => {
       expect(response.body.recurrence_rule).toBe(slotData.recurrenceRule);
     });
 
-    it('should return 400 for invalid studio ID format', async () => {
-      const response = await request(app)
+    it('should return 403 for invalid studio ID format', async () => {
+      await request(app)
         .post('/studios/invalid/slots')
         .set(await auth())
         .send(testData.slot.adult)
-        .expect(400);
-
-      expect(response.body.error).toBe('Invalid studio ID');
+        .expect(403, { error: 'forbidden', permission: 'slots.manage' });
     });
 
-    it('should return 404 for non-existent studio', async () => {
+    it('should return 403 for non-existent studio', async () => {
       const nonExistentStudioId = '550e8400-e29b-41d4-a716-446655440000'; // Valid UUID format but non-existent
 
-      const response = await request(app)
+      await request(app)
         .post(`/studios/${nonExistentStudioId}/slots`)
         .set(await auth())
         .send(testData.slot.adult)
-        .expect(404);
-
-      expect(response.body.error).toBe('Studio not found');
+        .expect(403, { error: 'forbidden', permission: 'slots.manage' });
     });
 
     it('should return 400 for invalid datetime format', async () => {
@@ -271,4 +266,235 @@ describe('Slots API', () => {
       expect(parseFloat(response.body.price)).toBe(0);
     });
   });
+
+  describe('slot management', () => {
+    // Far-future weekly Wednesday class so occurrences count as upcoming
+    const weekly = {
+      title: 'Wednesday Wheel',
+      startsAt: '2030-01-02T16:00:00Z',
+      durationMin: 60,
+      recurrenceRule: 'FREQ=WEEKLY;BYDAY=WE',
+      price: 90,
+      minParticipants: 1,
+      maxParticipants: 4,
+      forChildren: false,
+    };
+
+    async function book(slotId: string, occurrenceDate: string, n: number) {
+      const client = getDbClient();
+      for (let i = 0; i < n; i++) {
+        const customer = await createTestCustomer(testStudio.id, {
+          first_name: `B${i}`,
+          contact_email: `b${i}-${occurrenceDate}@test`,
+        });
+        await client.query(
+          `insert into bookings (slot_id, customer_id, occurrence_date, list_price, price, currency)
+           select $1, $2, $3, price, price, (select currency from studios where id = slots.studio_id)
+           from slots where id = $1`,
+          [slotId, customer.id, occurrenceDate],
+        );
+      }
+    }
+
+    it('lists, filters and fetches slots with upcoming booking counts', async () => {
+      const slot = await createTestSlot(testStudio.id, weekly);
+      const inactive = await createTestSlot(testStudio.id, { ...testData.slot.adult });
+      await getDbClient().query('update slots set active = false where id = $1', [inactive.id]);
+      await book(slot.id, '2030-01-09', 2);
+
+      const all = await request(app)
+        .get(`/studios/${testStudio.id}/slots`)
+        .set(await auth())
+        .expect(200);
+      expect(all.body).toHaveLength(2);
+
+      const active = await request(app)
+        .get(`/studios/${testStudio.id}/slots`)
+        .query({ active: 'true' })
+        .set(await auth())
+        .expect(200);
+      expect(active.body).toHaveLength(1);
+      expect(active.body[0]).toMatchObject({ id: slot.id, upcoming_bookings: 2 });
+
+      await request(app)
+        .get(`/studios/${testStudio.id}/slots`)
+        .query({ active: 'yes' })
+        .set(await auth())
+        .expect(400);
+
+      const one = await request(app)
+        .get(`/studios/${testStudio.id}/slots/${slot.id}`)
+        .set(await auth())
+        .expect(200);
+      expect(one.body.upcoming_bookings).toEqual([
+        { occurrence_date: '2030-01-09', booked_count: 2, max_override: null },
+      ]);
+
+      await request(app)
+        .get(`/studios/${testStudio.id}/slots/not-a-uuid`)
+        .set(await auth())
+        .expect(400);
+      await request(app).get(`/studios/${testStudio.id}/slots/${slot.id}`).expect(401);
+
+      // Slots of another studio are not visible through this studio
+      const other = await createTestStudio(testData.studio.withIls);
+      const foreign = await createTestSlot(other.id, weekly);
+      await request(app)
+        .get(`/studios/${testStudio.id}/slots/${foreign.id}`)
+        .set(await auth())
+        .expect(404);
+      await request(app)
+        .get(`/studios/${other.id}/slots`)
+        .set(await auth())
+        .expect(403);
+    });
+
+    it('updates fields and validates the merged participant limits', async () => {
+      const slot = await createTestSlot(testStudio.id, weekly);
+      const url = `/studios/${testStudio.id}/slots/${slot.id}`;
+
+      const res = await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({ title: 'Wednesday Wheel (fixed)', price: 95, recurrenceRule: null })
+        .expect(200);
+      expect(res.body).toMatchObject({
+        title: 'Wednesday Wheel (fixed)',
+        price: '95.00',
+        recurrence_rule: null,
+        max_participants: 4,
+      });
+
+      await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({})
+        .expect(400);
+      await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({ recurrenceRule: 'FREQ=HOURLY' })
+        .expect(400);
+      await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({ minParticipants: 5 })
+        .expect(400);
+    });
+
+    it('rejects lowering capacity below bookings on an upcoming occurrence', async () => {
+      const slot = await createTestSlot(testStudio.id, weekly);
+      await book(slot.id, '2030-01-16', 3);
+      const url = `/studios/${testStudio.id}/slots/${slot.id}`;
+
+      const res = await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({ maxParticipants: 2 })
+        .expect(409);
+      expect(res.body.occurrences).toEqual([{ occurrence_date: '2030-01-16', booked_count: 3 }]);
+
+      await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({ maxParticipants: 3 })
+        .expect(200);
+
+      // An occurrence with its own capacity override is not affected by the series capacity
+      await getDbClient().query(
+        `insert into slot_exceptions (slot_id, occurrence_date, max_participants) values ($1, '2030-01-16', 3)`,
+        [slot.id],
+      );
+      await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({ maxParticipants: 1, minParticipants: 1 })
+        .expect(200);
+    });
+
+    it('rejects schedule and audience changes that would orphan upcoming bookings', async () => {
+      const slot = await createTestSlot(testStudio.id, weekly);
+      await book(slot.id, '2030-01-09', 1);
+      const url = `/studios/${testStudio.id}/slots/${slot.id}`;
+
+      const moved = await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({ recurrenceRule: 'FREQ=WEEKLY;BYDAY=TH' })
+        .expect(409);
+      expect(moved.body.occurrences).toEqual([{ occurrence_date: '2030-01-09', booked_count: 1 }]);
+
+      // Changing the time of day keeps the booked date
+      await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({ startsAt: '2030-01-02T17:00:00Z' })
+        .expect(200);
+
+      await request(app)
+        .patch(url)
+        .set(await auth())
+        .send({ forChildren: true })
+        .expect(409);
+    });
+
+    it('deactivating cancels upcoming bookings but leaves past ones', async () => {
+      const slot = await createTestSlot(testStudio.id, {
+        ...weekly,
+        startsAt: '2020-01-01T16:00:00Z',
+      });
+      await book(slot.id, '2020-01-08', 1);
+      await book(slot.id, '2030-01-09', 2);
+      // Attendance recorded today is kept
+      const { rows: today } = await getDbClient().query(
+        `select to_char((now() at time zone timezone)::date, 'YYYY-MM-DD') as date
+         from studios where id = $1`,
+        [testStudio.id],
+      );
+      await book(slot.id, today[0].date, 1);
+      await getDbClient().query(
+        `update bookings set status = 'ATTENDED' where slot_id = $1 and occurrence_date = $2`,
+        [slot.id, today[0].date],
+      );
+
+      const res = await request(app)
+        .patch(`/studios/${testStudio.id}/slots/${slot.id}`)
+        .set(await auth())
+        .send({ active: false })
+        .expect(200);
+      expect(res.body).toMatchObject({ active: false, cancelled_bookings: 2 });
+
+      const { rows } = await getDbClient().query(
+        `select occurrence_date, status from bookings where slot_id = $1 order by occurrence_date`,
+        [slot.id],
+      );
+      expect(rows.map((r) => r.status)).toEqual([
+        'CONFIRMED',
+        'ATTENDED',
+        'CANCELLED',
+        'CANCELLED',
+      ]);
+    });
+
+    it('deletes only slots without bookings', async () => {
+      const slot = await createTestSlot(testStudio.id, weekly);
+      const booked = await createTestSlot(testStudio.id, weekly);
+      await book(booked.id, '2030-01-09', 1);
+
+      const refused = await request(app)
+        .delete(`/studios/${testStudio.id}/slots/${booked.id}`)
+        .set(await auth())
+        .expect(409);
+      expect(refused.body.bookings_count).toBe(1);
+
+      await request(app)
+        .delete(`/studios/${testStudio.id}/slots/${slot.id}`)
+        .set(await auth())
+        .expect(200);
+      await request(app)
+        .delete(`/studios/${testStudio.id}/slots/${slot.id}`)
+        .set(await auth())
+        .expect(404);
+    });
+  });
 });
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import studioCustomers, { customersRouter } from '../routes/customers';
+import customerChildren, { childrenRouter } from '../routes/children';
+import bookingsRouter from '../routes/bookings';
+import invitesRouter from '../routes/invites';
+import { closeDatabase, getDbClient } from '../db';
+import { signAccessToken } from '../auth/jwt';
+import {
+  createTestStudio,
+  createTestSlot,
+  createTestCustomer,
+  createTestChild,
+  createTestOwner,
+} from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', studioCustomers);
+  app.use('/customers', customersRouter);
+  app.use('/customers', customerChildren);
+  app.use('/children', childrenRouter);
+  app.use('/bookings', bookingsRouter);
+  app.use('/invites', invitesRouter);
+  return app;
+}
+
+const slotData = {
+  title: 'Pilates',
+  startsAt: '2030-07-01T09:00:00Z',
+  durationMin: 60,
+  price: 50,
+  minParticipants: 0,
+  maxParticipants: 10,
+  forChildren: false,
+};
+
+describe('Studio ownership', () => {
+  let mine: TestStudio;
+  let theirs: TestStudio;
+  let auth: { Authorization: string };
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    mine = await createTestStudio();
+    theirs = await createTestStudio();
+    auth = await createTestOwner(mine.id);
+  });
+
+  it("refuses access to another studio's customers, children, bookings and invites", async () => {
+    const app = makeApp();
+    const customer = await createTestCustomer(theirs.id, {
+      first_name: 'Other',
+      contact_email: 'other@owners',
+    });
+    const child = await createTestChild(customer.id, { firstName: 'Kid' });
+    const slot = await createTestSlot(theirs.id, slotData);
+    const { rows } = await getDbClient().query(
+      `insert into bookings (slot_id, customer_id, status, occurrence_date, list_price, price, currency)
+       values ($1, $2, 'CONFIRMED', '2030-07-01', 50, 50, $3) returning id`,
+      [slot.id, customer.id, theirs.currency],
+    );
+    const bookingId = rows[0].id;
+
+    const denied = [
+      request(app).get(`/studios/${theirs.id}/customers`),
+      request(app).post(`/studios/${theirs.id}/customers`).send({
+        firstName: 'New',
+        contactEmail: 'new@owners',
+      }),
+      request(app).get(`/customers/${customer.id}`),
+      request(app).get(`/customers/${customer.id}/statement`),
+      request(app).patch(`/customers/${customer.id}`).send({ firstName: 'Renamed' }),
+      request(app).delete(`/customers/${customer.id}`),
+      request(app).get(`/customers/${customer.id}/children`),
+      request(app)
+        .post(`/customers/${customer.id}/children`)
+        .send({ firstName: 'Kid 2', avatarKey: 'kid.png' }),
+      request(app).get(`/children/${child.id}`),
+      request(app).delete(`/children/${child.id}`),
+      request(app).post('/bookings').send({ slotId: slot.id, customerId: customer.id }),
+      request(app).get(`/bookings/${bookingId}`),
+      request(app).get(`/bookings?studioId=${theirs.id}`),
+      request(app).patch(`/bookings/${bookingId}/status`).send({ status: 'CANCELLED' }),
+      request(app).patch(`/bookings/${bookingId}/payment`).send({ paidMethod: 'cash' }),
+      request(app).delete(`/bookings/${bookingId}`),
+      request(app)
+        .post('/invites')
+        .send({ studioId: theirs.id, customer: { firstName: 'Inv', email: 'inv@owners' } }),
+    ];
+    for (const [i, req] of denied.entries()) {
+      const res = await req.set(auth);
+      expect(res.status, `request ${i}`).toBe(403);
+    }
+
+    // Nothing was changed or created
+    const { rows: after } = await getDbClient().query(
+      `select c.first_name, b.status, b.paid,
+              (select count(*)::int from children where customer_id = c.id) as children
+       from customers c join bookings b on b.customer_id = c.id where b.id = $1`,
+      [bookingId],
+    );
+    expect(after[0]).toEqual({
+      first_name: 'Other',
+      status: 'CONFIRMED',
+      paid: false,
+      children: 1,
+    });
+  });
+
+  it('requires a signed-in user and lists only bookings of owned studios', async () => {
+    const app = makeApp();
+    const customer = await createTestCustomer(mine.id, {
+      first_name: 'Mine',
+      contact_email: 'mine@owners',
+    });
+    await request(app).get(`/customers/${customer.id}`).expect(401);
+    await request(app).get('/bookings').expect(401);
+
+    const ownSlot = await createTestSlot(mine.id, slotData);
+    const otherSlot = await createTestSlot(theirs.id, slotData);
+    const other = await createTestCustomer(theirs.id, {
+      first_name: 'Theirs',
+      contact_email: 'theirs@owners',
+    });
+    const booked = await request(app)
+      .post('/bookings')
+      .set(auth)
+      .send({ slotId: ownSlot.id, customerId: customer.id })
+      .expect(201);
+    await getDbClient().query(
+      `insert into bookings (slot_id, customer_id, status, occurrence_date, list_price, price, currency)
+       values ($1, $2, 'CONFIRMED', '2030-07-01', 50, 50, $3)`,
+      [otherSlot.id, other.id, theirs.currency],
+    );
+
+    const list = await request(app).get('/bookings').set(auth).expect(200);
+    expect(list.body.map((b: { id: string }) => b.id)).toEqual([booked.body.id]);
+  });
+
+  it('lets managers of the studio in', async () => {
+    const app = makeApp();
+    const client = getDbClient();
+    const { rows: users } = await client.query(
+      `insert into users (google_sub, email) values ('sub-manager', 'manager@owners')
+       on conflict (google_sub) do update set email = excluded.email
+       returning id`,
+    );
+    await client.query(
+      `insert into studio_owners (studio_id, user_id, role) values ($1, $2, 'manager')`,
+      [theirs.id, users[0].id],
+    );
+    const token = await signAccessToken({ userId: users[0].id, isAdmin: false }, '5m');
+    const customer = await createTestCustomer(theirs.id, {
+      first_name: 'Managed',
+      contact_email: 'managed@owners',
+    });
+
+    const res = await request(app)
+      .get(`/customers/${customer.id}`)
+      .set({ Authorization: `Bearer ${token}` })
+      .expect(200);
+    expect(res.body.first_name).toBe('Managed');
+  });
+});
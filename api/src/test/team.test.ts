@@ -0,0 +1,219 @@
+import { describe, it, expect, afterAll, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import teamRouter from '../routes/team';
+import studioCustomers from '../routes/customers';
+import { closeDatabase, getDbClient } from '../db';
+import { signAccessToken } from '../auth/jwt';
+import { createTestStudio, createTestOwner } from './test-helpers';
+import type { TestStudio } from '../types';
+
+function makeApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/studios', teamRouter);
+  app.use('/studios', studioCustomers);
+  return app;
+}
+
+// A user who signed in with Google with this email, not yet on any team
+async function signedIn(email: string, emailVerified = true) {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret-123';
+  const { rows } = await getDbClient().query(
+    `insert into users (google_sub, email, email_verified) values ($1, $2, $3)
+     on conflict (google_sub) do update
+       set email = excluded.email, email_verified = excluded.email_verified
+     returning id`,
+    [`sub-${email}`, email, emailVerified],
+  );
+  const token = await signAccessToken({ userId: rows[0].id, isAdmin: false }, '5m');
+  return { id: rows[0].id as string, auth: { Authorization: `Bearer ${token}` } };
+}
+
+describe('Studio team', () => {
+  let studio: TestStudio;
+  let owner: { Authorization: string };
+
+  afterAll(async () => {
+    await closeDatabase();
+  });
+
+  beforeEach(async () => {
+    studio = await createTestStudio();
+    owner = await createTestOwner(studio.id);
+  });
+
+  it('invites a manager who joins once signed in with the invited email', async () => {
+    const app = makeApp();
+    const invited = await request(app)
+      .post(`/studios/${studio.id}/team/invitations`)
+      .set(owner)
+      .send({ email: 'Maya@Team.test', role: 'manager' })
+      .expect(201);
+    expect(invited.body).toMatchObject({ email: 'Maya@Team.test', role: 'manager' });
+
+    // Inviting again replaces the pending invitation
+    const again = await request(app)
+      .post(`/studios/${studio.id}/team/invitations`)
+      .set(owner)
+      .send({ email: 'maya@team.test', role: 'instructor' })
+      .expect(201);
+    expect(again.body.id).toBe(invited.body.id);
+    expect(again.body.role).toBe('instructor');
+
+    const maya = await signedIn('maya@team.test');
+    const other = await signedIn('other@team.test');
+    await request(app).get(`/studios/${studio.id}/customers`).set(maya.auth).expect(403);
+
+    const mine = await request(app).get('/studios/invitations').set(maya.auth).expect(200);
+    expect(mine.body).toHaveLength(1);
+    expect(mine.body[0]).toMatchObject({ id: invited.body.id, studio_name: studio.name });
+    await request(app).get('/studios/invitations').set(other.auth).expect(200, []);
+    await request(app)
+      .post(`/studios/invitations/${invited.body.id}/accept`)
+      .set(other.auth)
+      .expect(404, { error: 'Invitation not found' });
+
+    const joined = await request(app)
+      .post(`/studios/invitations/${invited.body.id}/accept`)
+      .set(maya.auth)
+      .expect(200);
+    expect(joined.body).toMatchObject({ user_id: maya.id, role: 'instructor' });
+    await request(app)
+      .post(`/studios/invitations/${invited.body.id}/accept`)
+      .set(maya.auth)
+      .expect(404);
+
+    const team = await request(app).get(`/studios/${studio.id}/team`).set(owner).expect(200);
+    expect(
+      team.body.members.map((m: { email: string; role: string }) => [m.email, m.role]),
+    ).toEqual([
+      ['owner@test', 'owner'],
+      ['maya@team.test', 'instructor'],
+    ]);
+    expect(team.body.invitations).toEqual([]);
+    await request(app)
+      .post(`/studios/${studio.id}/team/invitations`)
+      .set(owner)
+      .send({ email: 'maya@team.test', role: 'manager' })
+      .expect(409, { error: 'Already a member of this studio' });
+
+    await request(app)
+      .patch(`/studios/${studio.id}/team/${maya.id}`)
+      .set(owner)
+      .send({ role: 'manager' })
+      .expect(200);
+    await request(app).get(`/studios/${studio.id}/customers`).set(maya.auth).expect(200);
+    // Managers cannot manage the team
+    await request(app)
+      .get(`/studios/${studio.id}/team`)
+      .set(maya.auth)
+      .expect(403, { error: 'forbidden', permission: 'staff.manage' });
+  });
+
+  it('never leaves a studio without an owner', async () => {
+    const app = makeApp();
+    const team = await request(app).get(`/studios/${studio.id}/team`).set(owner).expect(200);
+    const ownerId = team.body.members[0].user_id;
+
+    await request(app)
+      .patch(`/studios/${studio.id}/team/${ownerId}`)
+      .set(owner)
+      .send({ role: 'manager' })
+      .expect(409, { error: 'A studio needs at least one owner' });
+    await request(app)
+      .delete(`/studios/${studio.id}/team/${ownerId}`)
+      .set(owner)
+      .expect(409, { error: 'A studio needs at least one owner' });
+
+    // With a second owner the first can step down
+    const invited = await request(app)
+      .post(`/studios/${studio.id}/team/invitations`)
+      .set(owner)
+      .send({ email: 'second@team.test', role: 'owner' })
+      .expect(201);
+    const second = await signedIn('second@team.test');
+    await request(app)
+      .post(`/studios/invitations/${invited.body.id}/accept`)
+      .set(second.auth)
+      .expect(200);
+
+    const removed = await request(app)
+      .delete(`/studios/${studio.id}/team/${ownerId}`)
+      .set(owner)
+      .expect(200);
+    expect(removed.body.deleted).toMatchObject({ user_id: ownerId, role: 'owner' });
+    await request(app).get(`/studios/${studio.id}/team`).set(owner).expect(403);
+    await request(app)
+      .delete(`/studios/${studio.id}/team/${second.id}`)
+      .set(second.auth)
+      .expect(409, { error: 'A studio needs at least one owner' });
+    await request(app)
+      .delete(`/studios/${studio.id}/team/${ownerId}`)
+      .set(second.auth)
+      .expect(404, { error: 'Team member not found' });
+  });
+
+  it('only lets a verified email accept an invitation', async () => {
+    const app = makeApp();
+    const invited = await request(app)
+      .post(`/studios/${studio.id}/team/invitations`)
+      .set(owner)
+      .send({ email: 'boss@team.test', role: 'owner' })
+      .expect(201);
+
+    const impostor = await signedIn('boss@team.test', false);
+    await request(app).get('/studios/invitations').set(impostor.auth).expect(200, []);
+    await request(app)
+      .post(`/studios/invitations/${invited.body.id}/accept`)
+      .set(impostor.auth)
+      .expect(404, { error: 'Invitation not found' });
+    await request(app).get(`/studios/${studio.id}/team`).set(impostor.auth).expect(403);
+
+    // Once Google has verified the email the invitation can be accepted
+    const boss = await signedIn('boss@team.test');
+    await request(app)
+      .post(`/studios/invitations/${invited.body.id}/accept`)
+      .set(boss.auth)
+      .expect(200);
+  });
+
+  it('revokes pending invitations and validates input', async () => {
+    const app = makeApp();
+    const invited = await request(app)
+      .post(`/studios/${studio.id}/team/invitations`)
+      .set(owner)
+      .send({ email: 'late@team.test', role: 'manager' })
+      .expect(201);
+    await request(app)
+      .post(`/studios/${studio.id}/team/invitations`)
+      .set(owner)
+      .send({ email: 'not-an-email', role: 'manager' })
+      .expect(400);
+    await request(app)
+      .post(`/studios/${studio.id}/team/invitations`)
+      .set(owner)
+      .send({ email: 'boss@team.test', role: 'admin' })
+      .expect(400);
+
+    await request(app)
+      .delete(`/studios/${studio.id}/team/invitations/${invited.body.id}`)
+      .set(owner)
+      .expect(200);
+    await request(app)
+      .delete(`/studios/${studio.id}/team/invitations/${invited.body.id}`)
+      .set(owner)
+      .expect(404, { error: 'Invitation not found' });
+
+    const late = await signedIn('late@team.test');
+    await request(app)
+      .post(`/studios/invitations/${invited.body.id}/accept`)
+      .set(late.auth)
+      .expect(404);
+    await request(app)
+      .post('/studios/invitations/not-a-uuid/accept')
+      .set(late.auth)
+      .expect(400, { error: 'Invalid invitation ID' });
+    await request(app).get('/studios/invitations').expect(401);
+  });
+});
@@ -1,4 +1,5 @@
 import { db, getDbClient } from '../db';
+import { signAccessToken } from '../auth/jwt';
 import { testTransaction } from './transaction-manager';
 import type {
   TestStudio,
@@ -195,3 +196,23 @@ export async function createTestChild(
   ]);
   return rows[0];
 }
+
+// Helper to sign in a user owning the given studios and return its request headers
+export async function createTestOwner(...studioIds: string[]): Promise<{ Authorization: string }> {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret-123';
+  const client = getDbClient();
+  const { rows } = await client.query(
+    `insert into users (google_sub, email) values ('sub-test-owner', 'owner@test')
+     on conflict (google_sub) do update set email = excluded.email
+     returning id`,
+  );
+  for (const studioId of studioIds) {
+    await client.query(
+      `insert into studio_owners (studio_id, user_id, role) values ($1, $2, 'owner')
+       on conflict do nothing`,
+      [studioId, rows[0].id],
+    );
+  }
+  const token = await signAccessToken({ userId: rows[0].id, isAdmin: false }, '5m');
+  return { Authorization: `Bearer ${token}` };
+}
@@ -3,7 +3,14 @@
 
 import { Request } from 'express';
 
-export type PaymentMethod = 'cash' | 'bit' | 'paybox' | 'transfer';
+export type PaymentMethod = 'cash' | 'bit' | 'paybox' | 'transfer' | 'online'; // online: through a payment provider
+export type BookingStatus = 'CONFIRMED' | 'WAITLISTED' | 'CANCELLED' | 'ATTENDED' | 'NO_SHOW';
+export type AttendanceStatus = Extract<BookingStatus, 'ATTENDED' | 'NO_SHOW'>;
+export type BookingEventType = 'CREATED' | 'STATUS_CHANGED' | 'RESCHEDULED';
+export type BookingEventSource = 'admin' | 'invite' | 'system';
+export type LateCancellationAction = 'charge' | 'forfeit_credit';
+export type PriceRule = 'customer_price' | 'sibling' | 'coupon';
+export type StudioRole = 'owner' | 'manager' | 'instructor'; // studio_owners.role
 
 export interface Studio {
   id: string;
@@ -11,6 +18,13 @@ export interface Studio {
   name: string;
   timezone: string;
   currency: string;
+  free_cancellation_hours: number | null; // null: cancelling is always free
+  late_cancellation_action: LateCancellationAction;
+  sibling_discount_percent: number | null; // Off a child's booking when a sibling attends too
+  business_name: string | null; // Printed on receipts instead of the studio name
+  business_tax_id: string | null;
+  business_address: string | null;
+  vat_rate: number | null; // VAT percentage included in payments; null when exempt
 }
 
 export interface Customer {
@@ -45,6 +59,17 @@ export interface Slot {
   active: boolean;
 }
 
+// Per-occurrence override of a recurring slot, keyed by the occurrence's original date
+export interface SlotException {
+  slot_id: string;
+  occurrence_date: string;
+  cancelled: boolean;
+  starts_at: Date | null;
+  price: number | null;
+  max_participants: number | null;
+  created_at: Date;
+}
+
 export interface Invite {
   id: string;
   studio_id: string;
@@ -57,13 +82,176 @@ export interface Invite {
 export interface Booking {
   id: string;
   slot_id: string;
+  occurrence_date: string; // YYYY-MM-DD in the studio timezone
   customer_id?: string;
   child_id?: string;
-  status: string;
+  status: BookingStatus;
   created_at: Date;
-  paid: boolean;
+  list_price: number; // Occurrence price when the booking was made
+  price: number; // Charged price after pricing rules, fixed when the booking was made
+  price_rule: PriceRule | null; // Rule that set the price; null for the list price
+  coupon_id: string | null;
+  currency: string; // Studio currency when the booking was made
+  paid: boolean; // Derived from the payment ledger: amount_paid covers the price
   paid_at?: Date;
   paid_method?: PaymentMethod;
+  amount_paid: number; // Net of the booking's payments and refunds
+  waitlisted_at?: Date | null; // Set while the booking queues for a full occurrence
+  waitlist_position?: number; // 1-based, only on WAITLISTED bookings
+  cancelled_at?: Date | null;
+  late_cancellation: boolean; // Cancelled inside the studio's paid cancellation window
+  late_cancellation_charged: boolean; // Owed under the studio's policy when it was cancelled
+  attendance_recorded_at?: Date | null; // When the booking was checked in as ATTENDED or NO_SHOW
+  credit_package_id?: string | null; // Package whose credit pays for the booking
+  membership_id?: string | null; // Membership covering the booking
+  covered?: boolean; // Paid for by a membership or credit rather than a payment
+}
+
+// Prepaid class credits (punch card) of a customer, shared with their children
+export interface CreditPackage {
+  id: string;
+  studio_id: string;
+  customer_id: string;
+  name: string;
+  credits: number;
+  expires_at: Date | null; // Usable for classes starting before this moment
+  created_at: Date;
+}
+
+// A payment received by a studio; refunds are negative entries with refund_of set
+export interface Payment {
+  id: string;
+  studio_id: string;
+  customer_id: string | null;
+  booking_id: string | null;
+  credit_package_id: string | null;
+  refund_of: string | null;
+  amount: number;
+  currency: string; // The booking's or refunded payment's, otherwise the studio's at the time
+  method: PaymentMethod;
+  received_at: Date;
+  recorded_by: string | null; // User who recorded the payment
+  note: string | null;
+  reference: string | null; // Bank, bit or paybox transaction reference
+  created_at: Date;
+}
+
+// An invitation to join a studio's team; pending while accepted_at is null
+export interface StaffInvitation {
+  id: string;
+  studio_id: string;
+  email: string;
+  role: StudioRole;
+  invited_by: string | null;
+  created_at: Date;
+  expires_at: Date;
+  accepted_at: Date | null;
+  accepted_by: string | null;
+}
+
+export type PaymentLinkStatus = 'pending' | 'paid' | 'failed';
+
+// A pay-now link created with a payment provider for a booking
+export interface PaymentLink {
+  id: string;
+  studio_id: string;
+  booking_id: string;
+  provider: string;
+  provider_ref: string; // The provider's id for the payment
+  amount: number;
+  currency: string;
+  url: string;
+  status: PaymentLinkStatus;
+  payment_id: string | null; // Ledger entry recorded when the provider reported it paid
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+export interface ReceiptLine {
+  description: string;
+  amount: number;
+}
+
+// A numbered receipt for a payment; business details and amounts are copied when issued
+export interface Receipt {
+  id: string;
+  studio_id: string;
+  payment_id: string;
+  number: number; // Sequential per studio, without gaps
+  issued_at: Date;
+  business_name: string;
+  business_tax_id: string | null;
+  business_address: string | null;
+  customer_name: string | null;
+  currency: string;
+  method: PaymentMethod;
+  lines: ReceiptLine[];
+  subtotal: number; // Total before VAT
+  vat_rate: number | null;
+  vat_amount: number;
+  total: number;
+}
+
+// A studio promo code; exactly one of percent_off and amount_off is set
+export interface Coupon {
+  id: string;
+  studio_id: string;
+  code: string;
+  percent_off: number | null;
+  amount_off: number | null;
+  max_uses: number | null; // null: unlimited
+  valid_from: string | null; // YYYY-MM-DD in the studio timezone, inclusive
+  valid_until: string | null;
+  active: boolean;
+  created_at: Date;
+}
+
+// A fixed price agreed with a customer, for one slot or (slot_id null) all classes
+export interface CustomerPrice {
+  id: string;
+  customer_id: string;
+  slot_id: string | null;
+  price: number;
+  created_at: Date;
+}
+
+export interface MembershipPlan {
+  id: string;
+  studio_id: string;
+  name: string;
+  weekly_limit: number | null; // null: unlimited
+  for_children: boolean | null; // null: children's and adult classes
+  created_at: Date;
+}
+
+// A plan subscribed for a customer or one of their children
+export interface Membership {
+  id: string;
+  plan_id: string;
+  customer_id: string | null;
+  child_id: string | null;
+  starts_on: string; // YYYY-MM-DD, inclusive
+  ends_on: string; // YYYY-MM-DD, inclusive
+  created_at: Date;
+}
+
+// Who triggered a booking change; userId is set when a signed-in user acted
+export interface BookingActor {
+  source: BookingEventSource;
+  userId?: string | null;
+}
+
+export interface BookingEvent {
+  id: string;
+  booking_id: string;
+  event_type: BookingEventType;
+  from_status: BookingStatus | null;
+  to_status: BookingStatus | null;
+  source: BookingEventSource;
+  actor_user_id: string | null;
+  actor_email?: string | null;
+  details: Record<string, unknown> | null;
+  created_at: Date;
 }
 
 // API Request/Response types
@@ -106,13 +294,17 @@ export interface CreateInviteRequest {
 export interface UpdatePaymentRequest {
   paidMethod: PaymentMethod;
   paidAt?: string; // ISO 8601 datetime string
+  amount?: number; // Defaults to the outstanding amount
 }
 
 export interface CreateBookingRequest {
   slotId: string;
+  occurrenceDate?: string; // YYYY-MM-DD; required for recurring slots
   customerId?: string;
   childId?: string;
   childData?: CreateChildRequest;
+  waitlist?: boolean; // Join the waitlist when the occurrence is full
+  couponCode?: string;
 }
 
 // API Response types with related data
@@ -127,8 +319,13 @@ export interface BookingWithDetails extends Booking {
   child_name?: string;
 }
 
+// A single dated occurrence of a slot; starts_at is the occurrence start
+export interface SlotOccurrence extends Slot {
+  occurrence_date: string;
+}
+
 export interface SlotsByDay {
-  [date: string]: Slot[];
+  [date: string]: SlotOccurrence[];
 }
 
 // Express request extensions
@@ -139,6 +336,7 @@ export interface AuthenticatedRequest extends Request {
   user?: {
     userId: string;
     isAdmin: boolean;
+    sessionId?: string;
   };
 }
 
@@ -153,6 +351,12 @@ export interface BookingStatsRow {
   paid_count: string;
 }
 
+export interface RevenueRow {
+  currency: string;
+  total_revenue: string;
+  paid_bookings: string;
+}
+
 export interface PopularStudioRow {
   name: string;
   slug: string;
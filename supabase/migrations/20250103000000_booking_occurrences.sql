@@ -0,0 +1,15 @@
+-- bookings attach to a single occurrence of a (possibly recurring) slot.
+-- occurrence_date is the local calendar date of the occurrence in the studio timezone.
+alter table public.bookings add column if not exists occurrence_date date;
+
+-- backfill existing bookings with the slot's own start date
+update public.bookings b
+set occurrence_date = (s.starts_at at time zone st.timezone)::date
+from public.slots s
+join public.studios st on st.id = s.studio_id
+where b.slot_id = s.id and b.occurrence_date is null;
+
+alter table public.bookings alter column occurrence_date set not null;
+
+create index if not exists bookings_slot_occurrence_idx
+  on public.bookings(slot_id, occurrence_date);
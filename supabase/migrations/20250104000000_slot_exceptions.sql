@@ -0,0 +1,15 @@
+-- per-occurrence exceptions for (recurring) slots, keyed by the occurrence's original local date.
+-- cancelled = true acts as an EXDATE; the nullable columns override the series values.
+create table if not exists public.slot_exceptions (
+  slot_id uuid not null references public.slots(id) on delete cascade,
+  occurrence_date date not null,
+  cancelled boolean not null default false,
+  starts_at timestamptz,
+  price numeric(10,2) check (price >= 0),
+  max_participants int check (max_participants >= 1),
+  created_at timestamptz not null default now(),
+  constraint slot_exceptions_pkey primary key (slot_id, occurrence_date)
+);
+
+-- lookups of occurrences moved into a date range
+create index if not exists slot_exceptions_starts_at_idx on public.slot_exceptions(starts_at);
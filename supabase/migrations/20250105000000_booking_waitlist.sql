@@ -0,0 +1,7 @@
+-- waitlist: bookings with status WAITLISTED queue for a full occurrence in waitlisted_at order
+alter table public.bookings
+  add column if not exists waitlisted_at timestamptz;
+
+create index if not exists bookings_waitlist_idx
+  on public.bookings(slot_id, occurrence_date, waitlisted_at)
+  where status = 'WAITLISTED';
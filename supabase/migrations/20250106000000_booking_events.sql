@@ -0,0 +1,24 @@
+-- booking history: one row per creation or status change.
+-- source is who triggered it: 'admin' (studio API), 'invite' (customer via invite link)
+-- or 'system' (e.g. waitlist promotion); actor_user_id is set when a signed-in user acted.
+create table if not exists public.booking_events (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  event_type text not null check (event_type in ('CREATED', 'STATUS_CHANGED')),
+  from_status text,
+  to_status text,
+  source text not null check (source in ('admin', 'invite', 'system')),
+  actor_user_id uuid references public.users(id) on delete set null,
+  details jsonb,
+  -- clock_timestamp keeps events of one transaction in order
+  created_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists booking_events_booking_idx
+  on public.booking_events(booking_id, created_at);
+
+-- existing bookings get a creation event so every booking has a history
+insert into public.booking_events (booking_id, event_type, to_status, source, details, created_at)
+select b.id, 'CREATED', b.status, 'system', '{"backfilled": true}'::jsonb, coalesce(b.created_at, now())
+from public.bookings b
+where not exists (select 1 from public.booking_events e where e.booking_id = b.id);
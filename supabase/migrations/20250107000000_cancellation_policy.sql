@@ -0,0 +1,11 @@
+-- per-studio cancellation policy. free_cancellation_hours = null means cancelling is always free;
+-- otherwise cancelling less than that many hours before the class starts is a late cancellation.
+alter table public.studios
+  add column if not exists free_cancellation_hours int check (free_cancellation_hours >= 0),
+  add column if not exists late_cancellation_action text not null default 'charge'
+    check (late_cancellation_action in ('charge', 'forfeit_credit'));
+
+-- when and how a booking was cancelled
+alter table public.bookings
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists late_cancellation boolean not null default false;
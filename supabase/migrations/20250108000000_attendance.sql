@@ -0,0 +1,4 @@
+-- attendance: bookings are checked in as ATTENDED or NO_SHOW once the class has started.
+-- attendance_recorded_at is when that was last recorded; cleared when the booking goes back to CONFIRMED.
+alter table public.bookings
+  add column if not exists attendance_recorded_at timestamptz;
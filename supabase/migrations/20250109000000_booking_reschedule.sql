@@ -0,0 +1,7 @@
+-- rescheduling moves a booking to another occurrence in place, keeping its payment state;
+-- the move is recorded as a RESCHEDULED event with the old and new slot and date in details.
+alter table public.booking_events
+  drop constraint if exists booking_events_event_type_check;
+alter table public.booking_events
+  add constraint booking_events_event_type_check
+  check (event_type in ('CREATED', 'STATUS_CHANGED', 'RESCHEDULED'));
@@ -0,0 +1,24 @@
+-- prepaid class credits (punch cards) sold to a customer. a booking holding a seat uses one
+-- credit of a package through bookings.credit_package_id; the remaining credits of a package are
+-- its credits minus the bookings using it, so refunding a credit clears that link.
+create table if not exists public.credit_packages (
+  id uuid primary key default gen_random_uuid(),
+  studio_id uuid not null references public.studios(id) on delete cascade,
+  customer_id uuid not null references public.customers(id) on delete cascade,
+  name text not null,
+  credits int not null check (credits > 0),
+  -- credits can be used for classes starting before this moment; null never expires
+  expires_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_packages_customer_idx
+  on public.credit_packages(customer_id);
+
+alter table public.bookings
+  add column if not exists credit_package_id uuid
+    references public.credit_packages(id) on delete set null;
+
+create index if not exists bookings_credit_package_idx
+  on public.bookings(credit_package_id)
+  where credit_package_id is not null;
@@ -0,0 +1,45 @@
+-- membership plans of a studio, e.g. "unlimited kids classes" or "1 class per week".
+-- weekly_limit = null is unlimited; for_children restricts the plan to children's (true) or
+-- adult (false) classes, null covers both.
+create table if not exists public.membership_plans (
+  id uuid primary key default gen_random_uuid(),
+  studio_id uuid not null references public.studios(id) on delete cascade,
+  name text not null,
+  weekly_limit int check (weekly_limit > 0),
+  for_children boolean,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists membership_plans_studio_idx
+  on public.membership_plans(studio_id);
+
+-- a plan subscribed for a customer or one child, for occurrence dates starts_on..ends_on
+create table if not exists public.memberships (
+  id uuid primary key default gen_random_uuid(),
+  plan_id uuid not null references public.membership_plans(id) on delete cascade,
+  customer_id uuid references public.customers(id) on delete cascade,
+  child_id uuid references public.children(id) on delete cascade,
+  starts_on date not null,
+  ends_on date not null,
+  created_at timestamptz not null default now(),
+  constraint memberships_one_party check (
+    (customer_id is not null)::int + (child_id is not null)::int = 1
+  ),
+  constraint memberships_date_range check (starts_on <= ends_on)
+);
+
+create index if not exists memberships_customer_idx on public.memberships(customer_id);
+create index if not exists memberships_child_idx on public.memberships(child_id);
+
+-- a booking holding a seat is covered by a membership or a credit instead of a payment
+alter table public.bookings
+  add column if not exists membership_id uuid
+    references public.memberships(id) on delete set null;
+
+alter table public.bookings
+  add column if not exists covered boolean
+    generated always as (membership_id is not null or credit_package_id is not null) stored;
+
+create index if not exists bookings_membership_idx
+  on public.bookings(membership_id, occurrence_date)
+  where membership_id is not null;
@@ -0,0 +1,59 @@
+-- money received by a studio. refunds are negative entries pointing at the payment they
+-- refund; a payment may be for a booking or for a credit package, or stand on its own.
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  studio_id uuid not null references public.studios(id) on delete cascade,
+  customer_id uuid references public.customers(id) on delete set null,
+  booking_id uuid references public.bookings(id) on delete set null,
+  credit_package_id uuid references public.credit_packages(id) on delete set null,
+  refund_of uuid references public.payments(id) on delete restrict,
+  amount numeric(10,2) not null check (amount <> 0),
+  currency text not null,
+  method payment_method not null,
+  received_at timestamptz not null default now(),
+  recorded_by uuid references public.users(id) on delete set null,
+  note text,
+  created_at timestamptz not null default now(),
+  constraint payments_one_link check (booking_id is null or credit_package_id is null),
+  constraint payments_refund_sign check ((refund_of is null) = (amount > 0))
+);
+
+create index if not exists payments_studio_received_idx
+  on public.payments(studio_id, received_at);
+create index if not exists payments_booking_idx
+  on public.payments(booking_id) where booking_id is not null;
+create index if not exists payments_customer_idx
+  on public.payments(customer_id) where customer_id is not null;
+create index if not exists payments_refund_of_idx
+  on public.payments(refund_of) where refund_of is not null;
+
+-- net amount of a booking's payments; paid, paid_at and paid_method are derived from the
+-- ledger whenever it changes
+alter table public.bookings
+  add column if not exists amount_paid numeric(10,2) not null default 0;
+
+-- bookings marked paid before the ledger existed get one payment of their price
+insert into public.payments
+  (studio_id, customer_id, booking_id, amount, currency, method, received_at, note)
+select s.studio_id, coalesce(b.customer_id, ch.customer_id), b.id, coalesce(e.price, s.price),
+       st.currency, coalesce(b.paid_method, 'cash'), coalesce(b.paid_at, b.created_at),
+       'recorded before the payment ledger'
+from public.bookings b
+join public.slots s on b.slot_id = s.id
+join public.studios st on s.studio_id = st.id
+left join public.children ch on b.child_id = ch.id
+left join public.slot_exceptions e
+  on e.slot_id = b.slot_id and e.occurrence_date = b.occurrence_date
+where b.paid
+  and coalesce(e.price, s.price) > 0
+  and not exists (select 1 from public.payments p where p.booking_id = b.id);
+
+update public.bookings b
+set amount_paid = t.total
+from (
+  select booking_id, sum(amount) as total
+  from public.payments
+  where booking_id is not null
+  group by booking_id
+) t
+where t.booking_id = b.id and b.amount_paid <> t.total;
@@ -0,0 +1,68 @@
+-- pricing rules evaluated when a booking is made. a child booked into an occurrence that a
+-- sibling already attends gets the studio's sibling discount.
+alter table public.studios
+  add column if not exists sibling_discount_percent numeric(5,2)
+    check (sibling_discount_percent > 0 and sibling_discount_percent <= 100);
+
+-- promo codes of a studio, matched case-insensitively. valid_from/valid_until are booking
+-- dates in the studio timezone (inclusive); max_uses counts bookings that are not cancelled.
+create table if not exists public.coupons (
+  id uuid primary key default gen_random_uuid(),
+  studio_id uuid not null references public.studios(id) on delete cascade,
+  code text not null,
+  percent_off numeric(5,2) check (percent_off > 0 and percent_off <= 100),
+  amount_off numeric(10,2) check (amount_off > 0),
+  max_uses int check (max_uses > 0),
+  valid_from date,
+  valid_until date,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  constraint coupons_one_discount check (
+    (percent_off is not null)::int + (amount_off is not null)::int = 1
+  ),
+  constraint coupons_validity check (valid_from <= valid_until)
+);
+
+create unique index if not exists coupons_studio_code_idx
+  on public.coupons(studio_id, lower(code));
+
+-- fixed prices agreed with a customer (also for their children's bookings), for one slot or,
+-- with slot_id = null, for all of the studio's classes
+create table if not exists public.customer_prices (
+  id uuid primary key default gen_random_uuid(),
+  customer_id uuid not null references public.customers(id) on delete cascade,
+  slot_id uuid references public.slots(id) on delete cascade,
+  price numeric(10,2) not null check (price >= 0),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists customer_prices_slot_idx
+  on public.customer_prices(customer_id, slot_id) where slot_id is not null;
+create unique index if not exists customer_prices_default_idx
+  on public.customer_prices(customer_id) where slot_id is null;
+
+-- the price charged for a booking, fixed when it is made: list_price is the occurrence price
+-- at that time, price what the booking costs after pricing rules. price_rule names the rule
+-- that set the price ('customer_price', 'sibling' or 'coupon'), null for the list price.
+alter table public.bookings
+  add column if not exists list_price numeric(10,2),
+  add column if not exists price numeric(10,2),
+  add column if not exists coupon_id uuid references public.coupons(id) on delete set null,
+  add column if not exists price_rule text
+    check (price_rule in ('customer_price', 'sibling', 'coupon'));
+
+update public.bookings b
+set list_price = priced.price, price = priced.price
+from (
+  select pb.id, coalesce(e.price, s.price) as price
+  from public.bookings pb
+  join public.slots s on pb.slot_id = s.id
+  left join public.slot_exceptions e
+    on e.slot_id = pb.slot_id and e.occurrence_date = pb.occurrence_date
+  where pb.price is null
+) priced
+where priced.id = b.id;
+
+alter table public.bookings
+  alter column list_price set not null,
+  alter column price set not null;
@@ -0,0 +1,13 @@
+-- the currency a booking's price is charged in, fixed when it is made so a studio changing
+-- its currency later does not change what past bookings cost
+alter table public.bookings
+  add column if not exists currency text;
+
+update public.bookings b
+set currency = st.currency
+from public.slots s
+join public.studios st on s.studio_id = st.id
+where b.slot_id = s.id and b.currency is null;
+
+alter table public.bookings
+  alter column currency set not null;
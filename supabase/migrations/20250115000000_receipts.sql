@@ -0,0 +1,31 @@
+-- business details printed on receipts. vat_rate is the percentage included in amounts
+-- received, null for businesses exempt from charging vat (osek patur).
+alter table public.studios
+  add column if not exists business_name text,
+  add column if not exists business_tax_id text,
+  add column if not exists business_address text,
+  add column if not exists vat_rate numeric(5,2) check (vat_rate >= 0 and vat_rate < 100),
+  add column if not exists last_receipt_number integer not null default 0;
+
+-- receipts issued for payments, numbered per studio. the number comes from
+-- studios.last_receipt_number in the payment's transaction, so numbers never skip or repeat.
+-- business details, the customer and amounts are copied so a receipt never changes.
+create table if not exists public.receipts (
+  id uuid primary key default gen_random_uuid(),
+  studio_id uuid not null references public.studios(id) on delete cascade,
+  payment_id uuid not null unique references public.payments(id) on delete cascade,
+  number integer not null check (number > 0),
+  issued_at timestamptz not null default now(),
+  business_name text not null,
+  business_tax_id text,
+  business_address text,
+  customer_name text,
+  currency text not null,
+  method payment_method not null,
+  lines jsonb not null,
+  subtotal numeric(10,2) not null,
+  vat_rate numeric(5,2),
+  vat_amount numeric(10,2) not null default 0,
+  total numeric(10,2) not null,
+  unique (studio_id, number)
+);
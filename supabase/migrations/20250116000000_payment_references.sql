@@ -0,0 +1,7 @@
+-- the bank, bit or paybox transaction reference of a payment, so importing the same
+-- statement twice cannot record a transaction twice
+alter table public.payments
+  add column if not exists reference text;
+
+create unique index if not exists payments_reference_idx
+  on public.payments(studio_id, method, reference) where reference is not null;
@@ -0,0 +1,22 @@
+-- payments taken online through a payment provider
+alter type public.payment_method add value if not exists 'online';
+
+-- pay-now links created with a payment provider for a booking. the provider reports the
+-- outcome through its webhook; payment_id is the ledger entry recorded when it was paid.
+create table if not exists public.payment_links (
+  id uuid primary key default gen_random_uuid(),
+  studio_id uuid not null references public.studios(id) on delete cascade,
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  provider text not null,
+  provider_ref text not null,
+  amount numeric(10,2) not null check (amount > 0),
+  currency text not null,
+  url text not null,
+  status text not null default 'pending' check (status in ('pending', 'paid', 'failed')),
+  payment_id uuid references public.payments(id) on delete set null,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz,
+  unique (provider, provider_ref)
+);
+
+create index if not exists payment_links_booking_idx on public.payment_links(booking_id);
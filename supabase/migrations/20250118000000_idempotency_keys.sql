@@ -0,0 +1,15 @@
+-- responses of writes sent with an idempotency-key header, replayed when the client retries.
+-- a row without a status_code is a request still being handled.
+create table if not exists public.idempotency_keys (
+  id uuid primary key default gen_random_uuid(),
+  key text not null,
+  method text not null,
+  path text not null,
+  request_hash text not null,
+  status_code int,
+  response_body jsonb,
+  created_at timestamptz not null default now(),
+  unique (key, method, path)
+);
+
+create index if not exists idempotency_keys_created_idx on public.idempotency_keys(created_at);
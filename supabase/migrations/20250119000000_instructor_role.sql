@@ -0,0 +1,4 @@
+-- instructors: read-only studio staff who see schedules and rosters
+alter table public.studio_owners drop constraint if exists studio_owners_role_check;
+alter table public.studio_owners
+  add constraint studio_owners_role_check check (role in ('owner', 'manager', 'instructor'));
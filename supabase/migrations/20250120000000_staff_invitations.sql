@@ -0,0 +1,18 @@
+-- people invited to join a studio's team, matched by email once they sign in with google.
+-- an invitation is pending until accepted_at is set.
+create table if not exists public.staff_invitations (
+  id uuid primary key default gen_random_uuid(),
+  studio_id uuid not null references public.studios(id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('owner', 'manager', 'instructor')),
+  invited_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  accepted_at timestamptz,
+  accepted_by uuid references public.users(id) on delete set null
+);
+
+-- one pending invitation per studio and email
+create unique index if not exists staff_invitations_pending_idx
+  on public.staff_invitations(studio_id, lower(email)) where accepted_at is null;
+create index if not exists staff_invitations_email_idx on public.staff_invitations(lower(email));
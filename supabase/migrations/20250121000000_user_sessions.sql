@@ -0,0 +1,16 @@
+-- refresh tokens, stored as sha-256 hashes. each refresh replaces the token with a new row
+-- in the same family (one family per sign-in); presenting a replaced token again revokes
+-- the whole family.
+create table if not exists public.user_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  family_id uuid not null,
+  refresh_token_hash text not null unique,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  replaced_by uuid references public.user_sessions(id) on delete set null
+);
+
+create index if not exists user_sessions_family_idx on public.user_sessions(family_id);
+create index if not exists user_sessions_user_idx on public.user_sessions(user_id);
@@ -0,0 +1,3 @@
+-- the device a session was last refreshed from, shown when listing sessions
+alter table public.user_sessions add column if not exists user_agent text;
+alter table public.user_sessions add column if not exists ip text;
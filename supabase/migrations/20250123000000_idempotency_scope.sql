@@ -0,0 +1,10 @@
+-- idempotency keys belong to the caller that sent them: the signed-in user and the studio the
+-- request is for (empty for public requests, whose path already names the invite), so callers
+-- reusing a key never get each other's responses.
+alter table public.idempotency_keys add column if not exists scope text not null default '';
+
+alter table public.idempotency_keys
+  drop constraint if exists idempotency_keys_key_method_path_key;
+
+create unique index if not exists idempotency_keys_scope_key_idx
+  on public.idempotency_keys(scope, key, method, path);
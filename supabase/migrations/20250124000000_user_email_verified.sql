@@ -0,0 +1,3 @@
+-- whether google verified the email the user last signed in with; invitations go by email,
+-- so only a verified email can see or accept them
+alter table public.users add column if not exists email_verified boolean not null default false;
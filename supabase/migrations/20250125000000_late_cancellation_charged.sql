@@ -0,0 +1,14 @@
+-- whether a late cancellation is charged, decided by the studio's policy when the booking was
+-- cancelled, so changing the policy later does not add or remove charges for past cancellations
+alter table public.bookings
+  add column if not exists late_cancellation_charged boolean not null default false;
+
+-- cancellations made before the column existed keep the policy their studio has now
+update public.bookings b
+set late_cancellation_charged = true
+from public.slots s
+join public.studios st on s.studio_id = st.id
+where b.slot_id = s.id
+  and b.late_cancellation
+  and not b.late_cancellation_charged
+  and st.late_cancellation_action = 'charge';
@@ -30,5 +30,5 @@ select id, 'Maya', 'bear' from c;
 
 with sl as (select id from slots limit 1),
      ch as (select id from children limit 1)
-insert into bookings (slot_id, child_id)
-select sl.id, ch.id from sl, ch; 
\ No newline at end of file
+insert into bookings (slot_id, child_id, occurrence_date)
+select sl.id, ch.id, '2025-07-29' from sl, ch; 
\ No newline at end of file